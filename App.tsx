@@ -1,31 +1,270 @@
-import React, { useState, useCallback } from 'react';
-import { ImageFile, LogEntry } from './types';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import { BrandProfile, CatalogProduct, ComplianceResult, DriftResult, FailureInfo, ImageFile, ImageSource, JobAttempt, JobProduct, JobRecord, LogEntry, ProductQualityCheck, ProductTarget, ProgressEvent, QualityCheckResult, ReferenceAnalysis, ReferenceVerdict, ReplacementCandidate } from './types';
 import { Header } from './components/Header';
 import { ImageUploader } from './components/ImageUploader';
-import { analyzeReferenceImages, replaceProductInImage } from './services/geminiService';
-import { UploadIcon, XCircleIcon, SparklesIcon, ExclamationTriangleIcon, HandThumbUpIcon, HandThumbDownIcon, InformationCircleIcon, DocumentTextIcon, ExclamationCircleIcon } from './components/IconComponents';
+import { analyzeReferenceImages, PlanProposal, PreviousAttempt, replaceProductInImage, replaceProductsInImage, ReviewedPlan } from './services/geminiService';
+import { UploadIcon, XCircleIcon, SparklesIcon, ExclamationTriangleIcon, HandThumbUpIcon, HandThumbDownIcon, DocumentTextIcon } from './components/IconComponents';
 import { LogPanel } from './components/LogPanel';
+import { BatchWorkspace } from './components/BatchWorkspace';
+import { QualityCheckCard } from './components/QualityCheckCard';
+import { MaskEditor } from './components/MaskEditor';
+import { DriftCard } from './components/DriftCard';
+import { CandidateGallery } from './components/CandidateGallery';
+import { HistoryPanel } from './components/HistoryPanel';
+import { AttemptTree } from './components/AttemptTree';
+import { ProgressStepper } from './components/ProgressStepper';
+import { CostSummary } from './components/CostSummary';
+import { ProductImageGrid } from './components/ProductImageGrid';
+import { AdditionalProductCard } from './components/AdditionalProductCard';
+import { ExportPanel } from './components/ExportPanel';
+import { ProductCatalogBar } from './components/ProductCatalogBar';
+import { ReferenceCheck, ReferenceWarningCard } from './components/ReferenceWarningCard';
+import { BrandProfileCard } from './components/BrandProfileCard';
+import { ComplianceCard } from './components/ComplianceCard';
+import { FailureCard } from './components/FailureCard';
+import { PlanReviewCard } from './components/PlanReviewCard';
+import { createAttemptId, createJobId, markInterruptedJobs, saveJob } from './services/jobHistory';
+import { createReferenceVerdict, findStoredVerdict, listCatalogProducts, referenceFingerprint, saveCatalogProduct } from './services/productCatalog';
+import { describeUnsuitableImages } from './services/referenceAnalysis';
+import { listBrandProfiles } from './services/brandProfiles';
+import { BudgetExceededError, CancelledError, GenerationError } from './services/errors';
+import { FailureAction, nextAction } from './services/failures';
+import { createCostLedger, sumUsage } from './services/costs';
+import { CallOptions, DEFAULT_CALL_POLICY } from './services/modelCall';
+import { applyProgressEvent, formatProgressEvent } from './services/progress';
+
+type WorkspaceMode = 'single' | 'batch';
+
+const MAX_PRODUCT_IMAGES = 5;
+
+// The inputs a job is started from; kept on the job record so it can be re-run later.
+interface JobInputs {
+    productImages: ImageFile[];
+    primaryProductIndex: number;
+    marketingImage: ImageFile;
+    marketingMask: string | null;
+    // Multi-product jobs: the first product's name and target, and the products after it.
+    productName: string;
+    productTarget: string;
+    additionalProducts: JobProduct[];
+    brandProfile?: BrandProfile;
+}
+
+// Every product of a multi-product job, in order. Unnamed products are named by position.
+const productsOf = (
+    job: Pick<JobRecord, 'productImages' | 'primaryProductIndex' | 'marketingMask' | 'productName' | 'productTarget' | 'additionalProducts'>
+): ProductTarget[] => [
+    {
+        name: job.productName?.trim() || 'Product 1',
+        images: job.productImages,
+        primaryIndex: job.primaryProductIndex,
+        target: job.productTarget ?? '',
+        mask: job.marketingMask,
+    },
+    ...(job.additionalProducts ?? []).map((product, i) => ({ ...product, name: product.name.trim() || `Product ${i + 2}` })),
+];
 
 const App: React.FC = () => {
+    const [mode, setMode] = useState<WorkspaceMode>('single');
     const [productImages, setProductImages] = useState<ImageFile[]>([]);
+    // Tracked by reference so reordering and removal keep pointing at the same image.
+    const [primaryProductImage, setPrimaryProductImage] = useState<ImageFile | null>(null);
+    const [productLimitMessage, setProductLimitMessage] = useState<string | null>(null);
     const [marketingImage, setMarketingImage] = useState<ImageFile | null>(null);
+    const [marketingMask, setMarketingMask] = useState<string | null>(null);
+    const [productName, setProductName] = useState('');
+    const [productTarget, setProductTarget] = useState('');
+    const [additionalProducts, setAdditionalProducts] = useState<JobProduct[]>([]);
+    // The product whose region the mask editor is drawing; null for the first product.
+    const [maskProductId, setMaskProductId] = useState<string | null>(null);
     const [resultImage, setResultImage] = useState<string | null>(null);
     const [isLoading, setIsLoading] = useState<boolean>(false);
-    const [loadingMessage, setLoadingMessage] = useState<string>('');
+    const [progressSteps, setProgressSteps] = useState<ProgressEvent[]>([]);
     const [error, setError] = useState<string | null>(null);
+    // Set along with `error` when the cause is known, with the next step offered for it.
+    const [failure, setFailure] = useState<{ info: FailureInfo; action: FailureAction; retry: () => void; feedback?: string } | null>(null);
     const [resultText, setResultText] = useState<string | null>(null);
-    const [qualityCheck, setQualityCheck] = useState<string | null>(null);
+    const [qualityCheck, setQualityCheck] = useState<QualityCheckResult | null>(null);
+    const [productChecks, setProductChecks] = useState<ProductQualityCheck[] | undefined>(undefined);
+    const [drift, setDrift] = useState<DriftResult | null>(null);
+    const [compliance, setCompliance] = useState<ComplianceResult | undefined>(undefined);
+    const [attempts, setAttempts] = useState<number>(1);
+    const [autoRetryEnabled, setAutoRetryEnabled] = useState<boolean>(false);
+    const [minQualityScore, setMinQualityScore] = useState<number>(7);
+    const [maxAttempts, setMaxAttempts] = useState<number>(3);
+    const [variantCount, setVariantCount] = useState<number>(1);
+    const [reviewPlanEnabled, setReviewPlanEnabled] = useState<boolean>(false);
+    // Set while a run waits for the user to approve its planned instruction.
+    const [pendingPlan, setPendingPlan] = useState<{ proposal: PlanProposal; resolve: (plan: ReviewedPlan) => void } | null>(null);
+    const [callTimeoutSeconds, setCallTimeoutSeconds] = useState<number>(DEFAULT_CALL_POLICY.timeoutMs / 1000);
+    const [callRetries, setCallRetries] = useState<number>(DEFAULT_CALL_POLICY.maxRetries);
+    // Budgets in USD; null for no limit.
+    const [jobBudget, setJobBudget] = useState<number | null>(null);
+    const [sessionBudget, setSessionBudget] = useState<number | null>(null);
+    const [spend, setSpend] = useState({ job: 0, session: 0 });
+    const [candidates, setCandidates] = useState<ReplacementCandidate[]>([]);
+    const [selectedVariant, setSelectedVariant] = useState<number>(1);
+    const [jobAttempts, setJobAttempts] = useState<JobAttempt[]>([]);
+    const [selectedAttemptId, setSelectedAttemptId] = useState<string | null>(null);
     const [showRejectionForm, setShowRejectionForm] = useState(false);
     const [rejectionFeedback, setRejectionFeedback] = useState("");
     const [logs, setLogs] = useState<LogEntry[]>([]);
     const [isLogPanelOpen, setIsLogPanelOpen] = useState(false);
     const [showImageWarning, setShowImageWarning] = useState<boolean>(false);
-    const [imageWarning, setImageWarning] = useState<string>('');
+    const [referenceChecks, setReferenceChecks] = useState<ReferenceCheck[]>([]);
+    const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+    const [isExportOpen, setIsExportOpen] = useState(false);
+    const [catalog, setCatalog] = useState<CatalogProduct[]>([]);
+    const [brandProfiles, setBrandProfiles] = useState<BrandProfile[]>([]);
+    const [selectedBrandProfileId, setSelectedBrandProfileId] = useState<string | null>(null);
+    // Bumped when a job is restored so the mask editor repaints the restored mask.
+    const [maskEditorKey, setMaskEditorKey] = useState(0);
+    const currentJobRef = useRef<JobRecord | null>(null);
+    const abortControllerRef = useRef<AbortController | null>(null);
+    // The job ledger is replaced with each job; the session ledger lives as long as the page.
+    const jobLedgerRef = useRef(createCostLedger('job'));
+    const sessionLedgerRef = useRef(createCostLedger('session'));
+    // Reference checks made this session, by image fingerprint, so they can be saved to the catalog.
+    const verdictsRef = useRef(new Map<string, ReferenceVerdict>());
 
-    const handleProductFilesSelect = useCallback((files: ImageFile[]) => {
-        setProductImages(prev => [...prev, ...files].slice(0, 5));
+    useEffect(() => {
+        jobLedgerRef.current.limit = jobBudget;
+        sessionLedgerRef.current.limit = sessionBudget;
+    }, [jobBudget, sessionBudget]);
+
+    const refreshCatalog = useCallback(() => {
+        listCatalogProducts()
+            .then(setCatalog)
+            .catch(err => console.warn('Failed to load the product catalog:', err));
+    }, []);
+
+    useEffect(refreshCatalog, [refreshCatalog]);
+
+    useEffect(() => {
+        markInterruptedJobs().catch(err => console.warn('Failed to update the job history:', err));
     }, []);
 
+    const refreshBrandProfiles = useCallback(() => {
+        listBrandProfiles()
+            .then(setBrandProfiles)
+            .catch(err => console.warn('Failed to load the brand profiles:', err));
+    }, []);
+
+    useEffect(refreshBrandProfiles, [refreshBrandProfiles]);
+
+    // Keeps a fresh model verdict for these images, and stores it on every catalog product
+    // with exactly these images so their next run skips the check.
+    const recordVerdict = async (images: ImageSource[], analysis: ReferenceAnalysis) => {
+        const verdict = createReferenceVerdict(images, analysis);
+        verdictsRef.current.set(verdict.fingerprint, verdict);
+        const matching = catalog.filter(product => referenceFingerprint(product.images) === verdict.fingerprint);
+        if (matching.length === 0) return;
+        try {
+            await Promise.all(matching.map(product => saveCatalogProduct({ ...product, verdict })));
+            refreshCatalog();
+        } catch (err) {
+            console.warn('Failed to save the reference check to the catalog:', err);
+        }
+    };
+
+    const knownVerdict = (images: ImageSource[]): ReferenceVerdict | null => {
+        if (images.length === 0) return null;
+        const fingerprint = referenceFingerprint(images);
+        return verdictsRef.current.get(fingerprint)
+            ?? catalog.find(product => product.verdict?.images && product.verdict.fingerprint === fingerprint)?.verdict
+            ?? null;
+    };
+
+    const refreshSpend = () => {
+        setSpend({ job: jobLedgerRef.current.spent, session: sessionLedgerRef.current.spent });
+    };
+
+    const resetJobLedger = (spent = 0) => {
+        jobLedgerRef.current = createCostLedger('job', jobBudget, spent);
+        refreshSpend();
+    };
+
+    // Starts a cancellable run and returns the options every pipeline call of it should use.
+    const startRun = (): CallOptions => {
+        abortControllerRef.current?.abort();
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
+        return {
+            signal: controller.signal,
+            callPolicy: { timeoutMs: callTimeoutSeconds * 1000, maxRetries: callRetries },
+            ledgers: [jobLedgerRef.current, sessionLedgerRef.current],
+        };
+    };
+
+    const handleProgress = (event: ProgressEvent) => {
+        setProgressSteps(prev => applyProgressEvent(prev, event));
+        refreshSpend();
+    };
+
+    const handleCancel = () => {
+        abortControllerRef.current?.abort();
+    };
+
+    // A cancelled run is not an error: keep its logs and leave any earlier attempts reviewable.
+    // A run stopped by a budget keeps its logs too, but the user has to be told why it stopped.
+    const handleStopped = (err: CancelledError | BudgetExceededError) => {
+        const isBudget = err instanceof BudgetExceededError;
+        if (isBudget) {
+            setError(`${err.message} Raise the budget in Generation Settings to continue.`);
+        }
+        setLogs(prev => [...prev, ...err.logs]);
+        updateCurrentJob(current => ({
+            status: current.attempts.length > 0 ? 'awaiting-review' : isBudget ? 'failed' : 'cancelled',
+            error: isBudget ? err.message : current.error,
+            logs: [...current.logs, ...err.logs],
+        }));
+    };
+
+    // A run that failed for a known reason keeps its logs, and the user is offered the next step.
+    const handleFailed = (err: GenerationError, retry: () => void, feedback?: string) => {
+        setError(err.message);
+        setFailure({ info: err.failure, action: nextAction(err.failure, Boolean(feedback)), retry, feedback });
+        setLogs(prev => [...prev, ...err.logs]);
+        updateCurrentJob(current => ({
+            status: current.attempts.length > 0 ? 'awaiting-review' : 'failed',
+            error: err.message,
+            logs: [...current.logs, ...err.logs],
+        }));
+    };
+
+    const handleFailureAction = () => {
+        if (!failure) return;
+        setError(null);
+        setFailure(null);
+        if (failure.action === 'retry') {
+            failure.retry();
+        } else if (failure.action === 'rephrase') {
+            setRejectionFeedback(failure.feedback ?? '');
+            setShowRejectionForm(true);
+        }
+    };
+
+    // Merges a patch into the current job and persists it. History is best-effort:
+    // a storage failure must never interrupt the generation itself.
+    const updateCurrentJob = (patch: (job: JobRecord) => Partial<JobRecord>) => {
+        const job = currentJobRef.current;
+        if (!job) return;
+        const updated = { ...job, ...patch(job), updatedAt: Date.now() };
+        currentJobRef.current = updated;
+        saveJob(updated).catch(err => console.warn('Failed to save job history:', err));
+    };
+
+    const primaryProductIndex = primaryProductImage ? Math.max(0, productImages.indexOf(primaryProductImage)) : 0;
+
+    const handleProductFilesSelect = useCallback((files: ImageFile[]) => {
+        const accepted = files.slice(0, Math.max(0, MAX_PRODUCT_IMAGES - productImages.length));
+        const skipped = files.length - accepted.length;
+        setProductLimitMessage(skipped > 0
+            ? `Only ${MAX_PRODUCT_IMAGES} product images can be used. ${skipped} file${skipped === 1 ? ' was' : 's were'} not added.`
+            : null);
+        setProductImages(prev => [...prev, ...accepted]);
+    }, [productImages.length]);
+
     const handleMarketingFileSelect = useCallback((files: ImageFile[]) => {
         if (files.length > 0) {
             setMarketingImage(files[0]);
@@ -34,31 +273,132 @@ const App: React.FC = () => {
 
     const removeProductImage = (index: number) => {
         setProductImages(prev => prev.filter((_, i) => i !== index));
+        setProductLimitMessage(null);
+    };
+
+    const moveProductImage = (from: number, to: number) => {
+        setProductImages(prev => {
+            const next = [...prev];
+            const [moved] = next.splice(from, 1);
+            next.splice(to, 0, moved);
+            return next;
+        });
+    };
+
+    const handlePickCatalogProduct = (product: CatalogProduct) => {
+        setProductImages(product.images);
+        setPrimaryProductImage(product.images[product.primaryIndex] ?? null);
+        setProductName(product.name);
+        setProductLimitMessage(null);
     };
 
     const removeMarketingImage = () => {
         setMarketingImage(null);
+        setMarketingMask(null);
+        setAdditionalProducts(prev => prev.map(product => ({ ...product, mask: null })));
+    };
+
+    const addProduct = () => {
+        setAdditionalProducts(prev => [...prev, {
+            id: `product-${Date.now()}`,
+            name: `Product ${prev.length + 2}`,
+            images: [],
+            primaryIndex: 0,
+            target: '',
+            mask: null,
+        }]);
     };
+
+    const updateProduct = (id: string, patch: Partial<JobProduct>) => {
+        setAdditionalProducts(prev => prev.map(product => product.id === id ? { ...product, ...patch } : product));
+    };
+
+    const removeProduct = (id: string) => {
+        setAdditionalProducts(prev => prev.filter(product => product.id !== id));
+        setMaskProductId(current => current === id ? null : current);
+    };
+
+    const maskProduct = additionalProducts.find(product => product.id === maskProductId);
     
+    // Displays an attempt, optionally with one of its non-top candidates.
+    const showAttempt = (attempt: JobAttempt, variant?: number) => {
+        const { result } = attempt;
+        const candidate = result.candidates.find(c => c.variant === variant);
+        const image = candidate ? candidate.image : result.image;
+        setSelectedAttemptId(attempt.id);
+        setResultImage(image ? `data:image/png;base64,${image}` : null);
+        setResultText(candidate ? candidate.text : result.text);
+        setQualityCheck(candidate ? candidate.qualityCheck : result.qualityCheck);
+        setProductChecks((candidate ?? result.candidates[0])?.productChecks);
+        setDrift(candidate ? candidate.drift : result.drift);
+        setCompliance(candidate ? candidate.compliance : result.compliance);
+        setAttempts(result.attempts);
+        setCandidates(result.candidates);
+        setSelectedVariant(candidate?.variant ?? result.candidates[0]?.variant ?? 1);
+    };
+
+    // Generates a new attempt. With feedback, it branches from the selected attempt.
     const startGenerationProcess = async (feedback?: string) => {
-        if (!marketingImage) return;
+        const job = currentJobRef.current;
+        if (!job) return;
+        const parent = feedback ? job.attempts.find(attempt => attempt.id === selectedAttemptId) : undefined;
+        const previousAttempt: PreviousAttempt | undefined = parent && {
+            instruction: parent.result.instruction,
+            image: resultImage ? { base64: resultImage } : null,
+            productInstructions: parent.result.productInstructions,
+        };
         
         setIsLoading(true);
         setError(null);
+        setFailure(null);
         setShowImageWarning(false);
-        setImageWarning('');
+        setReferenceChecks([]);
+        if (feedback) {
+            setProgressSteps([]);
+        }
+        const callOptions = startRun();
 
         try {
-            const result = await replaceProductInImage(productImages, marketingImage, feedback, setLoadingMessage);
-            if (result.image) {
-                setResultImage(`data:image/png;base64,${result.image}`);
-            }
-            if(result.text) {
-                setResultText(result.text);
-            }
-            if (result.qualityCheck) {
-                setQualityCheck(result.qualityCheck);
-            }
+            const autoRetry = autoRetryEnabled
+                ? {
+                    thresholds: {
+                        productAccuracy: minQualityScore,
+                        logicalConsistency: minQualityScore,
+                        instructionAdherence: minQualityScore,
+                        integration: minQualityScore,
+                        realism: minQualityScore,
+                    },
+                    maxAttempts,
+                }
+                : undefined;
+            const reviewPlan = reviewPlanEnabled
+                ? (proposal: PlanProposal) => new Promise<ReviewedPlan>(resolve => setPendingPlan({ proposal, resolve }))
+                : undefined;
+            const options = { autoRetry, variants: variantCount, previousAttempt, brand: job.brandProfile, reviewPlan, ...callOptions };
+            const result = job.additionalProducts?.length
+                ? await replaceProductsInImage(productsOf(job), job.marketingImage, feedback, handleProgress, options)
+                : await replaceProductInImage(job.productImages, job.marketingImage, feedback, handleProgress, {
+                    ...options,
+                    primaryProductIndex: job.primaryProductIndex,
+                    mask: job.marketingMask ? { base64: job.marketingMask } : undefined,
+                });
+            const { logs: resultLogs, ...attemptResult } = result;
+            const attempt: JobAttempt = {
+                id: createAttemptId(),
+                parentId: parent?.id ?? null,
+                createdAt: Date.now(),
+                feedback: feedback ?? null,
+                result: attemptResult,
+            };
+            updateCurrentJob(current => ({
+                status: 'awaiting-review',
+                error: null,
+                attempts: [...current.attempts, attempt],
+                logs: [...current.logs, ...resultLogs],
+            }));
+            // The job may have been deleted from the history while it ran
+            setJobAttempts(currentJobRef.current?.attempts ?? [attempt]);
+            showAttempt(attempt);
             if (result.logs) {
                 setLogs(prev => [...prev, ...result.logs]);
             }
@@ -67,49 +407,138 @@ const App: React.FC = () => {
             }
 
         } catch (err) {
-            setError(err instanceof Error ? err.message : "An unknown error occurred.");
+            if (err instanceof CancelledError || err instanceof BudgetExceededError) {
+                handleStopped(err);
+                return;
+            }
+            if (err instanceof GenerationError) {
+                handleFailed(err, () => startGenerationProcess(feedback), feedback);
+                return;
+            }
+            const message = err instanceof Error ? err.message : "An unknown error occurred.";
+            setError(message);
+            updateCurrentJob(() => ({ status: 'failed', error: message }));
             console.error(err);
         } finally {
             setIsLoading(false);
-            setLoadingMessage('');
+            setPendingPlan(null);
+            refreshSpend();
         }
     };
 
+    const handleApprovePlan = (plan: ReviewedPlan) => {
+        pendingPlan?.resolve(plan);
+        setPendingPlan(null);
+    };
+
+    const selectCandidate = (candidate: ReplacementCandidate) => {
+        setSelectedVariant(candidate.variant);
+        setResultImage(`data:image/png;base64,${candidate.image}`);
+        setResultText(candidate.text);
+        setQualityCheck(candidate.qualityCheck);
+        setProductChecks(candidate.productChecks);
+        setDrift(candidate.drift);
+        setCompliance(candidate.compliance);
+    };
 
-    const handleGenerate = async () => {
-        if (!marketingImage || productImages.length === 0) {
-            setError("Please upload at least one product image and a marketing image.");
+    const handleGenerate = async (
+        inputs: JobInputs | null = marketingImage
+            ? {
+                productImages, primaryProductIndex, marketingImage, marketingMask, productName, productTarget, additionalProducts,
+                brandProfile: brandProfiles.find(profile => profile.id === selectedBrandProfileId),
+            }
+            : null
+    ) => {
+        if (!inputs || inputs.productImages.length === 0 || inputs.additionalProducts.some(product => product.images.length === 0)) {
+            setError("Please upload at least one image of every product and a marketing image.");
             return;
         }
+
+        const now = Date.now();
+        currentJobRef.current = {
+            id: createJobId(),
+            createdAt: now,
+            updatedAt: now,
+            status: 'in-progress',
+            ...inputs,
+            attempts: [],
+            approved: null,
+            logs: [],
+            error: null,
+        };
+        updateCurrentJob(() => ({}));
         
         // Reset everything for a new run
         setIsLoading(true);
-        setLoadingMessage('Step 1/4: Checking reference image quality...');
+        setProgressSteps([]);
+        resetJobLedger();
         setError(null);
+        setFailure(null);
         setResultImage(null);
         setResultText(null);
         setQualityCheck(null);
+        setProductChecks(undefined);
+        setDrift(null);
+        setCompliance(undefined);
+        setCandidates([]);
+        setJobAttempts([]);
+        setSelectedAttemptId(null);
         setShowRejectionForm(false);
         setRejectionFeedback("");
+        setIsExportOpen(false);
         setLogs([]);
         setShowImageWarning(false);
-        setImageWarning('');
+        setReferenceChecks([]);
 
         try {
-            const analysis = await analyzeReferenceImages(productImages);
-            setLogs([analysis.log]); // Set the first log entry
+            // Each product's references are checked on their own
+            const products = inputs.additionalProducts.length > 0 ? productsOf(inputs) : null;
+            const callOptions = {
+                ...startRun(),
+                onProgress: handleProgress,
+                runPlan: { planReview: reviewPlanEnabled, brandCheck: Boolean(inputs.brandProfile) },
+            };
+            // Reference sets already checked in the catalog are not sent to the model again
+            const imageSets = products?.map(product => product.images) ?? [inputs.productImages];
+            const analyses = await Promise.all(imageSets.map(images => {
+                const stored = findStoredVerdict(catalog, images);
+                return analyzeReferenceImages(images, {
+                    ...callOptions,
+                    storedVerdict: stored
+                        ? { analysis: stored.analysis, checkedAt: stored.checkedAt, source: `the product catalog ("${stored.product.name}")` }
+                        : undefined,
+                });
+            }));
+            analyses.forEach((analysis, i) => {
+                if (analysis.log.model !== 'local') recordVerdict(imageSets[i], analysis);
+            });
+            const analysisLogs = analyses.map((analysis, i) => products ? { ...analysis.log, product: products[i].name } : analysis.log);
+            setLogs(analysisLogs); // Set the first log entries
+            updateCurrentJob(() => ({ logs: analysisLogs }));
 
-            if (analysis.areImagesSuitable) {
+            if (analyses.every(analysis => analysis.areImagesSuitable)) {
                 // If images are good, proceed directly to the main 3-step process.
                 await startGenerationProcess();
             } else {
                 // If images are not suitable, show a warning and wait for user input.
-                setImageWarning(analysis.reasoning);
+                setReferenceChecks(analyses.map((analysis, i) => ({ product: products?.[i].name, images: imageSets[i], analysis })));
                 setShowImageWarning(true);
                 setIsLoading(false); // Stop loading animation
             }
         } catch (err) {
-            setError(err instanceof Error ? err.message : "An unknown error occurred during image quality analysis.");
+            if (err instanceof CancelledError || err instanceof BudgetExceededError) {
+                handleStopped(err);
+                setIsLoading(false);
+                return;
+            }
+            if (err instanceof GenerationError) {
+                handleFailed(err, () => handleGenerate(inputs));
+                setIsLoading(false);
+                return;
+            }
+            const message = err instanceof Error ? err.message : "An unknown error occurred during image quality analysis.";
+            setError(message);
+            updateCurrentJob(() => ({ status: 'failed', error: message }));
             setIsLoading(false);
         }
     };
@@ -119,33 +548,98 @@ const App: React.FC = () => {
         startGenerationProcess();
     };
 
+    // Drops the images the reference check rejected from every product and generates with
+    // the rest. The primary reference moves to the first kept image if it was dropped.
+    const handleContinueWithSuitable = () => {
+        const job = currentJobRef.current;
+        if (!job) return;
+        const keep = <T,>(images: T[], check: ReferenceCheck) => images.filter((_, i) => check.analysis.images[i].isSuitable);
+        const keptPrimary = (images: ImageFile[], primaryIndex: number, kept: ImageFile[]) => Math.max(0, kept.indexOf(images[primaryIndex]));
+        const productImages = keep(job.productImages, referenceChecks[0]);
+        const primaryProductIndex = keptPrimary(job.productImages, job.primaryProductIndex, productImages);
+        const additionalProducts = (job.additionalProducts ?? []).map((product, i) => {
+            const images = keep(product.images, referenceChecks[i + 1]);
+            return { ...product, images, primaryIndex: keptPrimary(product.images, product.primaryIndex, images) };
+        });
+        const curationLog: LogEntry = {
+            step: logs[0]?.step ?? 1,
+            title: "Reference Image Curation",
+            model: 'local',
+            template: null,
+            input: { prompt: 'Continued with only the reference images the check found suitable.' },
+            output: {
+                text: referenceChecks
+                    .flatMap(check => describeUnsuitableImages(check.analysis, check.product ? `${check.product}, image` : 'Image'))
+                    .map(line => `Removed ${line}`)
+                    .join('\n'),
+            },
+        };
+        setProductImages(productImages);
+        setPrimaryProductImage(productImages[primaryProductIndex] ?? null);
+        setAdditionalProducts(additionalProducts);
+        setLogs(prev => [...prev, curationLog]);
+        updateCurrentJob(current => ({ productImages, primaryProductIndex, additionalProducts, logs: [...current.logs, curationLog] }));
+        setShowImageWarning(false);
+        startGenerationProcess();
+    };
+
     const handleCancelFromWarning = () => {
         setShowImageWarning(false);
-        setImageWarning('');
+        setReferenceChecks([]);
+        updateCurrentJob(() => ({ status: 'cancelled' }));
     };
 
+    // Approves the selected version, which need not be the latest one, and offers to export it.
     const handleApprove = () => {
+        updateCurrentJob(() => ({
+            status: 'approved',
+            approved: selectedAttemptId ? { attemptId: selectedAttemptId, variant: selectedVariant } : null,
+        }));
+        setShowRejectionForm(false);
+        setIsExportOpen(true);
+    };
+
+    // Outpainting during export is part of the job, so its calls join the job's log.
+    const handleExportLogs = (exportLogs: LogEntry[]) => {
+        setLogs(prev => [...prev, ...exportLogs]);
+        updateCurrentJob(current => ({ logs: [...current.logs, ...exportLogs] }));
+        refreshSpend();
+    };
+
+    const handleFinishExport = () => {
+        setIsExportOpen(false);
+        currentJobRef.current = null;
         // Reset for the next job
         setResultImage(null);
         setResultText(null);
         setMarketingImage(null);
+        setMarketingMask(null);
         setProductImages([]);
+        setProductName('');
+        setProductTarget('');
+        setAdditionalProducts([]);
+        setMaskProductId(null);
         setQualityCheck(null);
+        setProductChecks(undefined);
+        setDrift(null);
+        setCompliance(undefined);
+        setCandidates([]);
+        setJobAttempts([]);
+        setSelectedAttemptId(null);
         setShowRejectionForm(false);
         setRejectionFeedback("");
         setError(null);
+        setFailure(null);
         setLogs([]);
+        setProgressSteps([]);
         setIsLogPanelOpen(false);
         setShowImageWarning(false);
-        setImageWarning('');
+        setReferenceChecks([]);
     };
 
     const handleRetryWithFeedback = () => {
         if (rejectionFeedback.trim()) {
-            // Clear previous results before retrying
-            setResultImage(null);
-            setResultText(null);
-            setQualityCheck(null);
+            // Earlier versions stay in the attempt tree; the retry becomes a child of the selected one
             setShowRejectionForm(false);
             // We pass the feedback to the generation process
             startGenerationProcess(rejectionFeedback);
@@ -153,33 +647,219 @@ const App: React.FC = () => {
         }
     };
     
-    const isGenerateDisabled = !marketingImage || productImages.length === 0 || isLoading;
+    // Puts a stored job's inputs back into the workspace.
+    const restoreJobInputs = (job: JobRecord) => {
+        setMode('single');
+        setProductImages(job.productImages);
+        setPrimaryProductImage(job.productImages[job.primaryProductIndex] ?? null);
+        setProductLimitMessage(null);
+        setMarketingImage(job.marketingImage);
+        setMarketingMask(job.marketingMask);
+        setProductName(job.productName ?? '');
+        setProductTarget(job.productTarget ?? '');
+        setAdditionalProducts(job.additionalProducts ?? []);
+        setSelectedBrandProfileId(job.brandProfile?.id ?? null);
+        setMaskProductId(null);
+        setMaskEditorKey(key => key + 1);
+        setShowRejectionForm(false);
+        setRejectionFeedback("");
+        setShowImageWarning(false);
+        setReferenceChecks([]);
+        setProgressSteps([]);
+        setIsHistoryOpen(false);
+    };
+
+    const handleOpenJob = (job: JobRecord) => {
+        restoreJobInputs(job);
+        currentJobRef.current = job;
+        resetJobLedger(sumUsage(job.logs).cost ?? 0);
+        setJobAttempts(job.attempts);
+        const approvedAttempt = job.attempts.find(attempt => attempt.id === job.approved?.attemptId);
+        const shownAttempt = approvedAttempt ?? job.attempts[job.attempts.length - 1];
+        if (shownAttempt) {
+            showAttempt(shownAttempt, approvedAttempt ? job.approved!.variant : undefined);
+        } else {
+            setSelectedAttemptId(null);
+            setResultImage(null);
+            setResultText(null);
+            setQualityCheck(null);
+            setProductChecks(undefined);
+            setDrift(null);
+            setCompliance(undefined);
+            setCandidates([]);
+        }
+        setLogs(job.logs);
+        setError(job.error);
+        setFailure(null);
+        setIsExportOpen(job.status === 'approved');
+    };
+
+    // Deleting the open job detaches it, so later updates don't save it again, and stops its run.
+    const handleJobDeleted = (job: JobRecord) => {
+        if (currentJobRef.current?.id !== job.id) return;
+        if (isLoading) handleCancel();
+        currentJobRef.current = null;
+    };
+
+    // What the exported files say about where they came from.
+    const exportMetadata = (job: JobRecord) => ({
+        jobId: job.id,
+        attemptId: selectedAttemptId,
+        variant: candidates.length > 1 ? selectedVariant : null,
+        models: [...new Set(job.logs.map(log => log.model).filter(model => model !== 'local'))],
+        aiGenerated: true,
+    });
+
+    const handleRerunJob = (job: JobRecord) => {
+        restoreJobInputs(job);
+        handleGenerate({
+            productImages: job.productImages,
+            primaryProductIndex: job.primaryProductIndex,
+            marketingImage: job.marketingImage,
+            marketingMask: job.marketingMask,
+            productName: job.productName ?? '',
+            productTarget: job.productTarget ?? '',
+            additionalProducts: job.additionalProducts ?? [],
+            brandProfile: job.brandProfile,
+        });
+    };
+
+    const isGenerateDisabled = !marketingImage || productImages.length === 0 ||
+        additionalProducts.some(product => product.images.length === 0) || isLoading;
+    const isMultiProduct = mode === 'single' && additionalProducts.length > 0;
+    const workspaceProducts = productsOf({ productImages, primaryProductIndex, marketingMask, productName, productTarget, additionalProducts });
+    const runningStep = progressSteps.find(step => step.status === 'running');
+
+    const productStep = (
+        <div className="bg-gray-800 border border-gray-700 rounded-xl p-6 shadow-lg">
+            <h2 className="text-xl font-bold text-cyan-400 mb-1">Step 1: Upload Your Product Images</h2>
+            <p className="text-sm text-gray-400 mb-4">
+                Add 1 to {MAX_PRODUCT_IMAGES} clear images of your product against a clean background.
+                Drag the thumbnails to set their order, and mark the best one as the primary reference.
+            </p>
+            {isMultiProduct && (
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-4 text-sm">
+                    <label className="flex flex-col gap-1 text-gray-400">
+                        Product name
+                        <input
+                            type="text"
+                            value={productName}
+                            onChange={(e) => setProductName(e.target.value)}
+                            disabled={isLoading}
+                            placeholder="Product 1"
+                            className="bg-gray-900 border border-gray-600 rounded-md p-2 text-white"
+                        />
+                    </label>
+                    <label className="flex flex-col gap-1 text-gray-400">
+                        Replaces
+                        <input
+                            type="text"
+                            value={productTarget}
+                            onChange={(e) => setProductTarget(e.target.value)}
+                            disabled={isLoading}
+                            placeholder="e.g. the bottle on the left"
+                            className="bg-gray-900 border border-gray-600 rounded-md p-2 text-white"
+                        />
+                    </label>
+                </div>
+            )}
+            <ProductCatalogBar
+                catalog={catalog}
+                images={productImages}
+                primaryIndex={primaryProductIndex}
+                productName={productName}
+                verdict={knownVerdict(productImages)}
+                onPick={handlePickCatalogProduct}
+                onCatalogChange={refreshCatalog}
+                disabled={isLoading}
+            />
+            <ImageUploader
+                onFilesSelect={handleProductFilesSelect}
+                multiple={true}
+                disabled={productImages.length >= MAX_PRODUCT_IMAGES}
+                acceptPageWidePaste
+            />
+            {productLimitMessage && <p className="mt-2 text-xs text-yellow-400">{productLimitMessage}</p>}
+            {productImages.length > 0 && (
+                <ProductImageGrid
+                    images={productImages}
+                    primaryIndex={primaryProductIndex}
+                    onMove={moveProductImage}
+                    onSetPrimary={index => setPrimaryProductImage(productImages[index])}
+                    onRemove={removeProductImage}
+                />
+            )}
+            {mode === 'single' && (
+                <button
+                    onClick={addProduct}
+                    disabled={isLoading}
+                    className="mt-4 text-sm font-medium text-cyan-400 hover:text-cyan-300"
+                >
+                    + Add another product to replace in the same image
+                </button>
+            )}
+        </div>
+    );
 
     return (
         <div className="min-h-screen bg-gray-900 text-gray-200 font-sans">
             <Header />
             <main className="container mx-auto p-4 md:p-8">
+                {/* Mode Toggle */}
+                <div className="flex justify-between mb-6">
+                    <button
+                        onClick={() => setIsHistoryOpen(true)}
+                        disabled={isLoading}
+                        className="flex items-center gap-2 px-4 py-1 text-sm font-medium text-gray-300 bg-gray-800 border border-gray-700 rounded-lg hover:text-white"
+                    >
+                        <DocumentTextIcon className="w-4 h-4" />
+                        History
+                    </button>
+                    <button
+                        onClick={() => setIsLogPanelOpen(true)}
+                        className="ml-2 mr-auto flex items-center gap-2 px-4 py-1 text-sm font-medium text-gray-300 bg-gray-800 border border-gray-700 rounded-lg hover:text-white"
+                    >
+                        <DocumentTextIcon className="w-4 h-4" />
+                        Process Log
+                    </button>
+                    <div className="inline-flex bg-gray-800 border border-gray-700 rounded-lg p-1">
+                        {(['single', 'batch'] as WorkspaceMode[]).map(option => (
+                            <button
+                                key={option}
+                                onClick={() => setMode(option)}
+                                disabled={isLoading}
+                                className={`px-4 py-1 text-sm font-medium rounded-md transition-colors ${
+                                    mode === option ? 'bg-cyan-600 text-white' : 'text-gray-400 hover:text-white'
+                                }`}
+                            >
+                                {option === 'single' ? 'Single Image' : 'Batch'}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                {/* Batch mode stays mounted so queued jobs survive switching modes */}
+                <div className={mode === 'batch' ? 'flex flex-col gap-8' : 'hidden'}>
+                    {mode === 'batch' && productStep}
+                    <BatchWorkspace productImages={productImages} primaryProductIndex={primaryProductIndex} sessionLedger={sessionLedgerRef.current} onSpend={refreshSpend} />
+                </div>
+
+                {mode === 'single' && (
                 <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
                     {/* Left Column: Inputs */}
                     <div className="flex flex-col gap-8">
                         {/* Step 1: Product Images */}
-                        <div className="bg-gray-800 border border-gray-700 rounded-xl p-6 shadow-lg">
-                            <h2 className="text-xl font-bold text-cyan-400 mb-1">Step 1: Upload Your Product Images</h2>
-                            <p className="text-sm text-gray-400 mb-4">Add 1 to 5 clear images of your product against a clean background.</p>
-                            <ImageUploader onFilesSelect={handleProductFilesSelect} multiple={true} disabled={productImages.length >= 5} />
-                            {productImages.length > 0 && (
-                                <div className="mt-4 grid grid-cols-3 sm:grid-cols-5 gap-4">
-                                    {productImages.map((img, index) => (
-                                        <div key={index} className="relative group aspect-square">
-                                            <img src={img.base64} alt={`Product ${index + 1}`} className="w-full h-full object-cover rounded-md border-2 border-gray-600"/>
-                                            <button onClick={() => removeProductImage(index)} className="absolute -top-2 -right-2 bg-gray-800 rounded-full text-red-500 hover:text-red-400 transition-transform duration-200 transform group-hover:scale-110">
-                                                <XCircleIcon className="w-6 h-6" />
-                                            </button>
-                                        </div>
-                                    ))}
-                                </div>
-                            )}
-                        </div>
+                        {productStep}
+                        {additionalProducts.map(product => (
+                            <AdditionalProductCard
+                                key={product.id}
+                                product={product}
+                                maxImages={MAX_PRODUCT_IMAGES}
+                                onChange={patch => updateProduct(product.id, patch)}
+                                onRemove={() => removeProduct(product.id)}
+                                disabled={isLoading}
+                            />
+                        ))}
 
                         {/* Step 2: Marketing Image */}
                         <div className="bg-gray-800 border border-gray-700 rounded-xl p-6 shadow-lg">
@@ -189,7 +869,35 @@ const App: React.FC = () => {
                                 <ImageUploader onFilesSelect={handleMarketingFileSelect} multiple={false} />
                             ) : (
                                 <div className="mt-4 relative group">
-                                    <img src={marketingImage.base64} alt="Marketing creative" className="w-full h-auto object-contain rounded-md border-2 border-gray-600 max-h-96"/>
+                                    {isMultiProduct && (
+                                        <div className="flex flex-wrap items-center gap-2 mb-3 text-xs text-gray-400">
+                                            Mark the region of
+                                            {workspaceProducts.map((product, i) => {
+                                                const id = i === 0 ? null : additionalProducts[i - 1].id;
+                                                return (
+                                                    <button
+                                                        key={id ?? 'first'}
+                                                        onClick={() => setMaskProductId(id)}
+                                                        disabled={isLoading}
+                                                        className={`px-2 py-1 rounded-md ${maskProductId === id ? 'bg-cyan-600 text-white' : 'bg-gray-700 text-gray-300 hover:text-white'}`}
+                                                    >
+                                                        {product.name}{product.mask ? ' ✓' : ''}
+                                                    </button>
+                                                );
+                                            })}
+                                        </div>
+                                    )}
+                                    {maskProduct ? (
+                                        <MaskEditor
+                                            key={`${maskEditorKey}-${maskProduct.id}`}
+                                            imageSrc={marketingImage.base64}
+                                            initialMask={maskProduct.mask}
+                                            onMaskChange={mask => updateProduct(maskProduct.id, { mask })}
+                                            disabled={isLoading}
+                                        />
+                                    ) : (
+                                        <MaskEditor key={maskEditorKey} imageSrc={marketingImage.base64} initialMask={marketingMask} onMaskChange={setMarketingMask} disabled={isLoading} />
+                                    )}
                                      <button onClick={removeMarketingImage} className="absolute -top-2 -right-2 bg-gray-800 rounded-full text-red-500 hover:text-red-400 transition-transform duration-200 transform group-hover:scale-110">
                                         <XCircleIcon className="w-8 h-8" />
                                     </button>
@@ -197,9 +905,128 @@ const App: React.FC = () => {
                             )}
                         </div>
 
+                        <BrandProfileCard
+                            profiles={brandProfiles}
+                            selectedId={selectedBrandProfileId}
+                            onSelect={setSelectedBrandProfileId}
+                            onProfilesChange={refreshBrandProfiles}
+                            disabled={isLoading}
+                        />
+
+                        {/* Generation Settings */}
+                        <div className="bg-gray-800 border border-gray-700 rounded-xl p-4 shadow-lg flex flex-wrap items-center gap-4 text-sm text-gray-300">
+                            <label className="flex items-center gap-2">
+                                <input
+                                    type="checkbox"
+                                    checked={autoRetryEnabled}
+                                    onChange={(e) => setAutoRetryEnabled(e.target.checked)}
+                                    disabled={isLoading}
+                                    className="rounded bg-gray-900 border-gray-600 text-cyan-500 focus:ring-cyan-500"
+                                />
+                                Auto-correct low-scoring results
+                            </label>
+                            <label className={`flex items-center gap-2 ${autoRetryEnabled ? '' : 'opacity-50'}`}>
+                                Min score
+                                <input
+                                    type="number"
+                                    min={1}
+                                    max={10}
+                                    value={minQualityScore}
+                                    onChange={(e) => setMinQualityScore(Math.min(10, Math.max(1, Number(e.target.value) || 1)))}
+                                    disabled={!autoRetryEnabled || isLoading}
+                                    className="w-14 bg-gray-900 border border-gray-600 rounded-md p-1 text-white text-center"
+                                />
+                            </label>
+                            <label className={`flex items-center gap-2 ${autoRetryEnabled ? '' : 'opacity-50'}`}>
+                                Max attempts
+                                <input
+                                    type="number"
+                                    min={1}
+                                    max={5}
+                                    value={maxAttempts}
+                                    onChange={(e) => setMaxAttempts(Math.min(5, Math.max(1, Number(e.target.value) || 1)))}
+                                    disabled={!autoRetryEnabled || isLoading}
+                                    className="w-14 bg-gray-900 border border-gray-600 rounded-md p-1 text-white text-center"
+                                />
+                            </label>
+                            <label className="flex items-center gap-2" title="Pause before generating to approve or edit the planned instruction">
+                                <input
+                                    type="checkbox"
+                                    checked={reviewPlanEnabled}
+                                    onChange={(e) => setReviewPlanEnabled(e.target.checked)}
+                                    disabled={isLoading}
+                                    className="rounded bg-gray-900 border-gray-600 text-cyan-500 focus:ring-cyan-500"
+                                />
+                                Review plan before generating
+                            </label>
+                            <label className="flex items-center gap-2">
+                                Variants
+                                <input
+                                    type="number"
+                                    min={1}
+                                    max={4}
+                                    value={variantCount}
+                                    onChange={(e) => setVariantCount(Math.min(4, Math.max(1, Number(e.target.value) || 1)))}
+                                    disabled={isLoading}
+                                    className="w-14 bg-gray-900 border border-gray-600 rounded-md p-1 text-white text-center"
+                                />
+                            </label>
+                            <label className="flex items-center gap-2" title="Per model call; slow calls are abandoned and retried">
+                                Timeout (s)
+                                <input
+                                    type="number"
+                                    min={10}
+                                    max={600}
+                                    value={callTimeoutSeconds}
+                                    onChange={(e) => setCallTimeoutSeconds(Math.min(600, Math.max(10, Number(e.target.value) || 10)))}
+                                    disabled={isLoading}
+                                    className="w-16 bg-gray-900 border border-gray-600 rounded-md p-1 text-white text-center"
+                                />
+                            </label>
+                            <label className="flex items-center gap-2" title="Retries per model call after timeouts, rate limits or server errors">
+                                Retries
+                                <input
+                                    type="number"
+                                    min={0}
+                                    max={5}
+                                    value={callRetries}
+                                    onChange={(e) => setCallRetries(Math.min(5, Math.max(0, Number(e.target.value) || 0)))}
+                                    disabled={isLoading}
+                                    className="w-14 bg-gray-900 border border-gray-600 rounded-md p-1 text-white text-center"
+                                />
+                            </label>
+                            <label className="flex items-center gap-2" title="Stop making model calls once this job's estimated cost reaches the limit">
+                                Job budget ($)
+                                <input
+                                    type="number"
+                                    min={0}
+                                    step={0.01}
+                                    placeholder="None"
+                                    value={jobBudget ?? ''}
+                                    onChange={(e) => setJobBudget(e.target.value === '' ? null : Math.max(0, Number(e.target.value)))}
+                                    disabled={isLoading}
+                                    className="w-20 bg-gray-900 border border-gray-600 rounded-md p-1 text-white text-center"
+                                />
+                            </label>
+                            <label className="flex items-center gap-2" title="Stop making model calls once this session's estimated cost reaches the limit">
+                                Session budget ($)
+                                <input
+                                    type="number"
+                                    min={0}
+                                    step={0.01}
+                                    placeholder="None"
+                                    value={sessionBudget ?? ''}
+                                    onChange={(e) => setSessionBudget(e.target.value === '' ? null : Math.max(0, Number(e.target.value)))}
+                                    disabled={isLoading}
+                                    className="w-20 bg-gray-900 border border-gray-600 rounded-md p-1 text-white text-center"
+                                />
+                            </label>
+                        </div>
+
                         {/* Action Button */}
+                        <div className="flex gap-3">
                          <button
-                            onClick={handleGenerate}
+                            onClick={() => handleGenerate()}
                             disabled={isGenerateDisabled}
                             className={`w-full flex items-center justify-center gap-3 text-lg font-bold py-4 px-6 rounded-lg transition-all duration-300 ease-in-out transform hover:scale-105 ${
                                 isGenerateDisabled
@@ -213,7 +1040,7 @@ const App: React.FC = () => {
                                         <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                                         <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                                     </svg>
-                                    {loadingMessage}
+                                    {runningStep ? formatProgressEvent(runningStep) : 'Working...'}
                                 </>
                             ) : (
                                 <>
@@ -222,13 +1049,35 @@ const App: React.FC = () => {
                                 </>
                             )}
                         </button>
+                        {isLoading && (
+                            <button
+                                onClick={handleCancel}
+                                className="flex items-center gap-2 px-6 text-lg font-bold text-gray-200 bg-gray-600 rounded-lg hover:bg-gray-500 transition-colors"
+                            >
+                                <XCircleIcon className="w-6 h-6" />
+                                Cancel
+                            </button>
+                        )}
+                        </div>
                     </div>
 
                     {/* Right Column: Output */}
                     <div className="bg-gray-800 border border-gray-700 rounded-xl p-6 shadow-lg flex flex-col items-center justify-center min-h-[400px]">
                         <h2 className="text-2xl font-bold text-cyan-400 mb-4 self-start">Result</h2>
+                        <ProgressStepper steps={progressSteps} />
+                        {(spend.session > 0 || sessionBudget !== null) && (
+                            <CostSummary jobCost={spend.job} jobLimit={jobBudget} sessionCost={spend.session} sessionLimit={sessionBudget} />
+                        )}
                         <div className="w-full h-full flex-grow flex flex-col items-center justify-center">
-                            {isLoading && (
+                            {pendingPlan && (
+                                <PlanReviewCard
+                                    key={`${pendingPlan.proposal.attempt ?? 1}`}
+                                    proposal={pendingPlan.proposal}
+                                    onApprove={handleApprovePlan}
+                                    onCancel={handleCancel}
+                                />
+                            )}
+                            {isLoading && !pendingPlan && (
                                 <div className="w-full max-w-md mx-auto">
                                   <div className="animate-pulse flex flex-col items-center space-y-4">
                                     <div className="rounded-lg bg-gray-700 h-64 w-full"></div>
@@ -237,50 +1086,60 @@ const App: React.FC = () => {
                                   </div>
                                 </div>
                             )}
-                            {error && (
+                            {error && (failure ? (
+                                <FailureCard failure={failure.info} message={error} action={failure.action} onAction={handleFailureAction} />
+                            ) : (
                                <div className="text-center text-red-400 bg-red-900/20 border border-red-500 p-4 rounded-lg">
                                     <ExclamationTriangleIcon className="w-12 h-12 mx-auto mb-2"/>
                                     <p className="font-bold">An Error Occurred</p>
                                     <p className="text-sm">{error}</p>
                                 </div>
-                            )}
+                            ))}
                             {showImageWarning && !isLoading && (
-                                <div className="text-center text-yellow-300 bg-yellow-900/30 border border-yellow-500 p-6 rounded-lg max-w-md">
-                                    <ExclamationCircleIcon className="w-12 h-12 mx-auto mb-3 text-yellow-400"/>
-                                    <p className="font-bold text-lg mb-2">Image Quality Warning</p>
-                                    <p className="text-sm mb-6">{imageWarning}</p>
-                                    <div className="flex justify-center gap-4">
-                                        <button 
-                                            onClick={handleCancelFromWarning}
-                                            className="px-6 py-2 text-sm font-medium text-gray-200 bg-gray-600 rounded-md hover:bg-gray-500 transition-colors">
-                                            Cancel
-                                        </button>
-                                        <button 
-                                            onClick={handleContinueAnyway}
-                                            className="px-6 py-2 text-sm font-medium text-white bg-yellow-600 rounded-md hover:bg-yellow-700 transition-colors flex items-center gap-2">
-                                            Continue Anyway
-                                        </button>
-                                    </div>
-                                </div>
+                                <ReferenceWarningCard
+                                    checks={referenceChecks}
+                                    onCancel={handleCancelFromWarning}
+                                    onContinueAnyway={handleContinueAnyway}
+                                    onContinueWithSuitable={handleContinueWithSuitable}
+                                />
                             )}
                             {!isLoading && !error && !showImageWarning && resultImage && (
                                 <div className="w-full">
                                     <img src={resultImage} alt="Generated result" className="w-full h-auto object-contain rounded-lg border-2 border-cyan-500"/>
+                                    {jobAttempts.length > 1 && (
+                                        <AttemptTree
+                                            attempts={jobAttempts}
+                                            selectedAttemptId={selectedAttemptId}
+                                            approved={currentJobRef.current?.approved ?? null}
+                                            onSelect={attempt => showAttempt(attempt)}
+                                        />
+                                    )}
+                                    {candidates.length > 1 && (
+                                        <CandidateGallery candidates={candidates} selectedVariant={selectedVariant} onSelect={selectCandidate} />
+                                    )}
                                     {resultText && <p className="mt-4 text-gray-300 italic p-3 bg-gray-900/50 rounded-md">{resultText}</p>}
                                     
-                                    {qualityCheck && (
-                                        <div className="mt-4 p-4 bg-gray-700/50 rounded-lg border border-gray-600">
-                                            <h3 className="flex items-center gap-2 font-semibold text-cyan-400 mb-2">
-                                                <InformationCircleIcon className="w-6 h-6" />
-                                                AI Quality Check
-                                            </h3>
-                                            <p className="text-sm text-gray-300">{qualityCheck}</p>
-                                        </div>
-                                    )}
+                                    <QualityCheckCard qualityCheck={qualityCheck} attempts={attempts} productChecks={productChecks} />
+                                    {drift && <DriftCard drift={drift} />}
+                                    {compliance && <ComplianceCard compliance={compliance} brandName={currentJobRef.current?.brandProfile?.name} />}
                                     
-                                    {showRejectionForm ? (
+                                    {isExportOpen && currentJobRef.current ? (
+                                        <ExportPanel
+                                            key={currentJobRef.current.id}
+                                            image={resultImage}
+                                            metadata={exportMetadata(currentJobRef.current)}
+                                            focusMasks={productsOf(currentJobRef.current).flatMap(product => product.mask ? [product.mask] : [])}
+                                            firstLogStep={(logs[logs.length - 1]?.step ?? 0) + 1}
+                                            startRun={startRun}
+                                            onLogs={handleExportLogs}
+                                            onDone={handleFinishExport}
+                                        />
+                                    ) : showRejectionForm ? (
                                         <div className="mt-4 p-4 bg-gray-700/50 rounded-lg w-full">
                                             <label htmlFor="feedback" className="block text-sm font-medium text-gray-300 mb-2">Why are you rejecting this image? (Optional but helpful)</label>
+                                            {jobAttempts.length > 1 && (
+                                                <p className="text-xs text-gray-400 mb-2">The retry will branch from v{jobAttempts.findIndex(attempt => attempt.id === selectedAttemptId) + 1}.</p>
+                                            )}
                                             <textarea
                                                 id="feedback"
                                                 rows={3}
@@ -326,8 +1185,10 @@ const App: React.FC = () => {
                         </div>
                     </div>
                 </div>
+                )}
             </main>
             <LogPanel logs={logs} isOpen={isLogPanelOpen} onClose={() => setIsLogPanelOpen(false)} />
+            <HistoryPanel isOpen={isHistoryOpen} onClose={() => setIsHistoryOpen(false)} onOpenJob={handleOpenJob} onRerunJob={handleRerunJob} onJobDeleted={handleJobDeleted} />
         </div>
     );
 };
@@ -0,0 +1,7 @@
+#!/usr/bin/env node
+// Runs the TypeScript CLI through tsx, so it shares the app's service code as-is.
+import { register } from 'tsx/esm/api';
+
+register();
+const { main } = await import('./productReplacer.ts');
+process.exitCode = await main(process.argv.slice(2));
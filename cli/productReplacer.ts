@@ -0,0 +1,275 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import { extname } from 'node:path';
+import { parseArgs } from 'node:util';
+import { config as loadEnv } from 'dotenv';
+import { ImageSource, LogEntry, ProgressEvent, ReferenceAnalysis, ReplacementResult } from '../types';
+import { analyzeReferenceImages, replaceProductInImage } from '../services/geminiService';
+import { setModelProvider } from '../services/modelProvider';
+import { renderLogReport, serializeLogBundle } from '../services/logExport';
+import { DEFAULT_CALL_POLICY } from '../services/modelCall';
+import { formatProgressEvent } from '../services/progress';
+import { BudgetExceededError, GenerationError } from '../services/errors';
+import { FAILURE_GUIDANCE, nextAction, NEXT_ACTION_LABELS } from '../services/failures';
+import { createCostLedger, formatUsage, parsePriceTable, setPriceTable, sumUsage } from '../services/costs';
+import { formatQualityCheck, MAX_SCORE, MIN_SCORE, QUALITY_CRITERIA } from '../services/qualityCheck';
+import { describeUnsuitableImages } from '../services/referenceAnalysis';
+import { createServerProvider, isServerProviderName } from '../services/providers/serverProvider';
+import {
+  createFixture, createReplayProvider, parseFixture, RecordedCall, serializeFixture, withRecording,
+} from '../services/providers/replayProvider';
+
+// Exit codes, so shell and CI jobs can tell failures apart.
+export const EXIT_OK = 0;
+export const EXIT_FAILURE = 1;
+export const EXIT_USAGE = 2;
+export const EXIT_REFERENCES_REJECTED = 3;
+export const EXIT_BUDGET_EXCEEDED = 4;
+export const EXIT_BLOCKED = 5;
+
+const USAGE = `
+Usage: product-replacer run --product <file> [--product <file> ...] --marketing <file> --out <file> [options]
+
+Replaces the product in a marketing image with the product from the reference images.
+
+Options:
+  --product <file>    Product reference image (repeat for 1 to 5 images)
+  --marketing <file>  Marketing image to edit
+  --out <file>        Where to write the generated PNG
+  --logs <file>       Where to write the process log as JSON (default: <out>.logs.json)
+  --report <file>     Also write the process log as a standalone HTML report
+  --qa <file>         Where to write the quality-check text (default: <out>.qa.txt)
+  --feedback <text>   Feedback from a previous attempt to correct
+  --max-attempts <n>  Regenerate up to n times while quality scores are below --min-score
+  --min-score <n>     Minimum quality score (1-10) for every criterion (default: 7)
+  --variants <n>      Generate n candidates in parallel and keep the best-ranked one (default: 1)
+  --timeout <s>       Abandon a model call after this many seconds (default: 120)
+  --retries <n>       Retry failed or timed-out model calls up to n times (default: 2)
+  --budget <usd>      Stop making model calls once the estimated cost reaches this amount
+  --prices <file>     JSON price table overriding the built-in prices, keyed by model name:
+                      { "<model>": { "inputPerMillion": 0.3, "outputPerMillion": 2.5 } }
+  --provider <name>   Model provider: "gemini" (default) or "mock"
+  --record <file>     Record every model call and response to a fixture file
+  --replay <file>     Serve model responses from a recorded fixture instead of a provider
+  --force             Continue even if the reference images are rejected
+  -h, --help          Show this help
+
+Exit codes:
+  0  success
+  1  the pipeline failed
+  2  invalid arguments
+  3  the reference images were rejected
+  4  the --budget was used up before the run finished
+  5  the model's safety filters blocked the request
+`;
+
+const MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+};
+
+const readImage = async (path: string): Promise<ImageSource> => {
+  const mimeType = MIME_TYPES[extname(path).toLowerCase()];
+  if (!mimeType) {
+    throw new Error(`Unsupported image type for "${path}". Use PNG, JPG, GIF or WebP.`);
+  }
+  const data = await readFile(path);
+  return { base64: `data:${mimeType};base64,${data.toString('base64')}` };
+};
+
+// Writes the logs of a run that failed for a known reason and says what to do about it.
+const reportFailure = async (
+  paths: { logs: string; report?: string },
+  error: GenerationError,
+  earlierLogs: LogEntry[],
+  isRevision: boolean
+): Promise<number> => {
+  await writeLogs(paths, [...earlierLogs, ...error.logs]);
+  console.error(error.message);
+  const action = NEXT_ACTION_LABELS[nextAction(error.failure, isRevision)].toLowerCase();
+  console.error(`${FAILURE_GUIDANCE[error.failure.category].advice} Next: ${action}.`);
+  return error.failure.category === 'blocked' ? EXIT_BLOCKED : EXIT_FAILURE;
+};
+
+const writeLogs = async (paths: { logs: string; report?: string }, logs: LogEntry[]) => {
+  await writeFile(paths.logs, serializeLogBundle(logs));
+  if (paths.report) {
+    await writeFile(paths.report, renderLogReport(logs));
+  }
+};
+
+const run = async (args: string[]): Promise<number> => {
+  const { values } = parseArgs({
+    args,
+    options: {
+      product: { type: 'string', multiple: true },
+      marketing: { type: 'string' },
+      out: { type: 'string' },
+      logs: { type: 'string' },
+      report: { type: 'string' },
+      qa: { type: 'string' },
+      feedback: { type: 'string' },
+      'max-attempts': { type: 'string' },
+      'min-score': { type: 'string', default: '7' },
+      variants: { type: 'string', default: '1' },
+      timeout: { type: 'string' },
+      retries: { type: 'string' },
+      budget: { type: 'string' },
+      prices: { type: 'string' },
+      provider: { type: 'string' },
+      record: { type: 'string' },
+      replay: { type: 'string' },
+      force: { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE.trim());
+    return EXIT_OK;
+  }
+  const productPaths = values.product ?? [];
+  if (productPaths.length === 0 || productPaths.length > 5 || !values.marketing || !values.out) {
+    console.error('Expected 1 to 5 --product images, one --marketing image and an --out path.');
+    console.error(USAGE.trim());
+    return EXIT_USAGE;
+  }
+  const providerName = values.provider ?? 'gemini';
+  if (!isServerProviderName(providerName)) {
+    console.error(`Unknown provider "${providerName}". Use "gemini" or "mock".`);
+    return EXIT_USAGE;
+  }
+  if (values.record && values.replay) {
+    console.error('--record and --replay cannot be combined.');
+    return EXIT_USAGE;
+  }
+  if (values.replay) {
+    setModelProvider(createReplayProvider(parseFixture(await readFile(values.replay, 'utf8'))));
+  } else if (values.record) {
+    // Rewritten after every call, so the fixture survives a failure later in the run.
+    const fixturePath = values.record;
+    const calls: RecordedCall[] = [];
+    setModelProvider(withRecording(createServerProvider(providerName), call => {
+      calls.push(call);
+      return writeFile(fixturePath, serializeFixture(createFixture(providerName, calls)));
+    }));
+  } else {
+    setModelProvider(createServerProvider(providerName));
+  }
+
+  const maxAttempts = Number(values['max-attempts'] ?? 1);
+  const minScore = Number(values['min-score']);
+  const variants = Number(values.variants);
+  if (!Number.isInteger(maxAttempts) || maxAttempts < 1 || !Number.isInteger(variants) || variants < 1) {
+    console.error('--max-attempts and --variants must be positive integers.');
+    return EXIT_USAGE;
+  }
+  const timeoutSeconds = Number(values.timeout ?? DEFAULT_CALL_POLICY.timeoutMs / 1000);
+  const maxRetries = Number(values.retries ?? DEFAULT_CALL_POLICY.maxRetries);
+  if (!(timeoutSeconds > 0) || !Number.isInteger(maxRetries) || maxRetries < 0) {
+    console.error('--timeout must be a positive number and --retries a non-negative integer.');
+    return EXIT_USAGE;
+  }
+  const budget = values.budget === undefined ? null : Number(values.budget);
+  if (budget !== null && !(budget >= 0)) {
+    console.error('--budget must be a non-negative amount in USD.');
+    return EXIT_USAGE;
+  }
+  if (values.prices) {
+    setPriceTable(parsePriceTable(await readFile(values.prices, 'utf8')));
+  }
+  const callOptions = {
+    callPolicy: { timeoutMs: timeoutSeconds * 1000, maxRetries },
+    ledgers: [createCostLedger('job', budget)],
+  };
+  if (!(minScore >= MIN_SCORE && minScore <= MAX_SCORE)) {
+    console.error(`--min-score must be between ${MIN_SCORE} and ${MAX_SCORE}.`);
+    return EXIT_USAGE;
+  }
+  const autoRetry = maxAttempts > 1
+    ? { thresholds: Object.fromEntries(Object.keys(QUALITY_CRITERIA).map(criterion => [criterion, minScore])), maxAttempts }
+    : undefined;
+
+  const outPath = values.out;
+  const logPaths = { logs: values.logs ?? `${outPath}.logs.json`, report: values.report };
+  const qaPath = values.qa ?? `${outPath}.qa.txt`;
+
+  const productImages = await Promise.all(productPaths.map(readImage));
+  const marketingImage = await readImage(values.marketing);
+
+  const onProgress = (event: ProgressEvent) => {
+    if (event.status === 'running') {
+      console.error(formatProgressEvent(event));
+    }
+  };
+  let analysis: ReferenceAnalysis & { log: LogEntry };
+  try {
+    analysis = await analyzeReferenceImages(productImages, { ...callOptions, onProgress });
+  } catch (error) {
+    if (error instanceof GenerationError) {
+      return reportFailure(logPaths, error, [], false);
+    }
+    if (!(error instanceof BudgetExceededError)) throw error;
+    await writeLogs(logPaths, error.logs);
+    console.error(error.message);
+    return EXIT_BUDGET_EXCEEDED;
+  }
+  // Written now so the log survives a failure later in the pipeline.
+  await writeLogs(logPaths, [analysis.log]);
+  if (!analysis.areImagesSuitable && !values.force) {
+    console.error(`Reference images rejected: ${analysis.reasoning}`);
+    describeUnsuitableImages(analysis).forEach(line => console.error(`  ${line}`));
+    console.error('Fix the images, or pass --force to continue anyway.');
+    return EXIT_REFERENCES_REJECTED;
+  }
+
+  let result: ReplacementResult;
+  try {
+    result = await replaceProductInImage(productImages, marketingImage, values.feedback, onProgress, { autoRetry, variants, ...callOptions });
+  } catch (error) {
+    if (error instanceof GenerationError) {
+      return reportFailure(logPaths, error, [analysis.log], Boolean(values.feedback));
+    }
+    if (!(error instanceof BudgetExceededError)) throw error;
+    await writeLogs(logPaths, [analysis.log, ...error.logs]);
+    console.error(error.message);
+    return EXIT_BUDGET_EXCEEDED;
+  }
+  const logs = [analysis.log, ...result.logs];
+  await writeLogs(logPaths, logs);
+  console.error(`Usage: ${formatUsage(sumUsage(logs))}`);
+  if (!result.image) {
+    console.error('The AI model did not return an image.');
+    return EXIT_FAILURE;
+  }
+
+  await writeFile(outPath, Buffer.from(result.image, 'base64'));
+  await writeFile(qaPath, result.qualityCheck
+    ? formatQualityCheck(result.qualityCheck)
+    : 'The AI quality check could not be completed due to an error.');
+  console.log(outPath);
+  return EXIT_OK;
+};
+
+export const main = async (argv: string[]): Promise<number> => {
+  loadEnv({ path: ['.env.local', '.env'] });
+  const [command, ...rest] = argv;
+  if (!command || command === '-h' || command === '--help') {
+    console.log(USAGE.trim());
+    return command ? EXIT_OK : EXIT_USAGE;
+  }
+  if (command !== 'run') {
+    console.error(`Unknown command "${command}".`);
+    console.error(USAGE.trim());
+    return EXIT_USAGE;
+  }
+  try {
+    return await run(rest);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    const isUsageError = error instanceof Error && String((error as NodeJS.ErrnoException).code).startsWith('ERR_PARSE_ARGS');
+    return isUsageError ? EXIT_USAGE : EXIT_FAILURE;
+  }
+};
@@ -0,0 +1,81 @@
+import React from 'react';
+import type { ImageFile, JobProduct } from '../types';
+import { ImageUploader } from './ImageUploader';
+import { ProductImageGrid } from './ProductImageGrid';
+import { XCircleIcon } from './IconComponents';
+
+interface AdditionalProductCardProps {
+    product: JobProduct;
+    maxImages: number;
+    onChange: (patch: Partial<JobProduct>) => void;
+    onRemove: () => void;
+    disabled?: boolean;
+}
+
+// A further product to replace in the same marketing image, with its own references.
+export const AdditionalProductCard: React.FC<AdditionalProductCardProps> = ({ product, maxImages, onChange, onRemove, disabled = false }) => {
+    const { images, primaryIndex } = product;
+
+    const addImages = (files: ImageFile[]) => {
+        onChange({ images: [...images, ...files.slice(0, Math.max(0, maxImages - images.length))] });
+    };
+
+    // The primary reference follows its image when the others are moved or removed.
+    const moveImage = (from: number, to: number) => {
+        const next = [...images];
+        const [moved] = next.splice(from, 1);
+        next.splice(to, 0, moved);
+        onChange({ images: next, primaryIndex: Math.max(0, next.indexOf(images[primaryIndex])) });
+    };
+
+    const removeImage = (index: number) => {
+        const next = images.filter((_, i) => i !== index);
+        onChange({ images: next, primaryIndex: Math.max(0, next.indexOf(images[primaryIndex])) });
+    };
+
+    return (
+        <div className="relative group bg-gray-800 border border-gray-700 rounded-xl p-6 shadow-lg">
+            <button
+                onClick={onRemove}
+                disabled={disabled}
+                title="Remove this product"
+                className="absolute -top-2 -right-2 bg-gray-800 rounded-full text-red-500 hover:text-red-400 transition-transform duration-200 transform group-hover:scale-110"
+            >
+                <XCircleIcon className="w-8 h-8" />
+            </button>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-4 text-sm">
+                <label className="flex flex-col gap-1 text-gray-400">
+                    Product name
+                    <input
+                        type="text"
+                        value={product.name}
+                        onChange={(e) => onChange({ name: e.target.value })}
+                        disabled={disabled}
+                        className="bg-gray-900 border border-gray-600 rounded-md p-2 text-white"
+                    />
+                </label>
+                <label className="flex flex-col gap-1 text-gray-400">
+                    Replaces
+                    <input
+                        type="text"
+                        value={product.target}
+                        onChange={(e) => onChange({ target: e.target.value })}
+                        disabled={disabled}
+                        placeholder="e.g. the bottle on the right"
+                        className="bg-gray-900 border border-gray-600 rounded-md p-2 text-white"
+                    />
+                </label>
+            </div>
+            <ImageUploader onFilesSelect={addImages} multiple={true} disabled={disabled || images.length >= maxImages} />
+            {images.length > 0 && (
+                <ProductImageGrid
+                    images={images}
+                    primaryIndex={primaryIndex}
+                    onMove={moveImage}
+                    onSetPrimary={index => onChange({ primaryIndex: index })}
+                    onRemove={removeImage}
+                />
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,69 @@
+import React from 'react';
+import type { ApprovedAttempt, JobAttempt } from '../types';
+import { averageScore, MAX_SCORE } from '../services/qualityCheck';
+
+interface AttemptTreeProps {
+    attempts: JobAttempt[];
+    selectedAttemptId: string | null;
+    approved: ApprovedAttempt | null;
+    onSelect: (attempt: JobAttempt) => void;
+    disabled?: boolean;
+}
+
+// Shows every version of a job as a tree: retries are nested under the attempt they branched from.
+export const AttemptTree: React.FC<AttemptTreeProps> = ({ attempts, selectedAttemptId, approved, onSelect, disabled = false }) => {
+    const versionOf = new Map(attempts.map((attempt, index) => [attempt.id, index + 1]));
+    const childrenOf = (parentId: string | null) => attempts.filter(attempt => attempt.parentId === parentId);
+    const selected = attempts.find(attempt => attempt.id === selectedAttemptId);
+
+    const renderNode = (attempt: JobAttempt, depth: number): React.ReactNode => {
+        const { result } = attempt;
+        const isSelected = attempt.id === selectedAttemptId;
+        return (
+            <React.Fragment key={attempt.id}>
+                <div style={{ paddingLeft: `${depth * 1.25}rem` }}>
+                    <button
+                        onClick={() => onSelect(attempt)}
+                        disabled={disabled}
+                        className={`w-full flex items-center gap-3 text-left p-2 rounded-md border transition-colors ${
+                            isSelected ? 'border-cyan-400 bg-gray-900/70' : 'border-gray-700 hover:border-gray-500'
+                        }`}
+                    >
+                        {result.image && (
+                            <img src={`data:image/png;base64,${result.image}`} alt={`Version ${versionOf.get(attempt.id)}`} className="w-12 h-12 object-cover rounded flex-shrink-0"/>
+                        )}
+                        <div className="min-w-0 flex-grow text-xs">
+                            <div className="flex items-center gap-2">
+                                <span className="font-bold text-white">v{versionOf.get(attempt.id)}</span>
+                                <span className="text-gray-400">
+                                    QA {result.qualityCheck ? `${averageScore(result.qualityCheck).toFixed(1)}/${MAX_SCORE}` : 'n/a'}
+                                </span>
+                                {approved?.attemptId === attempt.id && (
+                                    <span className="px-2 py-0.5 rounded-full bg-green-900/60 text-green-300">Approved</span>
+                                )}
+                            </div>
+                            <p className="mt-1 text-gray-400 truncate">
+                                {attempt.feedback ? `Feedback: ${attempt.feedback}` : 'Initial generation'}
+                            </p>
+                        </div>
+                    </button>
+                </div>
+                {childrenOf(attempt.id).map(child => renderNode(child, depth + 1))}
+            </React.Fragment>
+        );
+    };
+
+    return (
+        <div className="mt-4">
+            <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider mb-2">Versions</h3>
+            <div className="space-y-2">
+                {childrenOf(null).map(root => renderNode(root, 0))}
+            </div>
+            {selected && (
+                <p className="mt-2 text-xs text-gray-400">
+                    <span className="font-semibold text-gray-300">Critical instruction of v{versionOf.get(selected.id)}:</span> {selected.result.instruction}
+                </p>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,336 @@
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import type { BatchItem, BatchItemStatus, ImageFile, LogEntry } from '../types';
+import { ImageUploader } from './ImageUploader';
+import { LogPanel } from './LogPanel';
+import { QualityCheckCard } from './QualityCheckCard';
+import { analyzeReferenceImages, PreviousAttempt, replaceProductInImage } from '../services/geminiService';
+import { formatProgressEvent } from '../services/progress';
+import { describeUnsuitableImages } from '../services/referenceAnalysis';
+import { CostLedger } from '../services/costs';
+import { BudgetExceededError, GenerationError } from '../services/errors';
+import { nextAction, NEXT_ACTION_LABELS } from '../services/failures';
+import { createTaskQueue } from '../services/taskQueue';
+import { XCircleIcon, SparklesIcon, HandThumbUpIcon, HandThumbDownIcon, DocumentTextIcon, ExclamationCircleIcon, ExclamationTriangleIcon } from './IconComponents';
+
+const MAX_BATCH_ITEMS = 50;
+const NO_LOGS: LogEntry[] = [];
+
+const STATUS_STYLES: Record<BatchItemStatus, string> = {
+    pending: 'bg-gray-700 text-gray-300',
+    queued: 'bg-gray-600 text-gray-200',
+    running: 'bg-blue-900/60 text-blue-300',
+    succeeded: 'bg-cyan-900/60 text-cyan-300',
+    failed: 'bg-red-900/60 text-red-300',
+    approved: 'bg-green-900/60 text-green-300',
+    rejected: 'bg-yellow-900/60 text-yellow-300',
+};
+
+let nextItemId = 0;
+
+const createBatchItem = (marketingImage: ImageFile): BatchItem => ({
+    id: `batch-item-${nextItemId++}`,
+    marketingImage,
+    status: 'pending',
+    progressMessage: '',
+    resultImage: null,
+    resultText: null,
+    instruction: null,
+    qualityCheck: null,
+    logs: [],
+    error: null,
+});
+
+interface BatchItemCardProps {
+    item: BatchItem;
+    onApprove: () => void;
+    onReject: () => void;
+    onRetry: (feedback?: string) => void;
+    onRemove: () => void;
+    onShowLogs: () => void;
+}
+
+const BatchItemCard: React.FC<BatchItemCardProps> = ({ item, onApprove, onReject, onRetry, onRemove, onShowLogs }) => {
+    const [showRejectionForm, setShowRejectionForm] = useState(false);
+    const [feedback, setFeedback] = useState('');
+    const isBusy = item.status === 'queued' || item.status === 'running';
+
+    const submitRejection = (retry: boolean) => {
+        setShowRejectionForm(false);
+        if (retry && feedback.trim()) {
+            onRetry(feedback);
+        } else {
+            onReject();
+        }
+        setFeedback('');
+    };
+
+    return (
+        <div className="bg-gray-900/50 border border-gray-700 rounded-lg p-3 flex flex-col gap-2">
+            <div className="relative group">
+                <img
+                    src={item.resultImage ?? item.marketingImage.base64}
+                    alt={item.resultImage ? 'Generated result' : 'Marketing creative'}
+                    className={`w-full h-40 object-contain rounded-md bg-gray-800 ${item.resultImage ? '' : 'opacity-60'} ${isBusy ? 'animate-pulse' : ''}`}
+                />
+                {!isBusy && (
+                    <button onClick={onRemove} title="Remove from batch" className="absolute -top-2 -right-2 bg-gray-800 rounded-full text-red-500 hover:text-red-400 transition-transform duration-200 transform group-hover:scale-110">
+                        <XCircleIcon className="w-6 h-6" />
+                    </button>
+                )}
+            </div>
+            <div className="flex items-center justify-between">
+                <span className={`text-xs px-2 py-1 rounded-full capitalize ${STATUS_STYLES[item.status]}`}>{item.status}</span>
+                {item.logs.length > 0 && (
+                    <button onClick={onShowLogs} title="View Process Log" className="p-1 text-cyan-400 hover:text-white transition-colors">
+                        <DocumentTextIcon className="w-5 h-5" />
+                    </button>
+                )}
+            </div>
+            {isBusy && item.progressMessage && <p className="text-xs text-gray-400">{item.progressMessage}</p>}
+            {item.error && <p className="text-xs text-red-400">{item.error}</p>}
+            {item.resultImage && <QualityCheckCard qualityCheck={item.qualityCheck} compact />}
+
+            {showRejectionForm ? (
+                <div className="flex flex-col gap-2">
+                    <textarea
+                        rows={2}
+                        value={feedback}
+                        onChange={(e) => setFeedback(e.target.value)}
+                        className="w-full bg-gray-800 border-gray-600 rounded-md p-2 text-xs text-white focus:ring-cyan-500 focus:border-cyan-500"
+                        placeholder="What's wrong with this result?"
+                    />
+                    <div className="flex justify-end gap-2">
+                        <button onClick={() => setShowRejectionForm(false)} className="px-2 py-1 text-xs font-medium text-gray-300 bg-gray-600 rounded-md hover:bg-gray-500">Cancel</button>
+                        <button onClick={() => submitRejection(false)} className="px-2 py-1 text-xs font-medium text-white bg-red-600 rounded-md hover:bg-red-700">Reject</button>
+                        <button onClick={() => submitRejection(true)} disabled={!feedback.trim()} className="px-2 py-1 text-xs font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:bg-gray-600 disabled:text-gray-400">Retry with Feedback</button>
+                    </div>
+                </div>
+            ) : (
+                <div className="flex justify-end gap-2">
+                    {item.status === 'succeeded' && (
+                        <>
+                            <button onClick={onApprove} title="Approve" className="p-2 bg-green-600 hover:bg-green-700 text-white rounded-md">
+                                <HandThumbUpIcon className="w-4 h-4" />
+                            </button>
+                            <button onClick={() => setShowRejectionForm(true)} title="Reject" className="p-2 bg-red-600 hover:bg-red-700 text-white rounded-md">
+                                <HandThumbDownIcon className="w-4 h-4" />
+                            </button>
+                        </>
+                    )}
+                    {(item.status === 'failed' || item.status === 'rejected' || item.status === 'approved') && (
+                        <button onClick={() => onRetry()} className="px-3 py-1 text-xs font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 flex items-center gap-1">
+                            <SparklesIcon className="w-4 h-4" />
+                            Retry
+                        </button>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+interface BatchWorkspaceProps {
+    productImages: ImageFile[];
+    primaryProductIndex: number;
+    // Batch runs count towards the session budget shared with the single-image workspace.
+    sessionLedger: CostLedger;
+    onSpend: () => void;
+}
+
+export const BatchWorkspace: React.FC<BatchWorkspaceProps> = ({ productImages, primaryProductIndex, sessionLedger, onSpend }) => {
+    const [items, setItems] = useState<BatchItem[]>([]);
+    const [concurrency, setConcurrency] = useState<number>(2);
+    const [isCheckingReferences, setIsCheckingReferences] = useState<boolean>(false);
+    const [referenceLog, setReferenceLog] = useState<LogEntry | null>(null);
+    const [referenceWarning, setReferenceWarning] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [logItemId, setLogItemId] = useState<string | null>(null);
+    const queueRef = useRef(createTaskQueue(concurrency));
+
+    useEffect(() => {
+        queueRef.current.setConcurrency(concurrency);
+    }, [concurrency]);
+
+    const updateItem = useCallback((id: string, patch: Partial<BatchItem>) => {
+        setItems(prev => prev.map(item => item.id === id ? { ...item, ...patch } : item));
+    }, []);
+
+    const runItem = useCallback((item: BatchItem, baseLogs: LogEntry[], feedback?: string, previousAttempt?: PreviousAttempt) => {
+        updateItem(item.id, {
+            status: 'queued',
+            progressMessage: 'Waiting in queue...',
+            resultImage: null,
+            resultText: null,
+            instruction: null,
+            qualityCheck: null,
+            logs: baseLogs,
+            error: null,
+        });
+        void queueRef.current.add(async () => {
+            updateItem(item.id, { status: 'running' });
+            try {
+                const result = await replaceProductInImage(
+                    productImages,
+                    item.marketingImage,
+                    feedback,
+                    (event) => {
+                        if (event.status === 'running') {
+                            updateItem(item.id, { progressMessage: formatProgressEvent(event) });
+                        }
+                    },
+                    { primaryProductIndex, previousAttempt, ledgers: [sessionLedger] }
+                );
+                updateItem(item.id, {
+                    status: 'succeeded',
+                    progressMessage: '',
+                    resultImage: result.image ? `data:image/png;base64,${result.image}` : null,
+                    resultText: result.text,
+                    instruction: result.instruction,
+                    qualityCheck: result.qualityCheck,
+                    logs: [...baseLogs, ...result.logs],
+                });
+            } catch (err) {
+                updateItem(item.id, {
+                    status: 'failed',
+                    progressMessage: '',
+                    error: err instanceof GenerationError
+                        ? `${err.message} Next: ${NEXT_ACTION_LABELS[nextAction(err.failure, Boolean(feedback))].toLowerCase()}.`
+                        : err instanceof Error ? err.message : "An unknown error occurred.",
+                    ...(err instanceof BudgetExceededError || err instanceof GenerationError ? { logs: [...baseLogs, ...err.logs] } : {}),
+                });
+            } finally {
+                onSpend();
+            }
+        });
+    }, [productImages, primaryProductIndex, sessionLedger, onSpend, updateItem]);
+
+    const handleMarketingFilesSelect = useCallback((files: ImageFile[]) => {
+        setItems(prev => [...prev, ...files.map(createBatchItem)].slice(0, MAX_BATCH_ITEMS));
+    }, []);
+
+    const startPendingItems = (analysisLog: LogEntry) => {
+        items.filter(item => item.status === 'pending').forEach(item => runItem(item, [analysisLog]));
+    };
+
+    const handleStart = async () => {
+        if (productImages.length === 0) {
+            setError("Please upload at least one product image first.");
+            return;
+        }
+        setError(null);
+        setReferenceWarning(null);
+        setIsCheckingReferences(true);
+        try {
+            const analysis = await analyzeReferenceImages(productImages, { ledgers: [sessionLedger] });
+            setReferenceLog(analysis.log);
+            if (analysis.areImagesSuitable) {
+                startPendingItems(analysis.log);
+            } else {
+                setReferenceWarning([analysis.reasoning, ...describeUnsuitableImages(analysis, 'Product image')].join(' '));
+            }
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "An unknown error occurred during image quality analysis.");
+        } finally {
+            setIsCheckingReferences(false);
+            onSpend();
+        }
+    };
+
+    const handleContinueAnyway = () => {
+        setReferenceWarning(null);
+        if (referenceLog) {
+            startPendingItems(referenceLog);
+        }
+    };
+
+    const handleRetry = (item: BatchItem, feedback?: string) => {
+        // A feedback retry builds on the item's history and revises its last result; a plain
+        // retry starts over.
+        const baseLogs = feedback ? item.logs : (referenceLog ? [referenceLog] : []);
+        const previousAttempt: PreviousAttempt | undefined = feedback && item.instruction !== null
+            ? { instruction: item.instruction, image: item.resultImage ? { base64: item.resultImage } : null }
+            : undefined;
+        runItem(item, baseLogs, feedback, previousAttempt);
+    };
+
+    const removeItem = (id: string) => {
+        setItems(prev => prev.filter(item => item.id !== id));
+    };
+
+    const pendingCount = items.filter(item => item.status === 'pending').length;
+    const finishedCount = items.filter(item => ['succeeded', 'failed', 'approved', 'rejected'].includes(item.status)).length;
+    const isStartDisabled = pendingCount === 0 || productImages.length === 0 || isCheckingReferences;
+    const logItem = items.find(item => item.id === logItemId);
+
+    return (
+        <div className="bg-gray-800 border border-gray-700 rounded-xl p-6 shadow-lg">
+            <h2 className="text-xl font-bold text-cyan-400 mb-1">Step 2: Upload Marketing Images</h2>
+            <p className="text-sm text-gray-400 mb-4">Add up to {MAX_BATCH_ITEMS} ad creatives. Each one is processed with the same product images.</p>
+            <ImageUploader onFilesSelect={handleMarketingFilesSelect} multiple={true} disabled={items.length >= MAX_BATCH_ITEMS} />
+
+            <div className="mt-4 flex flex-wrap items-center justify-between gap-4">
+                <label className="flex items-center gap-2 text-sm text-gray-300">
+                    Parallel jobs
+                    <input
+                        type="number"
+                        min={1}
+                        max={5}
+                        value={concurrency}
+                        onChange={(e) => setConcurrency(Math.min(5, Math.max(1, Number(e.target.value) || 1)))}
+                        className="w-16 bg-gray-900 border border-gray-600 rounded-md p-1 text-white text-center"
+                    />
+                </label>
+                <span className="text-sm text-gray-400">{finishedCount}/{items.length} finished</span>
+                <button
+                    onClick={handleStart}
+                    disabled={isStartDisabled}
+                    className={`flex items-center gap-2 font-bold py-2 px-4 rounded-lg transition-colors ${
+                        isStartDisabled
+                            ? 'bg-gray-600 text-gray-400 cursor-not-allowed'
+                            : 'bg-gradient-to-r from-cyan-500 to-blue-600 text-white'
+                    }`}
+                >
+                    <SparklesIcon className="w-5 h-5" />
+                    {isCheckingReferences ? 'Checking reference images...' : `Process ${pendingCount} Image${pendingCount === 1 ? '' : 's'}`}
+                </button>
+            </div>
+
+            {error && (
+                <div className="mt-4 flex items-center gap-2 text-red-400 bg-red-900/20 border border-red-500 p-3 rounded-lg text-sm">
+                    <ExclamationTriangleIcon className="w-6 h-6 flex-shrink-0" />
+                    {error}
+                </div>
+            )}
+            {referenceWarning && (
+                <div className="mt-4 text-yellow-300 bg-yellow-900/30 border border-yellow-500 p-4 rounded-lg">
+                    <p className="flex items-center gap-2 font-bold mb-1">
+                        <ExclamationCircleIcon className="w-6 h-6 text-yellow-400" />
+                        Image Quality Warning
+                    </p>
+                    <p className="text-sm mb-3">{referenceWarning}</p>
+                    <div className="flex justify-end gap-3">
+                        <button onClick={() => setReferenceWarning(null)} className="px-4 py-1 text-sm font-medium text-gray-200 bg-gray-600 rounded-md hover:bg-gray-500">Cancel</button>
+                        <button onClick={handleContinueAnyway} className="px-4 py-1 text-sm font-medium text-white bg-yellow-600 rounded-md hover:bg-yellow-700">Continue Anyway</button>
+                    </div>
+                </div>
+            )}
+
+            {items.length > 0 && (
+                <div className="mt-6 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+                    {items.map(item => (
+                        <BatchItemCard
+                            key={item.id}
+                            item={item}
+                            onApprove={() => updateItem(item.id, { status: 'approved' })}
+                            onReject={() => updateItem(item.id, { status: 'rejected' })}
+                            onRetry={(feedback) => handleRetry(item, feedback)}
+                            onRemove={() => removeItem(item.id)}
+                            onShowLogs={() => setLogItemId(item.id)}
+                        />
+                    ))}
+                </div>
+            )}
+            <LogPanel logs={logItem?.logs ?? NO_LOGS} isOpen={!!logItem} onClose={() => setLogItemId(null)} />
+        </div>
+    );
+};
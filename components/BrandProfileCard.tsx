@@ -0,0 +1,236 @@
+import React, { useState } from 'react';
+import type { BrandProfile, ImageFile } from '../types';
+import { ImageUploader } from './ImageUploader';
+import { XCircleIcon } from './IconComponents';
+import { createBrandProfileId, deleteBrandProfile, saveBrandProfile } from '../services/brandProfiles';
+import { normalizeHexColor } from '../services/brandCompliance';
+
+interface BrandProfileCardProps {
+    profiles: BrandProfile[];
+    selectedId: string | null;
+    onSelect: (id: string | null) => void;
+    onProfilesChange: () => void;
+    disabled?: boolean;
+}
+
+// The form keeps lists as text, one entry per line (colors may also be comma-separated).
+interface ProfileDraft {
+    name: string;
+    palette: string;
+    logos: ImageFile[];
+    forbiddenElements: string;
+    requiredText: string;
+}
+
+const EMPTY_DRAFT: ProfileDraft = { name: '', palette: '', logos: [], forbiddenElements: '', requiredText: '' };
+
+const MAX_LOGOS = 3;
+
+const lines = (text: string): string[] => text.split('\n').map(line => line.trim()).filter(Boolean);
+
+const paletteEntries = (text: string): string[] => text.split(/[\s,]+/).filter(Boolean);
+
+// Picks the brand profile results are checked against, and creates and edits profiles.
+export const BrandProfileCard: React.FC<BrandProfileCardProps> = ({ profiles, selectedId, onSelect, onProfilesChange, disabled = false }) => {
+    const [draft, setDraft] = useState<ProfileDraft | null>(null);
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [message, setMessage] = useState<string | null>(null);
+
+    const selected = profiles.find(profile => profile.id === selectedId) ?? null;
+    const invalidColors = draft ? paletteEntries(draft.palette).filter(color => !normalizeHexColor(color)) : [];
+
+    const openForm = (profile: BrandProfile | null) => {
+        setMessage(null);
+        setEditingId(profile?.id ?? null);
+        setDraft(profile
+            ? {
+                name: profile.name,
+                palette: profile.palette.join(', '),
+                logos: profile.logos,
+                forbiddenElements: profile.forbiddenElements.join('\n'),
+                requiredText: profile.requiredText.join('\n'),
+            }
+            : EMPTY_DRAFT);
+    };
+
+    const handleSave = async () => {
+        if (!draft) return;
+        const now = Date.now();
+        const existing = profiles.find(profile => profile.id === editingId);
+        const profile: BrandProfile = {
+            id: existing?.id ?? createBrandProfileId(),
+            name: draft.name.trim(),
+            palette: [...new Set(paletteEntries(draft.palette).map(color => normalizeHexColor(color)!))],
+            logos: draft.logos,
+            forbiddenElements: lines(draft.forbiddenElements),
+            requiredText: lines(draft.requiredText),
+            createdAt: existing?.createdAt ?? now,
+            updatedAt: now,
+        };
+        try {
+            await saveBrandProfile(profile);
+            setDraft(null);
+            onProfilesChange();
+            onSelect(profile.id);
+        } catch (err) {
+            setMessage(err instanceof Error ? err.message : 'The brand profile could not be saved.');
+        }
+    };
+
+    const handleDelete = async () => {
+        if (!selected || !window.confirm(`Delete the brand profile "${selected.name}"?`)) return;
+        try {
+            await deleteBrandProfile(selected.id);
+            onSelect(null);
+            onProfilesChange();
+        } catch (err) {
+            setMessage(err instanceof Error ? err.message : 'The brand profile could not be deleted.');
+        }
+    };
+
+    const inputClassName = 'bg-gray-900 border border-gray-600 rounded-md p-2 text-white';
+
+    return (
+        <div className="bg-gray-800 border border-gray-700 rounded-xl p-6 shadow-lg text-sm">
+            <h2 className="text-xl font-bold text-cyan-400 mb-1">Brand Guidelines <span className="text-sm font-normal text-gray-400">(optional)</span></h2>
+            <p className="text-gray-400 mb-4">Check every result against a brand profile: its palette, logos, forbidden elements and required packaging text.</p>
+            <div className="flex flex-wrap items-center gap-2">
+                <select
+                    value={selectedId ?? ''}
+                    onChange={(e) => onSelect(e.target.value || null)}
+                    disabled={disabled}
+                    className="flex-grow min-w-0 bg-gray-900 border border-gray-600 rounded-md p-2 text-white disabled:opacity-50"
+                >
+                    <option value="">No brand check</option>
+                    {profiles.map(profile => <option key={profile.id} value={profile.id}>{profile.name}</option>)}
+                </select>
+                {selected && (
+                    <button
+                        onClick={() => openForm(selected)}
+                        disabled={disabled}
+                        className="px-3 py-2 font-medium text-gray-300 bg-gray-700 rounded-md hover:bg-gray-600 disabled:opacity-50"
+                    >
+                        Edit…
+                    </button>
+                )}
+                <button
+                    onClick={() => openForm(null)}
+                    disabled={disabled}
+                    className="px-3 py-2 font-medium text-gray-300 bg-gray-700 rounded-md hover:bg-gray-600 disabled:opacity-50"
+                >
+                    New Profile…
+                </button>
+                {selected && (
+                    <button onClick={handleDelete} disabled={disabled} className="px-3 py-2 font-medium text-red-300 hover:text-red-200">
+                        Delete
+                    </button>
+                )}
+            </div>
+            {selected && !draft && (
+                <div className="mt-3 flex flex-wrap items-center gap-2 text-xs text-gray-400">
+                    {selected.palette.map(color => (
+                        <span key={color} className="flex items-center gap-1">
+                            <span className="w-4 h-4 rounded border border-gray-600" style={{ backgroundColor: color }} />
+                            {color}
+                        </span>
+                    ))}
+                    <span>
+                        {selected.logos.length} logo{selected.logos.length === 1 ? '' : 's'},
+                        {' '}{selected.forbiddenElements.length} forbidden element{selected.forbiddenElements.length === 1 ? '' : 's'},
+                        {' '}{selected.requiredText.length} required text{selected.requiredText.length === 1 ? '' : 's'}
+                    </span>
+                </div>
+            )}
+            {draft && (
+                <div className="mt-3 grid grid-cols-1 sm:grid-cols-2 gap-3">
+                    <label className="flex flex-col gap-1 text-gray-400">
+                        Name
+                        <input type="text" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} className={inputClassName} />
+                    </label>
+                    <label className="flex flex-col gap-1 text-gray-400">
+                        Palette
+                        <input
+                            type="text"
+                            value={draft.palette}
+                            onChange={(e) => setDraft({ ...draft, palette: e.target.value })}
+                            placeholder="#e30613, #ffffff"
+                            className={inputClassName}
+                        />
+                        <span className="flex flex-wrap gap-1">
+                            {paletteEntries(draft.palette).map((color, index) => {
+                                const hex = normalizeHexColor(color);
+                                return hex
+                                    ? <span key={index} className="w-4 h-4 rounded border border-gray-600" style={{ backgroundColor: hex }} title={hex} />
+                                    : null;
+                            })}
+                        </span>
+                        {invalidColors.length > 0 && (
+                            <span className="text-xs text-red-400">Not hex colors: {invalidColors.join(', ')}</span>
+                        )}
+                    </label>
+                    <label className="flex flex-col gap-1 text-gray-400">
+                        Forbidden elements, one per line
+                        <textarea
+                            value={draft.forbiddenElements}
+                            onChange={(e) => setDraft({ ...draft, forbiddenElements: e.target.value })}
+                            placeholder={'Competitor logos\nAlcohol'}
+                            rows={3}
+                            className={inputClassName}
+                        />
+                    </label>
+                    <label className="flex flex-col gap-1 text-gray-400">
+                        Required packaging text, one per line
+                        <textarea
+                            value={draft.requiredText}
+                            onChange={(e) => setDraft({ ...draft, requiredText: e.target.value })}
+                            placeholder={'Original Recipe\n500 ml'}
+                            rows={3}
+                            className={inputClassName}
+                        />
+                    </label>
+                    <div className="sm:col-span-2 flex flex-col gap-2 text-gray-400">
+                        Logo references
+                        {draft.logos.length > 0 && (
+                            <div className="flex flex-wrap gap-2">
+                                {draft.logos.map((logo, index) => (
+                                    <div key={index} className="relative group">
+                                        <img src={logo.base64} alt={`Logo ${index + 1}`} className="h-16 w-auto rounded-md border border-gray-600 bg-white/10" />
+                                        <button
+                                            onClick={() => setDraft({ ...draft, logos: draft.logos.filter((_, i) => i !== index) })}
+                                            className="absolute -top-2 -right-2 bg-gray-800 rounded-full text-red-500 hover:text-red-400"
+                                        >
+                                            <XCircleIcon className="w-5 h-5" />
+                                        </button>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                        {draft.logos.length < MAX_LOGOS && (
+                            <ImageUploader
+                                onFilesSelect={files => setDraft(current => current && {
+                                    ...current,
+                                    logos: [...current.logos, ...files].slice(0, MAX_LOGOS),
+                                })}
+                                multiple
+                            />
+                        )}
+                    </div>
+                    <div className="sm:col-span-2 flex items-center justify-end gap-2">
+                        {message && <span className="mr-auto text-red-400">{message}</span>}
+                        <button onClick={() => setDraft(null)} className="px-3 py-1 font-medium text-gray-300 bg-gray-600 rounded-md hover:bg-gray-500">
+                            Cancel
+                        </button>
+                        <button
+                            onClick={handleSave}
+                            disabled={!draft.name.trim() || invalidColors.length > 0}
+                            className="px-3 py-1 font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+                        >
+                            Save
+                        </button>
+                    </div>
+                </div>
+            )}
+            {message && !draft && <p className="mt-2 text-red-400">{message}</p>}
+        </div>
+    );
+};
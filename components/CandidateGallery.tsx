@@ -0,0 +1,34 @@
+import React from 'react';
+import type { ReplacementCandidate } from '../types';
+import { averageScore, MAX_SCORE } from '../services/qualityCheck';
+
+interface CandidateGalleryProps {
+    candidates: ReplacementCandidate[];
+    selectedVariant: number;
+    onSelect: (candidate: ReplacementCandidate) => void;
+}
+
+// Shows the candidates of a run in ranked order, best first.
+export const CandidateGallery: React.FC<CandidateGalleryProps> = ({ candidates, selectedVariant, onSelect }) => (
+    <div className="mt-4">
+        <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider mb-2">Candidates, ranked by quality check</h3>
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            {candidates.map((candidate, rank) => (
+                <button
+                    key={candidate.variant}
+                    onClick={() => onSelect(candidate)}
+                    className={`relative text-left rounded-md border-2 overflow-hidden transition-colors ${
+                        candidate.variant === selectedVariant ? 'border-cyan-400' : 'border-gray-600 hover:border-gray-400'
+                    }`}
+                >
+                    <img src={`data:image/png;base64,${candidate.image}`} alt={`Candidate ${candidate.variant}`} className="w-full h-24 object-cover"/>
+                    <span className="absolute top-1 left-1 text-xs font-bold px-2 py-0.5 rounded-full bg-gray-900/80 text-white">#{rank + 1}</span>
+                    <div className="px-2 py-1 text-xs bg-gray-900/70 text-gray-300 flex justify-between">
+                        <span>QA {candidate.qualityCheck ? `${averageScore(candidate.qualityCheck).toFixed(1)}/${MAX_SCORE}` : 'n/a'}</span>
+                        {candidate.drift && <span>drift {candidate.drift.score.toFixed(1)}%</span>}
+                    </div>
+                </button>
+            ))}
+        </div>
+    </div>
+);
@@ -0,0 +1,46 @@
+import React from 'react';
+import type { ComplianceResult } from '../types';
+import { CheckCircleIcon, XCircleIcon } from './IconComponents';
+
+interface ComplianceCardProps {
+    compliance: ComplianceResult;
+    brandName?: string;
+}
+
+export const ComplianceCard: React.FC<ComplianceCardProps> = ({ compliance, brandName }) => {
+    const failed = compliance.items.filter(item => !item.passed).length;
+
+    return (
+        <div className="mt-4 p-4 bg-gray-700/50 rounded-lg border border-gray-600">
+            <h3 className="flex items-center justify-between gap-2 font-semibold text-cyan-400 mb-2">
+                <span className="flex items-center gap-2">
+                    {compliance.passed ? <CheckCircleIcon className="w-6 h-6" /> : <XCircleIcon className="w-6 h-6" />}
+                    Brand Compliance{brandName && <span className="text-sm font-normal text-gray-400">· {brandName}</span>}
+                </span>
+                <span className={`text-sm ${compliance.passed ? 'text-green-400' : 'text-red-400'}`}>
+                    {compliance.passed ? 'All checks passed' : `${failed} of ${compliance.items.length} failed`}
+                </span>
+            </h3>
+            <p className="text-sm text-gray-300">{compliance.summary}</p>
+            <ul className="mt-3 space-y-1 text-xs">
+                {compliance.items.map((item, index) => (
+                    <li key={index} className="flex items-start gap-2">
+                        <span className={`w-9 shrink-0 font-semibold ${item.passed ? 'text-green-400' : 'text-red-400'}`}>
+                            {item.passed ? 'PASS' : 'FAIL'}
+                        </span>
+                        <span className="flex-grow text-gray-300">
+                            {item.label}
+                            {item.detail && <span className="block text-gray-400">{item.detail}</span>}
+                        </span>
+                        <span
+                            className="shrink-0 px-1.5 py-0.5 rounded bg-gray-800 text-gray-400"
+                            title={item.source === 'local' ? 'Measured from the image pixels' : 'Judged by the AI model'}
+                        >
+                            {item.source === 'local' ? 'measured' : 'AI'}
+                        </span>
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
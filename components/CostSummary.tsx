@@ -0,0 +1,27 @@
+import React from 'react';
+import { formatCost } from '../services/costs';
+
+interface CostSummaryProps {
+    jobCost: number;
+    jobLimit: number | null;
+    sessionCost: number;
+    sessionLimit: number | null;
+}
+
+const Meter: React.FC<{ label: string; cost: number; limit: number | null }> = ({ label, cost, limit }) => {
+    const isOver = limit !== null && cost >= limit;
+    return (
+        <span className={isOver ? 'text-red-400' : 'text-gray-300'}>
+            {label}: <span className="font-mono">{formatCost(cost)}</span>
+            {limit !== null && <span className="text-gray-500"> of {formatCost(limit)}</span>}
+        </span>
+    );
+};
+
+// Running estimated spend. Costs come from the price table, so treat them as estimates.
+export const CostSummary: React.FC<CostSummaryProps> = ({ jobCost, jobLimit, sessionCost, sessionLimit }) => (
+    <div className="w-full mb-4 flex flex-wrap gap-x-4 gap-y-1 text-xs" title="Estimated from reported token counts">
+        <Meter label="Job" cost={jobCost} limit={jobLimit} />
+        <Meter label="Session" cost={sessionCost} limit={sessionLimit} />
+    </div>
+);
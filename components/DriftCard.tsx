@@ -0,0 +1,43 @@
+import React from 'react';
+import type { DriftResult } from '../types';
+import { ExclamationCircleIcon } from './IconComponents';
+
+interface DriftCardProps {
+    drift: DriftResult;
+}
+
+// Thresholds, in % of background pixels changed, for the displayed rating.
+const LOW_DRIFT = 1;
+const HIGH_DRIFT = 5;
+
+export const DriftCard: React.FC<DriftCardProps> = ({ drift }) => {
+    const rating = drift.score < LOW_DRIFT
+        ? { label: 'Background unchanged', color: 'text-green-400' }
+        : drift.score < HIGH_DRIFT
+            ? { label: 'Minor background drift', color: 'text-yellow-400' }
+            : { label: 'Significant background drift', color: 'text-red-400' };
+
+    return (
+        <div className="mt-4 p-4 bg-gray-700/50 rounded-lg border border-gray-600">
+            <h3 className="flex items-center justify-between gap-2 font-semibold text-cyan-400 mb-2">
+                <span className="flex items-center gap-2">
+                    <ExclamationCircleIcon className="w-6 h-6" />
+                    Background Drift
+                </span>
+                <span className={`text-sm ${rating.color}`}>{drift.score.toFixed(2)}%</span>
+            </h3>
+            <div className="flex gap-4 items-start">
+                <img src={drift.heatmap} alt="Background drift heatmap" className="w-32 h-auto rounded-md border border-gray-600"/>
+                <div className="text-sm text-gray-300">
+                    <p className={`font-semibold ${rating.color}`}>{rating.label}</p>
+                    <p className="mt-1 text-xs text-gray-400">
+                        {drift.regionSource === 'none'
+                            ? 'Share of all pixels that differ from the original: so much of the scene changed that the product region could not be estimated.'
+                            : `Share of pixels outside the ${drift.regionSource === 'mask' ? 'masked' : 'estimated'} product region that differ from the original.`}
+                        {' '}Red areas in the heatmap changed{drift.regionSource === 'none' ? '' : '; the blue area is the product region'}.
+                    </p>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import type { LogEntry } from '../types';
+import { DEFAULT_EXPORT_SETTINGS, EXPORT_PRESETS, exportForPresets, ExportSettings, FitMode } from '../services/adExport';
+import { ExportFormat, ProvenanceMetadata } from '../services/imageMetadata';
+import { BudgetExceededError, CancelledError, GenerationError } from '../services/errors';
+import { CallOptions } from '../services/modelCall';
+import { downloadBlob } from '../services/download';
+import { createZip } from '../services/zip';
+import { SparklesIcon } from './IconComponents';
+
+interface ExportPanelProps {
+    image: string; // data URL of the approved image
+    metadata: Omit<ProvenanceMetadata, 'preset' | 'createdAt'>;
+    focusMasks: string[];
+    firstLogStep: number;
+    startRun: () => CallOptions;
+    onLogs: (logs: LogEntry[]) => void;
+    onDone: () => void;
+}
+
+const FORMAT_LABELS: Record<ExportFormat, string> = { jpeg: 'JPEG', webp: 'WebP', png: 'PNG' };
+
+// Shown once a result is approved: renders it for the selected ad placements and downloads
+// one file, or a zip when several placements are selected.
+export const ExportPanel: React.FC<ExportPanelProps> = ({ image, metadata, focusMasks, firstLogStep, startRun, onLogs, onDone }) => {
+    const [presetIds, setPresetIds] = useState<string[]>(EXPORT_PRESETS.map(preset => preset.id));
+    const [settings, setSettings] = useState<ExportSettings>(DEFAULT_EXPORT_SETTINGS);
+    const [isExporting, setIsExporting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [loggedSteps, setLoggedSteps] = useState(0);
+
+    const togglePreset = (id: string) => {
+        setPresetIds(prev => prev.includes(id) ? prev.filter(existing => existing !== id) : [...prev, id]);
+    };
+
+    const handleExport = async () => {
+        setIsExporting(true);
+        setError(null);
+        try {
+            const { files, logs } = await exportForPresets({
+                image,
+                presets: EXPORT_PRESETS.filter(preset => presetIds.includes(preset.id)),
+                settings,
+                focusMasks,
+                metadata,
+                baseName: `product-replacement-${metadata.jobId}`,
+                firstLogStep: firstLogStep + loggedSteps,
+                callOptions: startRun(),
+            });
+            if (logs.length > 0) {
+                onLogs(logs);
+                setLoggedSteps(count => count + logs.length);
+            }
+            if (files.length === 1) {
+                downloadBlob(new Blob([files[0].bytes], { type: files[0].mimeType }), files[0].filename);
+            } else {
+                downloadBlob(createZip(files.map(file => ({ name: file.filename, data: file.bytes }))), `product-replacement-${metadata.jobId}.zip`);
+            }
+        } catch (err) {
+            if (err instanceof CancelledError) {
+                setError('The export was cancelled.');
+            } else if (err instanceof BudgetExceededError) {
+                setError(`${err.message} Raise the budget or export with cropping instead.`);
+            } else if (err instanceof GenerationError) {
+                // The failed outpainting call is part of the job's log too
+                onLogs(err.logs);
+                setLoggedSteps(count => count + err.logs.length);
+                setError(`${err.message} ${err.failure.category === 'blocked' ? 'Export with cropping instead.' : 'Try again, or export with cropping instead.'}`);
+            } else {
+                setError(err instanceof Error ? err.message : 'The export failed.');
+            }
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    return (
+        <div className="mt-4 p-4 bg-gray-700/50 rounded-lg border border-gray-600 w-full text-sm text-gray-300">
+            <h3 className="font-semibold text-cyan-400 mb-3">Export for Ad Placements</h3>
+            <div className="grid grid-cols-2 gap-2 mb-4">
+                {EXPORT_PRESETS.map(preset => (
+                    <label key={preset.id} className="flex items-center gap-2">
+                        <input
+                            type="checkbox"
+                            checked={presetIds.includes(preset.id)}
+                            onChange={() => togglePreset(preset.id)}
+                            disabled={isExporting}
+                            className="rounded bg-gray-900 border-gray-600 text-cyan-500 focus:ring-cyan-500"
+                        />
+                        <span>
+                            {preset.label} <span className="text-xs text-gray-400">{preset.placement} · {preset.width}×{preset.height}</span>
+                        </span>
+                    </label>
+                ))}
+            </div>
+            <div className="flex flex-wrap items-center gap-4 mb-4">
+                <label className="flex items-center gap-2" title="Cropping keeps the product in frame; outpainting has the image model extend the scene (one call per placement)">
+                    Fit
+                    <select
+                        value={settings.fit}
+                        onChange={(e) => setSettings(prev => ({ ...prev, fit: e.target.value as FitMode }))}
+                        disabled={isExporting}
+                        className="bg-gray-900 border border-gray-600 rounded-md p-1 text-white"
+                    >
+                        <option value="crop">Smart crop</option>
+                        <option value="outpaint">Outpaint (AI)</option>
+                    </select>
+                </label>
+                <label className="flex items-center gap-2">
+                    Format
+                    <select
+                        value={settings.format}
+                        onChange={(e) => setSettings(prev => ({ ...prev, format: e.target.value as ExportFormat }))}
+                        disabled={isExporting}
+                        className="bg-gray-900 border border-gray-600 rounded-md p-1 text-white"
+                    >
+                        {(Object.keys(FORMAT_LABELS) as ExportFormat[]).map(format => (
+                            <option key={format} value={format}>{FORMAT_LABELS[format]}</option>
+                        ))}
+                    </select>
+                </label>
+                <label className={`flex items-center gap-2 ${settings.format === 'png' ? 'opacity-50' : ''}`}>
+                    Quality
+                    <input
+                        type="range"
+                        min={50}
+                        max={100}
+                        value={Math.round(settings.quality * 100)}
+                        onChange={(e) => setSettings(prev => ({ ...prev, quality: Number(e.target.value) / 100 }))}
+                        disabled={isExporting || settings.format === 'png'}
+                    />
+                    <span className="w-8 text-right">{Math.round(settings.quality * 100)}</span>
+                </label>
+            </div>
+            <p className="text-xs text-gray-400 mb-4">
+                Files carry XMP metadata with the job ID, the models used and an AI-generated flag.
+            </p>
+            {error && <p className="text-xs text-red-400 mb-3">{error}</p>}
+            <div className="flex justify-end gap-3">
+                <button onClick={onDone} disabled={isExporting} className="px-4 py-2 font-medium text-gray-300 bg-gray-600 rounded-md hover:bg-gray-500">
+                    Done
+                </button>
+                <button
+                    onClick={handleExport}
+                    disabled={isExporting || presetIds.length === 0}
+                    className="px-4 py-2 font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 flex items-center gap-2"
+                >
+                    <SparklesIcon className="w-4 h-4" />
+                    {isExporting ? 'Exporting...' : presetIds.length > 1 ? `Download ${presetIds.length} as Zip` : 'Download'}
+                </button>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,37 @@
+import React from 'react';
+import type { FailureInfo } from '../types';
+import { ExclamationTriangleIcon } from './IconComponents';
+import { FailureAction, FAILURE_GUIDANCE, formatFailure, NEXT_ACTION_LABELS } from '../services/failures';
+
+interface FailureCardProps {
+    failure: FailureInfo;
+    message: string;
+    action: FailureAction;
+    onAction: () => void;
+}
+
+// A failed run whose cause is known: what happened, and the one thing to do next.
+export const FailureCard: React.FC<FailureCardProps> = ({ failure, message, action, onAction }) => {
+    const guidance = FAILURE_GUIDANCE[failure.category];
+    return (
+        <div className="text-center text-red-400 bg-red-900/20 border border-red-500 p-4 rounded-lg">
+            <ExclamationTriangleIcon className="w-12 h-12 mx-auto mb-2"/>
+            <p className="font-bold">{guidance.title}</p>
+            <p className="text-sm">{message}</p>
+            <p className="mt-2 text-sm text-gray-300">{guidance.advice}</p>
+            {action === 'rephrase' && (
+                <p className="mt-1 text-sm text-gray-300">Describe the change differently, avoiding wording that could read as harmful.</p>
+            )}
+            {action === 'change-input' && (
+                <p className="mt-1 text-sm text-gray-300">Use different product or marketing images, then run the job again.</p>
+            )}
+            <p className="mt-2 text-xs text-gray-500" title="Recorded in the process log">{formatFailure(failure)}</p>
+            <button
+                onClick={onAction}
+                className="mt-3 px-4 py-2 font-semibold text-white bg-gray-600 rounded-md hover:bg-gray-500 transition-colors"
+            >
+                {NEXT_ACTION_LABELS[action]}
+            </button>
+        </div>
+    );
+};
@@ -0,0 +1,157 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import type { JobRecord, JobStatus } from '../types';
+import { deleteJob, listJobs } from '../services/jobHistory';
+import { formatCost, sumUsage } from '../services/costs';
+import { XMarkIcon, XCircleIcon, SparklesIcon, DocumentTextIcon } from './IconComponents';
+
+interface HistoryPanelProps {
+    isOpen: boolean;
+    onClose: () => void;
+    onOpenJob: (job: JobRecord) => void;
+    onRerunJob: (job: JobRecord) => void;
+    onJobDeleted: (job: JobRecord) => void;
+}
+
+const STATUS_LABELS: Record<JobStatus, { label: string; className: string }> = {
+    'in-progress': { label: 'In progress', className: 'bg-blue-900/60 text-blue-300' },
+    'awaiting-review': { label: 'Awaiting review', className: 'bg-cyan-900/60 text-cyan-300' },
+    approved: { label: 'Approved', className: 'bg-green-900/60 text-green-300' },
+    failed: { label: 'Failed', className: 'bg-red-900/60 text-red-300' },
+    cancelled: { label: 'Cancelled', className: 'bg-gray-700 text-gray-300' },
+};
+
+// Formats a timestamp as the local "YYYY-MM-DD" used by <input type="date">.
+const toDateInputValue = (timestamp: number): string => {
+    const date = new Date(timestamp);
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ isOpen, onClose, onOpenJob, onRerunJob, onJobDeleted }) => {
+    const [jobs, setJobs] = useState<JobRecord[]>([]);
+    const [error, setError] = useState<string | null>(null);
+    const [dateFilter, setDateFilter] = useState<string>('');
+    const [statusFilter, setStatusFilter] = useState<JobStatus | 'all'>('all');
+
+    const refresh = useCallback(() => {
+        listJobs()
+            .then(loaded => {
+                setJobs(loaded);
+                setError(null);
+            })
+            .catch(err => setError(err instanceof Error ? err.message : "Failed to load the job history."));
+    }, []);
+
+    useEffect(() => {
+        if (isOpen) {
+            refresh();
+        }
+    }, [isOpen, refresh]);
+
+    const handleDelete = async (job: JobRecord) => {
+        if (!window.confirm('Delete this job from the history?')) return;
+        try {
+            await deleteJob(job.id);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Failed to delete the job.");
+            return;
+        }
+        onJobDeleted(job);
+        refresh();
+    };
+
+    const filteredJobs = jobs.filter(job =>
+        (!dateFilter || toDateInputValue(job.createdAt) === dateFilter) &&
+        (statusFilter === 'all' || job.status === statusFilter)
+    );
+
+    return (
+        <div
+            className={`fixed inset-0 z-50 overflow-hidden transition-opacity duration-300 ${
+                isOpen ? 'opacity-100' : 'opacity-0 pointer-events-none'
+            }`}
+        >
+            {/* Overlay */}
+            <div className="absolute inset-0 bg-black/60" onClick={onClose}></div>
+
+            {/* Panel */}
+            <div
+                className={`absolute inset-y-0 left-0 w-full max-w-md bg-gray-800 border-r border-gray-700 shadow-xl transform transition-transform duration-300 ease-in-out ${
+                    isOpen ? 'translate-x-0' : '-translate-x-full'
+                }`}
+            >
+                <div className="flex flex-col h-full">
+                    {/* Header */}
+                    <div className="p-4 border-b border-gray-700">
+                        <div className="flex items-start justify-between">
+                            <h2 className="text-xl font-bold text-cyan-400">Job History</h2>
+                            <button onClick={onClose} className="p-1 rounded-full text-gray-400 hover:bg-gray-700 hover:text-white">
+                                <XMarkIcon className="w-6 h-6" />
+                            </button>
+                        </div>
+                        <div className="flex gap-2 mt-3">
+                            <input
+                                type="date"
+                                value={dateFilter}
+                                onChange={(e) => setDateFilter(e.target.value)}
+                                className="flex-1 bg-gray-900 border border-gray-600 rounded-md p-1 text-sm text-white"
+                            />
+                            <select
+                                value={statusFilter}
+                                onChange={(e) => setStatusFilter(e.target.value as JobStatus | 'all')}
+                                className="flex-1 bg-gray-900 border border-gray-600 rounded-md p-1 text-sm text-white"
+                            >
+                                <option value="all">All statuses</option>
+                                {(Object.keys(STATUS_LABELS) as JobStatus[]).map(status => (
+                                    <option key={status} value={status}>{STATUS_LABELS[status].label}</option>
+                                ))}
+                            </select>
+                        </div>
+                    </div>
+
+                    {/* Content */}
+                    <div className="flex-grow p-4 overflow-y-auto space-y-3">
+                        {error && <p className="text-sm text-red-400">{error}</p>}
+                        {!error && filteredJobs.length === 0 && (
+                            <p className="text-sm text-gray-500 text-center mt-8">No jobs found.</p>
+                        )}
+                        {filteredJobs.map(job => {
+                            const lastImage = job.attempts[job.attempts.length - 1]?.result.image;
+                            return (
+                                <div key={job.id} className="flex gap-3 bg-gray-900/50 border border-gray-700 rounded-lg p-3">
+                                    <img
+                                        src={lastImage ? `data:image/png;base64,${lastImage}` : job.marketingImage.base64}
+                                        alt="Job preview"
+                                        className="w-20 h-20 object-cover rounded-md border border-gray-600 flex-shrink-0"
+                                    />
+                                    <div className="flex-grow min-w-0">
+                                        <div className="flex items-center justify-between gap-2">
+                                            <span className={`text-xs px-2 py-0.5 rounded-full ${STATUS_LABELS[job.status].className}`}>{STATUS_LABELS[job.status].label}</span>
+                                            <span className="text-xs text-gray-500">{job.attempts.length} attempt{job.attempts.length === 1 ? '' : 's'}</span>
+                                        </div>
+                                        <p className="mt-1 text-xs text-gray-400">
+                                            {new Date(job.createdAt).toLocaleString()}
+                                            {job.logs.some(log => log.usage) && ` · ${formatCost(sumUsage(job.logs).cost)}`}
+                                        </p>
+                                        <div className="mt-2 flex gap-2">
+                                            <button onClick={() => onOpenJob(job)} className="flex items-center gap-1 px-2 py-1 text-xs font-medium text-white bg-gray-600 rounded-md hover:bg-gray-500">
+                                                <DocumentTextIcon className="w-4 h-4" />
+                                                Open
+                                            </button>
+                                            <button onClick={() => onRerunJob(job)} className="flex items-center gap-1 px-2 py-1 text-xs font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700">
+                                                <SparklesIcon className="w-4 h-4" />
+                                                Re-run
+                                            </button>
+                                            <button onClick={() => handleDelete(job)} title="Delete" className="ml-auto text-red-500 hover:text-red-400">
+                                                <XCircleIcon className="w-5 h-5" />
+                                            </button>
+                                        </div>
+                                    </div>
+                                </div>
+                            );
+                        })}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -1,57 +1,135 @@
-
-import React, { useCallback } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import type { ImageFile } from '../types';
 import { UploadIcon } from './IconComponents';
+import { ACCEPTED_IMAGE_TYPES, DEFAULT_PREPROCESS_OPTIONS, PreprocessFailure, PreprocessOptions, preprocessImageFiles } from '../services/imagePreprocessing';
 
 interface ImageUploaderProps {
     onFilesSelect: (files: ImageFile[]) => void;
     multiple: boolean;
     disabled?: boolean;
+    preprocessing?: Partial<PreprocessOptions>;
+    // Also accept images pasted anywhere on the page, not only while the drop zone has focus.
+    // Enable it on at most one uploader per screen.
+    acceptPageWidePaste?: boolean;
 }
 
-export const ImageUploader: React.FC<ImageUploaderProps> = ({ onFilesSelect, multiple, disabled = false }) => {
+// Pastes into text fields are left alone.
+const isEditableTarget = (target: EventTarget | null) =>
+    target instanceof HTMLElement && (
+        target.isContentEditable ||
+        (['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) && (target as HTMLInputElement).type !== 'file')
+    );
+
+const imageFilesFrom = (items: DataTransferItemList | null): File[] =>
+    Array.from(items ?? [])
+        .filter(item => item.kind === 'file')
+        .map(item => item.getAsFile())
+        .filter((file): file is File => file !== null);
+
+export const ImageUploader: React.FC<ImageUploaderProps> = ({ onFilesSelect, multiple, disabled = false, preprocessing, acceptPageWidePaste = false }) => {
+    const [isProcessing, setIsProcessing] = useState(false);
+    const [isDragOver, setIsDragOver] = useState(false);
+    const [failures, setFailures] = useState<PreprocessFailure[]>([]);
+    const options = { ...DEFAULT_PREPROCESS_OPTIONS, ...preprocessing };
+    const { maxFileSizeBytes, maxDimension } = options;
+
+    const addFiles = useCallback((files: File[]) => {
+        if (files.length === 0) return;
+        setIsProcessing(true);
+        preprocessImageFiles(multiple ? files : files.slice(0, 1), { maxFileSizeBytes, maxDimension })
+            .then(({ images, failures }) => {
+                setFailures(failures);
+                if (images.length > 0) {
+                    onFilesSelect(images);
+                }
+            })
+            .finally(() => setIsProcessing(false));
+    }, [onFilesSelect, multiple, maxFileSizeBytes, maxDimension]);
+
     const handleFileChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
         const files = event.target.files;
         if (files) {
             const fileArray = Array.from(files);
-            const imageFilePromises = fileArray.map(file => {
-                return new Promise<ImageFile>((resolve, reject) => {
-                    const reader = new FileReader();
-                    reader.onloadend = () => {
-                        resolve({ file, base64: reader.result as string });
-                    };
-                    reader.onerror = reject;
-                    reader.readAsDataURL(file);
-                });
-            });
-
-            Promise.all(imageFilePromises).then(onFilesSelect);
+            // Reset so selecting the same file again still triggers a change
+            event.target.value = '';
+            addFiles(fileArray);
         }
-    }, [onFilesSelect]);
+    }, [addFiles]);
+
+    const isDisabled = disabled || isProcessing;
+
+    const handleDragOver = (event: React.DragEvent<HTMLDivElement>) => {
+        if (isDisabled || !event.dataTransfer.types.includes('Files')) return;
+        event.preventDefault();
+        setIsDragOver(true);
+    };
+
+    const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+        setIsDragOver(false);
+        if (isDisabled || !event.dataTransfer.types.includes('Files')) return;
+        event.preventDefault();
+        addFiles(Array.from(event.dataTransfer.files));
+    };
+
+    const handlePaste = useCallback((event: ClipboardEvent | React.ClipboardEvent) => {
+        if (isDisabled) return;
+        const files = imageFilesFrom(event.clipboardData?.items ?? null);
+        if (files.length > 0) {
+            event.preventDefault();
+            addFiles(files);
+        }
+    }, [isDisabled, addFiles]);
+
+    useEffect(() => {
+        if (!acceptPageWidePaste) return;
+        const onDocumentPaste = (event: ClipboardEvent) => {
+            if (!isEditableTarget(event.target)) {
+                handlePaste(event);
+            }
+        };
+        document.addEventListener('paste', onDocumentPaste);
+        return () => document.removeEventListener('paste', onDocumentPaste);
+    }, [acceptPageWidePaste, handlePaste]);
 
     return (
-        <div className={`relative block w-full border-2 border-dashed rounded-lg p-8 text-center transition-colors duration-200 ${
-            disabled 
-                ? 'border-gray-600 bg-gray-800 cursor-not-allowed' 
-                : 'border-gray-500 hover:border-cyan-400 bg-gray-800/50 hover:bg-gray-700/50'
-        }`}>
-            <div className="flex flex-col items-center">
-                <UploadIcon className={`mx-auto h-12 w-12 ${disabled ? 'text-gray-500' : 'text-gray-400'}`} />
-                <span className={`mt-2 block text-sm font-semibold ${disabled ? 'text-gray-500' : 'text-gray-300'}`}>
-                    { multiple ? 'Click to upload files' : 'Click to upload a file' }
-                </span>
-                <span className={`mt-1 block text-xs ${disabled ? 'text-gray-600' : 'text-gray-500'}`}>
-                    PNG, JPG, GIF up to 10MB
-                </span>
+        <div>
+            <div
+                onDragOver={handleDragOver}
+                onDragLeave={() => setIsDragOver(false)}
+                onDrop={handleDrop}
+                onPaste={acceptPageWidePaste ? undefined : handlePaste}
+                className={`relative block w-full border-2 border-dashed rounded-lg p-8 text-center transition-colors duration-200 ${
+                isDisabled
+                    ? 'border-gray-600 bg-gray-800 cursor-not-allowed'
+                    : isDragOver
+                        ? 'border-cyan-400 bg-gray-700/50'
+                        : 'border-gray-500 hover:border-cyan-400 bg-gray-800/50 hover:bg-gray-700/50'
+            }`}>
+                <div className="flex flex-col items-center">
+                    <UploadIcon className={`mx-auto h-12 w-12 ${isDisabled ? 'text-gray-500' : 'text-gray-400'}`} />
+                    <span className={`mt-2 block text-sm font-semibold ${isDisabled ? 'text-gray-500' : 'text-gray-300'}`}>
+                        { isProcessing ? 'Preparing images...' : multiple ? 'Click, drop or paste files' : 'Click, drop or paste a file' }
+                    </span>
+                    <span className={`mt-1 block text-xs ${isDisabled ? 'text-gray-600' : 'text-gray-500'}`}>
+                        PNG, JPG, GIF, WebP up to {Math.round(maxFileSizeBytes / (1024 * 1024))}MB · resized to {maxDimension}px max
+                    </span>
+                </div>
+                <input
+                    type="file"
+                    className="absolute top-0 left-0 w-full h-full opacity-0 cursor-pointer"
+                    onChange={handleFileChange}
+                    accept={ACCEPTED_IMAGE_TYPES.join(', ')}
+                    multiple={multiple}
+                    disabled={isDisabled}
+                />
             </div>
-            <input
-                type="file"
-                className="absolute top-0 left-0 w-full h-full opacity-0 cursor-pointer"
-                onChange={handleFileChange}
-                accept="image/png, image/jpeg, image/gif"
-                multiple={multiple}
-                disabled={disabled}
-            />
+            {failures.length > 0 && (
+                <ul className="mt-2 space-y-1 text-xs text-red-400">
+                    {failures.map((failure, index) => (
+                        <li key={index}><span className="font-semibold">{failure.fileName}:</span> {failure.message}</li>
+                    ))}
+                </ul>
+            )}
         </div>
     );
 };
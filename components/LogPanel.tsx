@@ -1,6 +1,10 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { LogEntry } from '../types';
 import { XMarkIcon } from './IconComponents';
+import { LogBundle, parseLogBundle, renderLogReport, serializeLogBundle } from '../services/logExport';
+import { downloadText } from '../services/download';
+import { formatUsage, sumUsage } from '../services/costs';
+import { formatFailure } from '../services/failures';
 
 interface LogPanelProps {
     logs: LogEntry[];
@@ -15,8 +19,17 @@ const LogDetail: React.FC<{ title: string; children: React.ReactNode }> = ({ tit
     </div>
 );
 
-export const LogPanel: React.FC<LogPanelProps> = ({ logs, isOpen, onClose }) => {
+// Timestamped file name for exports, e.g. "process-log-2024-05-01T12-30-00".
+const exportFileName = (extension: string) =>
+    `process-log-${new Date().toISOString().slice(0, 19).replace(/:/g, '-')}.${extension}`;
+
+export const LogPanel: React.FC<LogPanelProps> = ({ logs: sessionLogs, isOpen, onClose }) => {
     const [openSteps, setOpenSteps] = useState<Record<number, boolean>>({});
+    // An imported log replaces the session's log in the panel until it is closed.
+    const [importedBundle, setImportedBundle] = useState<LogBundle | null>(null);
+    const [importError, setImportError] = useState<string | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const logs = importedBundle ? importedBundle.logs : sessionLogs;
 
     useEffect(() => {
         // Initialize all steps to be open when logs change
@@ -27,6 +40,18 @@ export const LogPanel: React.FC<LogPanelProps> = ({ logs, isOpen, onClose }) =>
         setOpenSteps(initialStates);
     }, [logs]);
 
+    const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+        try {
+            setImportedBundle(parseLogBundle(await file.text()));
+            setImportError(null);
+        } catch (err) {
+            setImportError(err instanceof Error ? err.message : "The process log could not be imported.");
+        }
+    };
+
     const toggleAll = (isOpen: boolean) => {
         const newStates: Record<number, boolean> = {};
         logs.forEach((_, index) => {
@@ -59,9 +84,29 @@ export const LogPanel: React.FC<LogPanelProps> = ({ logs, isOpen, onClose }) =>
                     <div className="flex items-start justify-between p-4 border-b border-gray-700">
                         <div>
                              <h2 className="text-xl font-bold text-cyan-400">Process Log</h2>
-                             <div className="flex gap-4 mt-1">
+                             {logs.some(log => log.usage) && (
+                                <p className="text-xs text-gray-400 mt-1" title="Estimated from reported token counts">Total: {formatUsage(sumUsage(logs))}</p>
+                             )}
+                             <div className="flex flex-wrap gap-4 mt-1">
                                 <button onClick={() => toggleAll(true)} className="text-xs font-medium text-gray-400 hover:text-white transition-colors">Expand All</button>
                                 <button onClick={() => toggleAll(false)} className="text-xs font-medium text-gray-400 hover:text-white transition-colors">Collapse All</button>
+                                <span className="border-l border-gray-600"></span>
+                                <button
+                                    onClick={() => downloadText(serializeLogBundle(logs), exportFileName('json'), 'application/json')}
+                                    disabled={logs.length === 0}
+                                    className="text-xs font-medium text-gray-400 hover:text-white transition-colors disabled:opacity-50"
+                                >
+                                    Export JSON
+                                </button>
+                                <button
+                                    onClick={() => downloadText(renderLogReport(logs), exportFileName('html'), 'text/html')}
+                                    disabled={logs.length === 0}
+                                    className="text-xs font-medium text-gray-400 hover:text-white transition-colors disabled:opacity-50"
+                                >
+                                    Export HTML Report
+                                </button>
+                                <button onClick={() => fileInputRef.current?.click()} className="text-xs font-medium text-gray-400 hover:text-white transition-colors">Import JSON</button>
+                                <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
                             </div>
                         </div>
                         <button onClick={onClose} className="p-1 rounded-full text-gray-400 hover:bg-gray-700 hover:text-white">
@@ -69,8 +114,23 @@ export const LogPanel: React.FC<LogPanelProps> = ({ logs, isOpen, onClose }) =>
                         </button>
                     </div>
 
+                    {importedBundle && (
+                        <div className="flex items-center justify-between gap-4 px-4 py-2 bg-yellow-900/30 border-b border-yellow-700 text-xs text-yellow-300">
+                            <span>
+                                Read-only replay of an imported log{importedBundle.exportedAt && ` exported ${new Date(importedBundle.exportedAt).toLocaleString()}`}.
+                            </span>
+                            <button onClick={() => setImportedBundle(null)} className="font-medium hover:text-white">Back to current log</button>
+                        </div>
+                    )}
+                    {importError && (
+                        <div className="px-4 py-2 bg-red-900/30 border-b border-red-700 text-xs text-red-300">{importError}</div>
+                    )}
+
                     {/* Content */}
                     <div className="flex-grow p-6 overflow-y-auto space-y-4">
+                        {logs.length === 0 && (
+                            <p className="text-sm text-gray-500 text-center mt-8">No process log yet. Run a job or import an exported log.</p>
+                        )}
                         {logs.map((log, index) => (
                            <React.Fragment key={index}>
                              {log.title === "Feedback Analysis" && (
@@ -90,7 +150,32 @@ export const LogPanel: React.FC<LogPanelProps> = ({ logs, isOpen, onClose }) =>
                                     }}
                                 >
                                     <span>Step {log.step}: {log.title}</span>
-                                    <span className="text-xs px-2 py-1 bg-cyan-900/50 text-cyan-300 rounded-full">{log.model}</span>
+                                    <span className="flex items-center gap-2">
+                                        {log.attempt && <span className="text-xs px-2 py-1 bg-gray-700 text-gray-300 rounded-full">Attempt {log.attempt}</span>}
+                                        {log.variant && <span className="text-xs px-2 py-1 bg-gray-700 text-gray-300 rounded-full">Variant {log.variant}</span>}
+                                        {log.product && <span className="text-xs px-2 py-1 bg-gray-700 text-gray-300 rounded-full">{log.product}</span>}
+                                        <span className="text-xs px-2 py-1 bg-cyan-900/50 text-cyan-300 rounded-full">{log.model}</span>
+                                        {log.usage && (
+                                            <span title="Tokens and estimated cost" className="text-xs px-2 py-1 bg-gray-700 text-gray-300 rounded-full">{formatUsage(log.usage)}</span>
+                                        )}
+                                        {log.failure && (
+                                            <span title={formatFailure(log.failure)} className="text-xs px-2 py-1 bg-red-900/50 text-red-300 rounded-full">Failed: {log.failure.category}</span>
+                                        )}
+                                        {log.humanEdited !== undefined && (
+                                            <span
+                                                title="Whether the instruction was edited before generation"
+                                                className={`text-xs px-2 py-1 rounded-full ${log.humanEdited ? 'bg-blue-900/50 text-blue-300' : 'bg-gray-700 text-gray-300'}`}
+                                            >
+                                                {log.humanEdited ? 'Edited by user' : 'Approved as proposed'}
+                                            </span>
+                                        )}
+                                        {log.retries && log.retries.length > 0 && (
+                                            <span title="The model call was retried" className="text-xs px-2 py-1 bg-yellow-900/50 text-yellow-300 rounded-full">Retried {log.retries.length}×</span>
+                                        )}
+                                        {log.template && (
+                                            <span title="Prompt template" className="text-xs px-2 py-1 bg-gray-700 text-gray-300 rounded-full font-mono">{log.template.id} v{log.template.version}</span>
+                                        )}
+                                    </span>
                                 </summary>
                                 <div className="p-4 border-t border-gray-700">
                                     <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -129,6 +214,29 @@ export const LogPanel: React.FC<LogPanelProps> = ({ logs, isOpen, onClose }) =>
                                                      <img src={log.output.image} alt="Generated output" className="w-full h-auto object-cover rounded-md border-2 border-gray-600"/>
                                                 </LogDetail>
                                             )}
+                                            {log.output.metrics && (
+                                                <LogDetail title="Metrics">
+                                                    <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs">
+                                                        {Object.entries(log.output.metrics).map(([name, value]) => (
+                                                            <React.Fragment key={name}>
+                                                                <dt className="text-gray-400">{name}</dt>
+                                                                <dd className="font-mono text-gray-200">{Number.isInteger(value) ? value : value.toFixed(2)}</dd>
+                                                            </React.Fragment>
+                                                        ))}
+                                                    </dl>
+                                                </LogDetail>
+                                            )}
+                                            {log.retries && log.retries.length > 0 && (
+                                                <LogDetail title="Retries">
+                                                    <ul className="space-y-1 text-xs text-gray-300">
+                                                        {log.retries.map(retry => (
+                                                            <li key={retry.attempt}>
+                                                                <span className="font-semibold">Try {retry.attempt}</span> failed: {retry.error} <span className="text-gray-500">(retried after {(retry.delayMs / 1000).toFixed(1)}s)</span>
+                                                            </li>
+                                                        ))}
+                                                    </ul>
+                                                </LogDetail>
+                                            )}
                                             {!log.output.text && !log.output.image && (
                                                 <p className="text-sm text-gray-500">No output was generated in this step.</p>
                                             )}
@@ -0,0 +1,200 @@
+import React, { useRef, useState } from 'react';
+
+type MaskTool = 'box' | 'brush';
+
+interface MaskEditorProps {
+    imageSrc: string;
+    onMaskChange: (mask: string | null) => void;
+    disabled?: boolean;
+    // A previously exported mask to paint back onto the canvas, e.g. when restoring a job.
+    initialMask?: string | null;
+}
+
+interface Point {
+    x: number;
+    y: number;
+}
+
+export const MaskEditor: React.FC<MaskEditorProps> = ({ imageSrc, onMaskChange, disabled = false, initialMask = null }) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const [tool, setTool] = useState<MaskTool>('box');
+    const [brushSize, setBrushSize] = useState<number>(24);
+    const [hasMask, setHasMask] = useState<boolean>(false);
+    const [dragStart, setDragStart] = useState<Point | null>(null);
+    const [dragEnd, setDragEnd] = useState<Point | null>(null);
+
+    const handleImageLoad = (event: React.SyntheticEvent<HTMLImageElement>) => {
+        const canvas = canvasRef.current!;
+        canvas.width = event.currentTarget.naturalWidth;
+        canvas.height = event.currentTarget.naturalHeight;
+        setHasMask(false);
+        onMaskChange(null);
+        if (initialMask) {
+            restoreMask(initialMask);
+        }
+    };
+
+    // Repaints an exported black-and-white mask as the cyan overlay used while drawing.
+    const restoreMask = (mask: string) => {
+        const maskImage = new Image();
+        maskImage.onload = () => {
+            const canvas = canvasRef.current;
+            if (!canvas) return;
+            const ctx = canvas.getContext('2d')!;
+            ctx.drawImage(maskImage, 0, 0, canvas.width, canvas.height);
+            const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+            const data = pixels.data;
+            for (let i = 0; i < data.length; i += 4) {
+                const isMasked = data[i] > 127;
+                data[i] = 34;
+                data[i + 1] = 211;
+                data[i + 2] = 238;
+                data[i + 3] = isMasked ? 255 : 0;
+            }
+            ctx.putImageData(pixels, 0, 0);
+            setHasMask(true);
+            onMaskChange(mask);
+        };
+        maskImage.src = mask;
+    };
+
+    // Maps a pointer position to the canvas' natural-resolution coordinates.
+    const toCanvasPoint = (event: React.PointerEvent<HTMLCanvasElement>): Point => {
+        const canvas = event.currentTarget;
+        const rect = canvas.getBoundingClientRect();
+        return {
+            x: (event.clientX - rect.left) * (canvas.width / rect.width),
+            y: (event.clientY - rect.top) * (canvas.height / rect.height),
+        };
+    };
+
+    const scaledBrushSize = () => {
+        const canvas = canvasRef.current!;
+        return brushSize * (canvas.width / canvas.getBoundingClientRect().width);
+    };
+
+    const paintStroke = (from: Point, to: Point) => {
+        const ctx = canvasRef.current!.getContext('2d')!;
+        ctx.strokeStyle = 'rgb(34, 211, 238)';
+        ctx.lineCap = 'round';
+        ctx.lineJoin = 'round';
+        ctx.lineWidth = scaledBrushSize();
+        ctx.beginPath();
+        ctx.moveTo(from.x, from.y);
+        ctx.lineTo(to.x, to.y);
+        ctx.stroke();
+    };
+
+    // Exports the painted area as a black-and-white PNG: white marks the product to replace.
+    const exportMask = () => {
+        const canvas = canvasRef.current!;
+        const exportCanvas = document.createElement('canvas');
+        exportCanvas.width = canvas.width;
+        exportCanvas.height = canvas.height;
+        const ctx = exportCanvas.getContext('2d')!;
+        ctx.fillStyle = 'black';
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+        ctx.filter = 'brightness(0) invert(1)';
+        ctx.drawImage(canvas, 0, 0);
+        onMaskChange(exportCanvas.toDataURL('image/png'));
+        setHasMask(true);
+    };
+
+    const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+        if (disabled) return;
+        event.currentTarget.setPointerCapture(event.pointerId);
+        const point = toCanvasPoint(event);
+        setDragStart(point);
+        setDragEnd(point);
+        if (tool === 'brush') {
+            paintStroke(point, point);
+        }
+    };
+
+    const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+        if (!dragStart || !dragEnd) return;
+        const point = toCanvasPoint(event);
+        if (tool === 'brush') {
+            paintStroke(dragEnd, point);
+        }
+        setDragEnd(point);
+    };
+
+    const handlePointerUp = () => {
+        if (!dragStart || !dragEnd) return;
+        if (tool === 'box') {
+            const ctx = canvasRef.current!.getContext('2d')!;
+            ctx.fillStyle = 'rgb(34, 211, 238)';
+            ctx.fillRect(
+                Math.min(dragStart.x, dragEnd.x),
+                Math.min(dragStart.y, dragEnd.y),
+                Math.abs(dragEnd.x - dragStart.x),
+                Math.abs(dragEnd.y - dragStart.y)
+            );
+        }
+        setDragStart(null);
+        setDragEnd(null);
+        exportMask();
+    };
+
+    const clearMask = () => {
+        const canvas = canvasRef.current!;
+        canvas.getContext('2d')!.clearRect(0, 0, canvas.width, canvas.height);
+        setHasMask(false);
+        onMaskChange(null);
+    };
+
+    // The box preview is positioned in percentages so it follows the displayed size.
+    const canvas = canvasRef.current;
+    const boxPreview = tool === 'box' && dragStart && dragEnd && canvas ? {
+        left: `${(Math.min(dragStart.x, dragEnd.x) / canvas.width) * 100}%`,
+        top: `${(Math.min(dragStart.y, dragEnd.y) / canvas.height) * 100}%`,
+        width: `${(Math.abs(dragEnd.x - dragStart.x) / canvas.width) * 100}%`,
+        height: `${(Math.abs(dragEnd.y - dragStart.y) / canvas.height) * 100}%`,
+    } : null;
+
+    return (
+        <div>
+            <div className="flex flex-wrap items-center gap-3 mb-2 text-xs text-gray-300">
+                <span className="text-gray-400">Mark the product to replace (optional):</span>
+                {(['box', 'brush'] as MaskTool[]).map(option => (
+                    <button
+                        key={option}
+                        onClick={() => setTool(option)}
+                        disabled={disabled}
+                        className={`px-2 py-1 rounded-md capitalize ${tool === option ? 'bg-cyan-600 text-white' : 'bg-gray-700 hover:bg-gray-600'}`}
+                    >
+                        {option}
+                    </button>
+                ))}
+                {tool === 'brush' && (
+                    <input
+                        type="range"
+                        min={4}
+                        max={80}
+                        value={brushSize}
+                        onChange={(e) => setBrushSize(Number(e.target.value))}
+                        title="Brush size"
+                        className="w-24 accent-cyan-500"
+                    />
+                )}
+                {hasMask && (
+                    <button onClick={clearMask} disabled={disabled} className="px-2 py-1 rounded-md bg-gray-700 hover:bg-gray-600">
+                        Clear
+                    </button>
+                )}
+            </div>
+            <div className="relative mx-auto w-fit">
+                <img src={imageSrc} onLoad={handleImageLoad} alt="Marketing creative" className="block max-w-full max-h-96 w-auto h-auto rounded-md border-2 border-gray-600"/>
+                <canvas
+                    ref={canvasRef}
+                    onPointerDown={handlePointerDown}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={handlePointerUp}
+                    className={`absolute inset-0 w-full h-full opacity-40 rounded-md touch-none ${disabled ? 'cursor-not-allowed' : 'cursor-crosshair'}`}
+                />
+                {boxPreview && <div className="absolute border-2 border-dashed border-cyan-300 pointer-events-none" style={boxPreview} />}
+            </div>
+        </div>
+    );
+};
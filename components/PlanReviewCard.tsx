@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import type { PlanProposal, ReviewedPlan } from '../services/geminiService';
+import { SparklesIcon } from './IconComponents';
+
+interface PlanReviewCardProps {
+    proposal: PlanProposal;
+    onApprove: (plan: ReviewedPlan) => void;
+    onCancel: () => void;
+}
+
+// Multi-product plans are edited per product; other plans are one instruction.
+const draftOf = (proposal: PlanProposal): string[] =>
+    proposal.productInstructions?.map(entry => entry.instruction) ?? [proposal.instruction];
+
+// The paused run's planned instruction, to approve as is or edit before the image is generated.
+export const PlanReviewCard: React.FC<PlanReviewCardProps> = ({ proposal, onApprove, onCancel }) => {
+    const [draft, setDraft] = useState<string[]>(() => draftOf(proposal));
+    const proposed = draftOf(proposal);
+    const isEdited = draft.some((text, i) => text.trim() !== proposed[i].trim());
+    const isEmpty = draft.some(text => !text.trim());
+
+    const handleApprove = () => {
+        onApprove(proposal.productInstructions
+            ? {
+                instruction: proposal.instruction,
+                productInstructions: proposal.productInstructions.map((entry, i) => ({ ...entry, instruction: draft[i] })),
+            }
+            : { instruction: draft[0] });
+    };
+
+    return (
+        <div className="w-full p-4 bg-gray-700/50 rounded-lg border border-cyan-500 text-sm">
+            <h3 className="font-semibold text-cyan-400 mb-1">
+                Review the plan{proposal.attempt && <span className="font-normal text-gray-400"> · Attempt {proposal.attempt}</span>}
+            </h3>
+            <p className="text-gray-400 mb-3">
+                {proposal.isRevision ? 'This instruction was derived from your feedback.' : 'This instruction was derived from the pre-analysis.'}
+                {' '}The image is generated from it. Edit it if it misses something, then approve it.
+            </p>
+            <div className="flex flex-col gap-3">
+                {draft.map((text, i) => (
+                    <label key={i} className="flex flex-col gap-1 text-gray-400">
+                        {proposal.productInstructions?.[i].product}
+                        <textarea
+                            value={text}
+                            onChange={(e) => setDraft(current => current.map((entry, j) => j === i ? e.target.value : entry))}
+                            rows={proposal.productInstructions ? 4 : 8}
+                            className="w-full bg-gray-900 border border-gray-600 rounded-md p-2 text-white"
+                        />
+                    </label>
+                ))}
+            </div>
+            <div className="mt-3 flex items-center justify-end gap-2">
+                {isEmpty && <span className="mr-auto text-red-400">An instruction can't be empty.</span>}
+                {isEdited && (
+                    <button onClick={() => setDraft(proposed)} className="px-3 py-1 font-medium text-gray-300 hover:text-white">
+                        Reset
+                    </button>
+                )}
+                <button onClick={onCancel} className="px-3 py-1 font-medium text-gray-300 bg-gray-600 rounded-md hover:bg-gray-500">
+                    Cancel Run
+                </button>
+                <button
+                    onClick={handleApprove}
+                    disabled={isEmpty}
+                    className="flex items-center gap-1 px-3 py-1 font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+                >
+                    <SparklesIcon className="w-4 h-4" />
+                    {isEdited ? 'Generate with Edits' : 'Approve & Generate'}
+                </button>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,213 @@
+import React, { useRef, useState } from 'react';
+import type { CatalogProduct, ImageFile, ReferenceVerdict } from '../types';
+import {
+    createProductId, deleteCatalogProduct, parseCatalog, saveCatalogProduct, serializeCatalog,
+} from '../services/productCatalog';
+import { downloadText } from '../services/download';
+
+interface ProductCatalogBarProps {
+    catalog: CatalogProduct[];
+    images: ImageFile[];
+    primaryIndex: number;
+    productName: string;
+    // The known reference check of the current images, saved along with them.
+    verdict: ReferenceVerdict | null;
+    onPick: (product: CatalogProduct) => void;
+    onCatalogChange: () => void;
+    disabled?: boolean;
+}
+
+type ProductDetails = Pick<CatalogProduct, 'name' | 'sku' | 'category' | 'notes'>;
+
+const EMPTY_DETAILS: ProductDetails = { name: '', sku: '', category: '', notes: '' };
+
+// Picks a saved reference set into Step 1, saves the current one, and moves the catalog
+// between machines as a JSON file.
+export const ProductCatalogBar: React.FC<ProductCatalogBarProps> = ({
+    catalog, images, primaryIndex, productName, verdict, onPick, onCatalogChange, disabled = false,
+}) => {
+    const [pickedId, setPickedId] = useState('');
+    const [details, setDetails] = useState<ProductDetails | null>(null);
+    const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const picked = catalog.find(product => product.id === pickedId) ?? null;
+
+    const report = (text: string, isError = false) => setMessage({ text, isError });
+
+    const handlePick = (id: string) => {
+        setPickedId(id);
+        setDetails(null);
+        setMessage(null);
+        const product = catalog.find(candidate => candidate.id === id);
+        if (product) onPick(product);
+    };
+
+    const openSaveForm = () => {
+        setMessage(null);
+        setDetails(picked
+            ? { name: picked.name, sku: picked.sku, category: picked.category, notes: picked.notes }
+            : { ...EMPTY_DETAILS, name: productName });
+    };
+
+    const handleSave = async (asNew: boolean) => {
+        if (!details) return;
+        const now = Date.now();
+        const existing = asNew ? null : picked;
+        const product: CatalogProduct = {
+            id: existing?.id ?? createProductId(),
+            ...details,
+            name: details.name.trim(),
+            images,
+            primaryIndex,
+            verdict,
+            createdAt: existing?.createdAt ?? now,
+            updatedAt: now,
+        };
+        try {
+            await saveCatalogProduct(product);
+            setPickedId(product.id);
+            setDetails(null);
+            report(`Saved "${product.name}" to the catalog.`);
+            onCatalogChange();
+        } catch (err) {
+            report(err instanceof Error ? err.message : 'The product could not be saved.', true);
+        }
+    };
+
+    const handleDelete = async () => {
+        if (!picked || !window.confirm(`Delete "${picked.name}" from the catalog?`)) return;
+        try {
+            await deleteCatalogProduct(picked.id);
+            setPickedId('');
+            setDetails(null);
+            onCatalogChange();
+        } catch (err) {
+            report(err instanceof Error ? err.message : 'The product could not be deleted.', true);
+        }
+    };
+
+    // Imported products replace saved ones with the same ID and are added otherwise.
+    const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+        try {
+            const products = parseCatalog(await file.text());
+            for (const product of products) {
+                await saveCatalogProduct(product);
+            }
+            report(`Imported ${products.length} product${products.length === 1 ? '' : 's'}.`);
+            onCatalogChange();
+        } catch (err) {
+            report(err instanceof Error ? err.message : 'The catalog could not be imported.', true);
+        }
+    };
+
+    const inputClassName = 'bg-gray-900 border border-gray-600 rounded-md p-2 text-white';
+
+    return (
+        <div className="mb-4 p-3 bg-gray-900/50 border border-gray-700 rounded-lg text-sm">
+            <div className="flex flex-wrap items-center gap-2">
+                <select
+                    value={pickedId}
+                    onChange={(e) => handlePick(e.target.value)}
+                    disabled={disabled || catalog.length === 0}
+                    className="flex-grow min-w-0 bg-gray-900 border border-gray-600 rounded-md p-2 text-white disabled:opacity-50"
+                >
+                    <option value="">{catalog.length === 0 ? 'The product catalog is empty' : 'Pick a product from the catalog…'}</option>
+                    {catalog.map(product => (
+                        <option key={product.id} value={product.id}>
+                            {product.name}{product.sku && ` · ${product.sku}`}{product.category && ` (${product.category})`}
+                        </option>
+                    ))}
+                </select>
+                <button
+                    onClick={openSaveForm}
+                    disabled={disabled || images.length === 0}
+                    className="px-3 py-2 font-medium text-gray-300 bg-gray-700 rounded-md hover:bg-gray-600 disabled:opacity-50"
+                >
+                    {picked ? 'Update…' : 'Save to Catalog…'}
+                </button>
+                {picked && (
+                    <button onClick={handleDelete} disabled={disabled} className="px-3 py-2 font-medium text-red-300 hover:text-red-200">
+                        Delete
+                    </button>
+                )}
+            </div>
+            {picked?.notes && !details && <p className="mt-2 text-xs text-gray-400 whitespace-pre-wrap">{picked.notes}</p>}
+            {details && (
+                <div className="mt-3 grid grid-cols-1 sm:grid-cols-3 gap-2">
+                    <input
+                        type="text"
+                        value={details.name}
+                        onChange={(e) => setDetails({ ...details, name: e.target.value })}
+                        placeholder="Name"
+                        className={inputClassName}
+                    />
+                    <input
+                        type="text"
+                        value={details.sku}
+                        onChange={(e) => setDetails({ ...details, sku: e.target.value })}
+                        placeholder="SKU"
+                        className={inputClassName}
+                    />
+                    <input
+                        type="text"
+                        value={details.category}
+                        onChange={(e) => setDetails({ ...details, category: e.target.value })}
+                        placeholder="Category"
+                        className={inputClassName}
+                    />
+                    <textarea
+                        value={details.notes}
+                        onChange={(e) => setDetails({ ...details, notes: e.target.value })}
+                        placeholder="Notes"
+                        rows={2}
+                        className={`${inputClassName} sm:col-span-3`}
+                    />
+                    <div className="sm:col-span-3 flex justify-end gap-2">
+                        <button onClick={() => setDetails(null)} className="px-3 py-1 font-medium text-gray-300 bg-gray-600 rounded-md hover:bg-gray-500">
+                            Cancel
+                        </button>
+                        {picked && (
+                            <button
+                                onClick={() => handleSave(true)}
+                                disabled={!details.name.trim()}
+                                className="px-3 py-1 font-medium text-gray-300 bg-gray-700 rounded-md hover:bg-gray-600 disabled:opacity-50"
+                            >
+                                Save as New
+                            </button>
+                        )}
+                        <button
+                            onClick={() => handleSave(false)}
+                            disabled={!details.name.trim()}
+                            className="px-3 py-1 font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+                        >
+                            Save
+                        </button>
+                    </div>
+                </div>
+            )}
+            <div className="mt-2 flex items-center gap-4 text-xs">
+                <button
+                    onClick={() => downloadText(serializeCatalog(catalog), 'product-catalog.json', 'application/json')}
+                    disabled={catalog.length === 0}
+                    className="font-medium text-gray-400 hover:text-white transition-colors disabled:opacity-50"
+                >
+                    Export Catalog
+                </button>
+                <button onClick={() => fileInputRef.current?.click()} disabled={disabled} className="font-medium text-gray-400 hover:text-white transition-colors">
+                    Import Catalog
+                </button>
+                <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+                {message && <span className={message.isError ? 'text-red-400' : 'text-gray-400'}>{message.text}</span>}
+                {picked?.verdict && !details && (
+                    <span className={`ml-auto ${picked.verdict.areImagesSuitable ? 'text-green-400' : 'text-yellow-400'}`} title={picked.verdict.reasoning}>
+                        {picked.verdict.areImagesSuitable ? 'References checked' : 'References flagged'}
+                    </span>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import type { ImageFile } from '../types';
+import { XCircleIcon } from './IconComponents';
+
+interface ProductImageGridProps {
+    images: ImageFile[];
+    primaryIndex: number;
+    onMove: (from: number, to: number) => void;
+    onSetPrimary: (index: number) => void;
+    onRemove: (index: number) => void;
+}
+
+// Reference thumbnails in the order they are sent to the model; drag to reorder.
+export const ProductImageGrid: React.FC<ProductImageGridProps> = ({ images, primaryIndex, onMove, onSetPrimary, onRemove }) => {
+    const [dragIndex, setDragIndex] = useState<number | null>(null);
+    const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+    const endDrag = () => {
+        setDragIndex(null);
+        setDropIndex(null);
+    };
+
+    return (
+        <div className="mt-4 grid grid-cols-3 sm:grid-cols-5 gap-4">
+            {images.map((img, index) => {
+                const isPrimary = images.length > 1 && index === primaryIndex;
+                return (
+                    <div
+                        key={index}
+                        draggable
+                        onDragStart={(e) => {
+                            e.dataTransfer.effectAllowed = 'move';
+                            setDragIndex(index);
+                        }}
+                        onDragOver={(e) => {
+                            if (dragIndex === null) return;
+                            e.preventDefault();
+                            setDropIndex(index);
+                        }}
+                        onDrop={(e) => {
+                            e.preventDefault();
+                            if (dragIndex !== null && dragIndex !== index) {
+                                onMove(dragIndex, index);
+                            }
+                            endDrag();
+                        }}
+                        onDragEnd={endDrag}
+                        className={`relative group aspect-square cursor-grab ${dragIndex === index ? 'opacity-40' : ''}`}
+                    >
+                        <img
+                            src={img.base64}
+                            alt={`Product ${index + 1}`}
+                            className={`w-full h-full object-cover rounded-md border-2 ${
+                                dropIndex === index && dragIndex !== index ? 'border-cyan-300' : isPrimary ? 'border-yellow-400' : 'border-gray-600'
+                            }`}
+                        />
+                        <span className="absolute bottom-1 left-1 text-xs font-bold px-1.5 rounded bg-gray-900/80 text-white">{index + 1}</span>
+                        {images.length > 1 && (
+                            <button
+                                onClick={() => onSetPrimary(index)}
+                                title={isPrimary ? 'Primary reference' : 'Make primary reference'}
+                                className={`absolute bottom-1 right-1 text-xs px-1.5 rounded ${
+                                    isPrimary ? 'bg-yellow-500 text-gray-900 font-bold' : 'bg-gray-900/80 text-gray-300 opacity-0 group-hover:opacity-100'
+                                }`}
+                            >
+                                {isPrimary ? 'Primary' : 'Set primary'}
+                            </button>
+                        )}
+                        <button onClick={() => onRemove(index)} className="absolute -top-2 -right-2 bg-gray-800 rounded-full text-red-500 hover:text-red-400 transition-transform duration-200 transform group-hover:scale-110">
+                            <XCircleIcon className="w-6 h-6" />
+                        </button>
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
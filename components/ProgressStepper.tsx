@@ -0,0 +1,64 @@
+import React, { useEffect, useState } from 'react';
+import type { ProgressEvent, StepStatus } from '../types';
+import { formatDuration } from '../services/progress';
+
+interface ProgressStepperProps {
+    steps: ProgressEvent[];
+}
+
+const STATUS_STYLES: Record<StepStatus, { marker: string; label: string }> = {
+    pending: { marker: 'border-gray-600 text-gray-500', label: 'text-gray-500' },
+    running: { marker: 'border-cyan-400 text-cyan-300 animate-pulse', label: 'text-white' },
+    completed: { marker: 'border-green-500 bg-green-500 text-gray-900', label: 'text-gray-300' },
+    failed: { marker: 'border-red-500 bg-red-500 text-gray-900', label: 'text-red-300' },
+    cancelled: { marker: 'border-gray-500 bg-gray-500 text-gray-900', label: 'text-gray-400' },
+};
+
+const MARKERS: Partial<Record<StepStatus, string>> = { completed: '✓', failed: '✕', cancelled: '–' };
+
+// Ticks once a second while a step is running, so its elapsed time stays current.
+const useNow = (isActive: boolean): number => {
+    const [now, setNow] = useState(() => Date.now());
+    useEffect(() => {
+        if (!isActive) return;
+        setNow(Date.now());
+        const timer = window.setInterval(() => setNow(Date.now()), 1000);
+        return () => window.clearInterval(timer);
+    }, [isActive]);
+    return now;
+};
+
+export const ProgressStepper: React.FC<ProgressStepperProps> = ({ steps }) => {
+    const now = useNow(steps.some(step => step.status === 'running'));
+    if (steps.length === 0) return null;
+    const { attempt, maxAttempts } = steps[0];
+
+    return (
+        <div className="w-full mb-4">
+            {attempt && (
+                <p className="text-xs text-gray-400 mb-2">Attempt {attempt} of {maxAttempts}</p>
+            )}
+            <ol className="flex flex-col sm:flex-row gap-3">
+                {steps.map(step => {
+                    const styles = STATUS_STYLES[step.status];
+                    const elapsed = step.startedAt !== null ? (step.finishedAt ?? now) - step.startedAt : null;
+                    return (
+                        <li key={step.stepId} className="flex-1 flex items-start gap-2" title={`${step.phase} · ${step.status}`}>
+                            <span className={`flex-shrink-0 w-6 h-6 rounded-full border-2 flex items-center justify-center text-xs font-bold ${styles.marker}`}>
+                                {MARKERS[step.status] ?? step.index}
+                            </span>
+                            <span className="text-xs">
+                                <span className={`block font-semibold ${styles.label}`}>{step.title}</span>
+                                <span className="block text-gray-500">
+                                    {elapsed !== null ? formatDuration(Math.max(0, elapsed)) : 'Waiting'}
+                                    {step.status === 'failed' && ' · failed'}
+                                    {step.status === 'cancelled' && ' · cancelled'}
+                                </span>
+                            </span>
+                        </li>
+                    );
+                })}
+            </ol>
+        </div>
+    );
+};
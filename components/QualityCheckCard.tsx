@@ -0,0 +1,77 @@
+import React from 'react';
+import type { ProductQualityCheck, QualityCheckResult, QualityCriterion } from '../types';
+import { InformationCircleIcon } from './IconComponents';
+import { averageScore, MAX_SCORE, QUALITY_CRITERIA } from '../services/qualityCheck';
+
+interface QualityCheckCardProps {
+    qualityCheck: QualityCheckResult | null;
+    attempts?: number;
+    compact?: boolean;
+    // Multi-product images: the check of each product, which `qualityCheck` combines.
+    productChecks?: ProductQualityCheck[];
+}
+
+const scoreColor = (score: number): string =>
+    score >= 8 ? 'bg-green-500' : score >= 6 ? 'bg-yellow-500' : 'bg-red-500';
+
+export const QualityCheckCard: React.FC<QualityCheckCardProps> = ({ qualityCheck, attempts = 1, compact = false, productChecks }) => {
+    if (!qualityCheck) {
+        return (
+            <p className={`${compact ? 'text-xs' : 'mt-4 text-sm'} text-gray-400`}>
+                The AI quality check could not be completed due to an error.
+            </p>
+        );
+    }
+
+    if (compact) {
+        return (
+            <p className="text-xs text-gray-300 line-clamp-4" title={qualityCheck.summary}>
+                <span className="font-semibold text-cyan-400">QA {averageScore(qualityCheck).toFixed(1)}/{MAX_SCORE}</span> {qualityCheck.summary}
+            </p>
+        );
+    }
+
+    return (
+        <div className="mt-4 p-4 bg-gray-700/50 rounded-lg border border-gray-600">
+            <h3 className="flex items-center justify-between gap-2 font-semibold text-cyan-400 mb-2">
+                <span className="flex items-center gap-2">
+                    <InformationCircleIcon className="w-6 h-6" />
+                    AI Quality Check
+                </span>
+                <span className="text-sm text-gray-300">
+                    {averageScore(qualityCheck).toFixed(1)}/{MAX_SCORE}
+                    {attempts > 1 && <span className="ml-2 text-xs text-gray-400">after {attempts} attempts</span>}
+                </span>
+            </h3>
+            <p className="text-sm text-gray-300">{qualityCheck.summary}</p>
+            <div className="mt-3 space-y-1">
+                {(Object.keys(QUALITY_CRITERIA) as QualityCriterion[]).map(criterion => (
+                    <div key={criterion} className="flex items-center gap-3 text-xs">
+                        <span className="w-36 text-gray-400">{QUALITY_CRITERIA[criterion]}</span>
+                        <div className="flex-grow h-2 bg-gray-800 rounded-full overflow-hidden">
+                            <div
+                                className={`h-full ${scoreColor(qualityCheck.scores[criterion])}`}
+                                style={{ width: `${(qualityCheck.scores[criterion] / MAX_SCORE) * 100}%` }}
+                            />
+                        </div>
+                        <span className="w-8 text-right text-gray-300">{qualityCheck.scores[criterion]}</span>
+                    </div>
+                ))}
+            </div>
+            {productChecks && productChecks.length > 1 && (
+                <div className="mt-3 flex flex-wrap gap-2 text-xs" title="Each score is the lowest product score per criterion">
+                    {productChecks.map(({ product, qualityCheck: check }) => (
+                        <span key={product} className="px-2 py-0.5 rounded bg-gray-800 text-gray-300">
+                            {product}: {check ? `${averageScore(check).toFixed(1)}/${MAX_SCORE}` : 'not checked'}
+                        </span>
+                    ))}
+                </div>
+            )}
+            {qualityCheck.defects.length > 0 && (
+                <ul className="mt-3 list-disc list-inside text-xs text-red-300 space-y-1">
+                    {qualityCheck.defects.map((defect, index) => <li key={index}>{defect}</li>)}
+                </ul>
+            )}
+        </div>
+    );
+};
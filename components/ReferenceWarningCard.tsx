@@ -0,0 +1,83 @@
+import React from 'react';
+import type { ImageSource, ReferenceAnalysis } from '../types';
+import { formatMissingViewpoints, REFERENCE_PROBLEMS, REFERENCE_VIEWPOINTS } from '../services/referenceAnalysis';
+import { ExclamationCircleIcon } from './IconComponents';
+
+// The reference check of one product's image set.
+export interface ReferenceCheck {
+    product?: string; // set for multi-product jobs
+    images: ImageSource[];
+    analysis: ReferenceAnalysis;
+}
+
+interface ReferenceWarningCardProps {
+    checks: ReferenceCheck[];
+    onCancel: () => void;
+    onContinueAnyway: () => void;
+    onContinueWithSuitable: () => void;
+}
+
+// Shown when the reference check rejects images: marks the offending thumbnails with their
+// problem and lets the user drop them, as long as every product keeps at least one image.
+export const ReferenceWarningCard: React.FC<ReferenceWarningCardProps> = ({ checks, onCancel, onContinueAnyway, onContinueWithSuitable }) => {
+    const canCurate = checks.every(({ analysis }) => analysis.images.some(image => image.isSuitable));
+
+    return (
+        <div className="text-yellow-300 bg-yellow-900/30 border border-yellow-500 p-6 rounded-lg max-w-lg">
+            <ExclamationCircleIcon className="w-12 h-12 mx-auto mb-3 text-yellow-400"/>
+            <p className="font-bold text-lg mb-4 text-center">Image Quality Warning</p>
+            <div className="space-y-4 mb-6">
+                {checks.map(({ product, images, analysis }, checkIndex) => (
+                    <div key={product ?? checkIndex}>
+                        {product && <p className="text-sm font-semibold mb-1">{product}</p>}
+                        <p className="text-sm mb-2">{analysis.reasoning}</p>
+                        <div className="grid grid-cols-5 gap-2">
+                            {images.map((image, i) => {
+                                const assessment = analysis.images[i];
+                                return (
+                                    <div
+                                        key={i}
+                                        title={`${REFERENCE_VIEWPOINTS[assessment.viewpoint]} view. ${assessment.detail}`}
+                                        className={`relative rounded-md overflow-hidden border-2 ${assessment.isSuitable ? 'border-gray-600' : 'border-red-500'}`}
+                                    >
+                                        <img src={image.base64} alt={`Product image ${i + 1}`} className={`w-full aspect-square object-cover ${assessment.isSuitable ? '' : 'opacity-60'}`} />
+                                        <span className="absolute top-0 left-0 px-1 text-xs bg-gray-900/80 text-gray-200">{i + 1}</span>
+                                        {!assessment.isSuitable && (
+                                            <span className="absolute bottom-0 inset-x-0 px-1 text-[10px] leading-tight bg-red-900/90 text-red-100 text-center">
+                                                {REFERENCE_PROBLEMS[assessment.problem]}
+                                            </span>
+                                        )}
+                                    </div>
+                                );
+                            })}
+                        </div>
+                        {analysis.missingViewpoints.length > 0 && (
+                            <p className="mt-2 text-xs text-yellow-200/80">
+                                No {formatMissingViewpoints(analysis.missingViewpoints)} view. Add one if the marketing image shows that side of the product.
+                            </p>
+                        )}
+                    </div>
+                ))}
+            </div>
+            <div className="flex flex-wrap justify-center gap-3">
+                <button
+                    onClick={onCancel}
+                    className="px-4 py-2 text-sm font-medium text-gray-200 bg-gray-600 rounded-md hover:bg-gray-500 transition-colors">
+                    Cancel
+                </button>
+                <button
+                    onClick={onContinueAnyway}
+                    className="px-4 py-2 text-sm font-medium text-white bg-yellow-600 rounded-md hover:bg-yellow-700 transition-colors">
+                    Continue Anyway
+                </button>
+                <button
+                    onClick={onContinueWithSuitable}
+                    disabled={!canCurate}
+                    title={canCurate ? undefined : 'Every product needs at least one suitable image'}
+                    className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50">
+                    Continue with Only the Good Images
+                </button>
+            </div>
+        </div>
+    );
+};
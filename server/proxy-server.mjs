@@ -0,0 +1,7 @@
+#!/usr/bin/env node
+// Runs the TypeScript proxy server through tsx, so it shares the app's provider code as-is.
+import { register } from 'tsx/esm/api';
+
+register();
+const { main } = await import('./proxyServer.ts');
+process.exitCode = await main(process.argv.slice(2));
@@ -0,0 +1,317 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { parseArgs } from 'node:util';
+import { config as loadEnv } from 'dotenv';
+import type { InlineImage, ModelProvider, ModelRequest, ModelTask, ResponseSchema } from '../services/modelProvider';
+import { ModelCallError } from '../services/errors';
+import {
+  BRAND_COMPLIANCE_PROMPT, CONSISTENCY_ANALYSIS_PROMPT, FEEDBACK_ANALYSIS_PROMPT, MULTI_PRODUCT_ANALYSIS_PROMPT,
+  MULTI_PRODUCT_FEEDBACK_PROMPT, MULTI_PRODUCT_QUALITY_CHECK_PROMPT, MULTI_PRODUCT_REPLACEMENT_PROMPT, OUTPAINT_PROMPT,
+  PRODUCT_REPLACEMENT_PROMPT, PromptTemplate, QUALITY_CHECK_PROMPT, REFERENCE_ANALYSIS_PROMPT, renderUntrustedPrompt,
+} from '../services/prompts';
+import { PROXY_ROUTES, ProxyRequestBody, ProxyResponseBody } from '../services/providers/httpProvider';
+import { createServerProvider, isServerProviderName } from '../services/providers/serverProvider';
+import { createRateLimiter, RateLimitOptions } from './rateLimit';
+
+export const EXIT_OK = 0;
+export const EXIT_FAILURE = 1;
+export const EXIT_USAGE = 2;
+
+export const DEFAULT_PORT = 8787;
+// Five 2048px references, the marketing image and its mask, base64-encoded, fit comfortably.
+export const DEFAULT_MAX_BODY_BYTES = 25 * 1024 * 1024;
+// In development every browser request arrives through the dev server's /api proxy, so the
+// whole app is one client. A batch of five jobs with four variants and three attempts each
+// makes about 200 calls, so the default leaves room for that.
+export const DEFAULT_RATE_LIMIT: RateLimitOptions = { windowMs: 60_000, maxRequests: 300 };
+const MAX_IMAGES = 15;
+// The app's schemas nest three levels deep; deeper ones are refused rather than recursed into.
+const MAX_SCHEMA_DEPTH = 8;
+const SCHEMA_TYPES = new Set<unknown>(['object', 'array', 'string', 'number', 'integer', 'boolean']);
+
+// The prompts each route renders. Clients name a template and send its variables; any other
+// template is refused, so the API key is only spent on the app's own prompts.
+const ROUTE_TEMPLATES: Record<ModelTask, PromptTemplate<never>[]> = {
+  referenceAnalysis: [REFERENCE_ANALYSIS_PROMPT],
+  instruction: [CONSISTENCY_ANALYSIS_PROMPT, FEEDBACK_ANALYSIS_PROMPT, MULTI_PRODUCT_ANALYSIS_PROMPT, MULTI_PRODUCT_FEEDBACK_PROMPT],
+  imageGeneration: [PRODUCT_REPLACEMENT_PROMPT, MULTI_PRODUCT_REPLACEMENT_PROMPT, OUTPAINT_PROMPT],
+  qualityCheck: [QUALITY_CHECK_PROMPT, MULTI_PRODUCT_QUALITY_CHECK_PROMPT],
+  brandCheck: [BRAND_COMPLIANCE_PROMPT],
+};
+
+const USAGE = `
+Usage: npm run server -- [options]
+
+Serves the model calls of the app, so the API key stays on the server.
+
+Options:
+  --port <n>          Port to listen on (default: $PROXY_PORT or ${DEFAULT_PORT})
+  --host <name>       Interface to listen on (default: 127.0.0.1)
+  --provider <name>   Model provider: "gemini" (default) or "mock"
+  --max-body-mb <n>   Reject requests larger than this (default: ${DEFAULT_MAX_BODY_BYTES / (1024 * 1024)})
+  --rate-limit <n>    Requests per client per minute (default: ${DEFAULT_RATE_LIMIT.maxRequests})
+  --trust-proxy       Identify clients by X-Forwarded-For, when behind a reverse proxy
+  -h, --help          Show this help
+
+Routes (POST, JSON body { images, template: { id, version }, vars, responseSchema? }):
+${Object.values(PROXY_ROUTES).map(route => `  /api${route}`).join('\n')}
+
+The server renders every prompt itself from the app's templates and only accepts the
+templates of the route. Variables such as user feedback are still text of the client's
+choosing: the prompts delimit them and tell the model to treat them as data, which limits
+but doesn't rule out prompt injection. Don't expose the server to untrusted clients.
+`;
+
+export interface ProxyServerOptions {
+  provider: ModelProvider;
+  basePath?: string;
+  maxBodyBytes?: number;
+  rateLimit?: RateLimitOptions;
+  // Only enable behind a proxy that sets X-Forwarded-For; otherwise clients could pick their own ID.
+  trustProxy?: boolean;
+}
+
+// A request the server refuses, with the HTTP status to refuse it with.
+class HttpError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+  }
+}
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const readBody = (req: IncomingMessage, maxBytes: number): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const tooLarge = () => new HttpError(413, `The request is larger than ${Math.round(maxBytes / (1024 * 1024))} MB.`);
+    if (Number(req.headers['content-length'] ?? 0) > maxBytes) {
+      reject(tooLarge());
+      return;
+    }
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        // Keep draining without buffering, so the 413 response can still be delivered
+        req.removeAllListeners('data');
+        req.resume();
+        reject(tooLarge());
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+
+const isInlineImage = (value: unknown): value is InlineImage => {
+  if (typeof value !== 'object' || value === null) return false;
+  const image = value as Record<string, unknown>;
+  return typeof image.mimeType === 'string' && image.mimeType.startsWith('image/') && typeof image.data === 'string';
+};
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(entry => typeof entry === 'string');
+
+// Checks the whole schema up front, so a malformed one is refused with a 400 rather than
+// failing inside the provider.
+const isResponseSchema = (value: unknown, depth = 0): value is ResponseSchema => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value) || depth > MAX_SCHEMA_DEPTH) return false;
+  const schema = value as Record<string, unknown>;
+  const { properties, items } = schema;
+  return SCHEMA_TYPES.has(schema.type) &&
+    (schema.description === undefined || typeof schema.description === 'string') &&
+    (schema.required === undefined || isStringArray(schema.required)) &&
+    (schema.enum === undefined || isStringArray(schema.enum)) &&
+    (properties === undefined || (
+      typeof properties === 'object' && properties !== null && !Array.isArray(properties) &&
+      Object.values(properties).every(property => isResponseSchema(property, depth + 1))
+    )) &&
+    (items === undefined || isResponseSchema(items, depth + 1));
+};
+
+// Checks the body and renders its prompt, which is attached after the images as the app does.
+const parseRequestBody = (json: string, task: ModelTask): Omit<ModelRequest, 'task' | 'signal'> => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new HttpError(400, 'The request body is not valid JSON.');
+  }
+  const body = data as Partial<ProxyRequestBody> | null;
+  if (!Array.isArray(body?.images) || body.images.length === 0 || body.images.length > MAX_IMAGES || !body.images.every(isInlineImage)) {
+    throw new HttpError(400, `Expected 1 to ${MAX_IMAGES} images.`);
+  }
+  const { id, version } = body.template ?? {};
+  const template = ROUTE_TEMPLATES[task].find(candidate => candidate.id === id);
+  if (!template) {
+    throw new HttpError(400, `${PROXY_ROUTES[task]} doesn't render the prompt "${String(id)}".`);
+  }
+  if (version !== template.version) {
+    throw new HttpError(400, `The server has version ${template.version} of the prompt "${template.id}", not ${String(version)}. Update the app and the server together.`);
+  }
+  const prompt = renderUntrustedPrompt(template, body.vars);
+  if (!prompt) {
+    throw new HttpError(400, `vars don't match the variables of the prompt "${template.id}".`);
+  }
+  if (body.responseSchema !== undefined && !isResponseSchema(body.responseSchema)) {
+    throw new HttpError(400, 'responseSchema is not a valid response schema.');
+  }
+  return {
+    parts: [...body.images.map(inlineData => ({ inlineData })), { text: prompt.text }],
+    prompt,
+    responseSchema: body.responseSchema,
+  };
+};
+
+const clientIdOf = (req: IncomingMessage, trustProxy: boolean): string => {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (trustProxy && typeof forwarded === 'string') {
+    return forwarded.split(',')[0].trim();
+  }
+  return req.socket.remoteAddress ?? 'unknown';
+};
+
+export const createProxyServer = ({
+  provider,
+  basePath = '/api',
+  maxBodyBytes = DEFAULT_MAX_BODY_BYTES,
+  rateLimit = DEFAULT_RATE_LIMIT,
+  trustProxy = false,
+}: ProxyServerOptions): Server => {
+  const limiter = createRateLimiter(rateLimit);
+  const routes = new Map(
+    (Object.entries(PROXY_ROUTES) as [ModelTask, string][]).map(([task, route]) => [`${basePath}${route}`, task])
+  );
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+    if (req.method === 'GET' && pathname === `${basePath}/health`) {
+      sendJson(res, 200, { status: 'ok', provider: provider.name });
+      return;
+    }
+    const task = routes.get(pathname);
+    if (!task) {
+      throw new HttpError(404, `No route for ${pathname}.`);
+    }
+    if (req.method !== 'POST') {
+      res.setHeader('Allow', 'POST');
+      throw new HttpError(405, 'Use POST.');
+    }
+
+    const decision = limiter.check(clientIdOf(req, trustProxy));
+    res.setHeader('X-RateLimit-Limit', String(rateLimit.maxRequests));
+    res.setHeader('X-RateLimit-Remaining', String(decision.remaining));
+    if (!decision.allowed) {
+      res.setHeader('Retry-After', String(Math.ceil(decision.retryAfterMs / 1000)));
+      throw new HttpError(429, 'Too many requests. Try again shortly.');
+    }
+
+    const body = parseRequestBody(await readBody(req, maxBodyBytes), task);
+    // Stop the model call when the app gives up on it (cancel or timeout)
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableEnded) controller.abort();
+    });
+    const response = await provider.generate({
+      task,
+      parts: body.parts,
+      prompt: body.prompt,
+      // Only the analysis and check routes answer in JSON
+      responseSchema: task === 'imageGeneration' ? undefined : body.responseSchema,
+      signal: controller.signal,
+    });
+    const result: ProxyResponseBody = {
+      model: provider.modelFor(task),
+      text: response.text,
+      image: response.image,
+      tokens: response.tokens,
+      signals: response.signals,
+    };
+    sendJson(res, 200, result);
+  };
+
+  return createServer((req, res) => {
+    handle(req, res).catch(error => {
+      if (res.headersSent || res.destroyed) return;
+      if (error instanceof HttpError) {
+        sendJson(res, error.status, { error: error.message }, error.status === 413 ? { Connection: 'close' } : {});
+      } else if (error instanceof ModelCallError && error.status !== undefined && error.status >= 400) {
+        // Passed through, so the app's retry policy sees rate limits and server errors as such
+        sendJson(res, error.status, { error: error.message }, error.retryAfterMs !== undefined
+          ? { 'Retry-After': String(Math.ceil(error.retryAfterMs / 1000)) }
+          : {});
+      } else {
+        console.error('Model call failed:', error);
+        sendJson(res, 502, { error: 'The model call failed.' });
+      }
+    });
+  });
+};
+
+export const main = async (argv: string[]): Promise<number> => {
+  loadEnv({ path: ['.env.local', '.env'] });
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      port: { type: 'string' },
+      host: { type: 'string', default: '127.0.0.1' },
+      provider: { type: 'string', default: 'gemini' },
+      'max-body-mb': { type: 'string' },
+      'rate-limit': { type: 'string' },
+      'trust-proxy': { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+  if (values.help) {
+    console.log(USAGE.trim());
+    return EXIT_OK;
+  }
+
+  const port = Number(values.port ?? process.env.PROXY_PORT ?? DEFAULT_PORT);
+  const maxBodyMb = Number(values['max-body-mb'] ?? DEFAULT_MAX_BODY_BYTES / (1024 * 1024));
+  const maxRequests = Number(values['rate-limit'] ?? DEFAULT_RATE_LIMIT.maxRequests);
+  if (!Number.isInteger(port) || port < 0 || port > 65535 || !(maxBodyMb > 0) || !Number.isInteger(maxRequests) || maxRequests < 1) {
+    console.error('--port must be a valid port, --max-body-mb positive and --rate-limit a positive integer.');
+    return EXIT_USAGE;
+  }
+  if (!isServerProviderName(values.provider)) {
+    console.error(`Unknown provider "${values.provider}". Use "gemini" or "mock".`);
+    return EXIT_USAGE;
+  }
+
+  let provider: ModelProvider;
+  try {
+    provider = createServerProvider(values.provider);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    return EXIT_FAILURE;
+  }
+  const server = createProxyServer({
+    provider,
+    maxBodyBytes: maxBodyMb * 1024 * 1024,
+    rateLimit: { ...DEFAULT_RATE_LIMIT, maxRequests },
+    trustProxy: values['trust-proxy'],
+  });
+
+  return new Promise(resolve => {
+    server.on('error', error => {
+      console.error(error.message);
+      resolve(EXIT_FAILURE);
+    });
+    server.listen(port, values.host, () => {
+      const address = server.address();
+      const boundPort = typeof address === 'object' && address ? address.port : port;
+      console.error(`Proxy server (${provider.name}) listening on http://${values.host}:${boundPort}/api`);
+    });
+    const shutdown = () => server.close(() => resolve(EXIT_OK));
+    process.once('SIGINT', shutdown);
+    process.once('SIGTERM', shutdown);
+  });
+};
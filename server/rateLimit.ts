@@ -0,0 +1,42 @@
+export interface RateLimitOptions {
+  windowMs: number;
+  maxRequests: number; // per client and window
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  remaining: number;
+  retryAfterMs: number; // until the client's window resets
+}
+
+export interface RateLimiter {
+  check: (clientId: string, now?: number) => RateLimitDecision;
+}
+
+// Fixed-window counter per client. Windows of idle clients are dropped as they expire,
+// so memory stays bounded by the number of recently active clients.
+export const createRateLimiter = ({ windowMs, maxRequests }: RateLimitOptions): RateLimiter => {
+  const windows = new Map<string, { startedAt: number; count: number }>();
+
+  const prune = (now: number) => {
+    for (const [clientId, window] of windows) {
+      if (now - window.startedAt >= windowMs) {
+        windows.delete(clientId);
+      }
+    }
+  };
+
+  return {
+    check: (clientId, now = Date.now()) => {
+      prune(now);
+      const window = windows.get(clientId) ?? { startedAt: now, count: 0 };
+      windows.set(clientId, window);
+      const retryAfterMs = window.startedAt + windowMs - now;
+      if (window.count >= maxRequests) {
+        return { allowed: false, remaining: 0, retryAfterMs };
+      }
+      window.count += 1;
+      return { allowed: true, remaining: maxRequests - window.count, retryAfterMs };
+    },
+  };
+};
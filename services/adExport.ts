@@ -0,0 +1,251 @@
+import { LogEntry } from '../types';
+import { getPixels, loadImage, unionMasks } from './imageUtils';
+import { embedProvenance, ExportFormat, ProvenanceMetadata } from './imageMetadata';
+import { outpaintImage } from './geminiService';
+import { CallOptions } from './modelCall';
+
+// Output sizes follow the recommended upload sizes of the major ad platforms.
+export interface ExportPreset {
+  id: string;
+  label: string; // the aspect ratio, as platforms name it
+  placement: string;
+  width: number;
+  height: number;
+}
+
+export const EXPORT_PRESETS: ExportPreset[] = [
+  { id: 'square', label: '1:1', placement: 'Feed posts', width: 1080, height: 1080 },
+  { id: 'portrait', label: '4:5', placement: 'Portrait feed posts', width: 1080, height: 1350 },
+  { id: 'story', label: '9:16', placement: 'Stories and Reels', width: 1080, height: 1920 },
+  { id: 'landscape', label: '1.91:1', placement: 'Link ads and display', width: 1200, height: 628 },
+];
+
+// How an image is fitted to a preset with a different aspect ratio: cropped around its
+// most important content, or extended by the image model.
+export type FitMode = 'crop' | 'outpaint';
+
+export interface ExportSettings {
+  fit: FitMode;
+  format: ExportFormat;
+  quality: number; // 0-1; ignored for PNG
+}
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = { fit: 'crop', format: 'jpeg', quality: 0.9 };
+
+export const FORMAT_EXTENSIONS: Record<ExportFormat, string> = { png: 'png', jpeg: 'jpg', webp: 'webp' };
+
+export interface ExportedFile {
+  preset: ExportPreset;
+  filename: string;
+  mimeType: string;
+  bytes: Uint8Array<ArrayBuffer>;
+}
+
+export interface ExportRequest {
+  image: string; // data URL of the approved image
+  presets: ExportPreset[];
+  settings: ExportSettings;
+  // Regions that must survive a crop, e.g. the replaced products' masks.
+  focusMasks: string[];
+  metadata: Omit<ProvenanceMetadata, 'preset' | 'createdAt'>;
+  baseName: string;
+  // Where outpainting log entries start numbering; they continue the job's log.
+  firstLogStep: number;
+  callOptions?: CallOptions;
+}
+
+interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Crop analysis runs on a small copy; it only has to place the window, not render it.
+const ANALYSIS_MAX_SIZE = 256;
+// Aspect ratios closer than this are resized without cropping or outpainting.
+const ASPECT_TOLERANCE = 0.01;
+// Fill of the padding the image model is asked to paint over.
+const OUTPAINT_FILL = '#808080';
+// How much more a pixel inside a focus mask weighs than the most detailed pixel outside it.
+const FOCUS_WEIGHT = 10;
+
+// Places the largest window of the given aspect ratio so it covers as much weight as
+// possible. Weights are per pixel of a width x height map; ties go to the centred window.
+export const findCropWindow = (weights: Float32Array, width: number, height: number, aspect: number): Rect => {
+  let cropWidth = width;
+  let cropHeight = Math.round(width / aspect);
+  if (cropHeight > height) {
+    cropHeight = height;
+    cropWidth = Math.round(height * aspect);
+  }
+  const slidesHorizontally = cropWidth < width;
+  const lines = slidesHorizontally ? width : height;
+  const windowLength = slidesHorizontally ? cropWidth : cropHeight;
+
+  const lineSums = new Float64Array(lines);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      lineSums[slidesHorizontally ? x : y] += weights[y * width + x];
+    }
+  }
+  let windowSum = lineSums.slice(0, windowLength).reduce((sum, value) => sum + value, 0);
+  const centre = (lines - windowLength) / 2;
+  let best = { offset: 0, sum: windowSum };
+  for (let offset = 1; offset <= lines - windowLength; offset++) {
+    windowSum += lineSums[offset + windowLength - 1] - lineSums[offset - 1];
+    const isBetter = windowSum > best.sum + 1e-6 ||
+      (Math.abs(windowSum - best.sum) <= 1e-6 && Math.abs(offset - centre) < Math.abs(best.offset - centre));
+    if (isBetter) best = { offset, sum: windowSum };
+  }
+  return slidesHorizontally
+    ? { x: best.offset, y: 0, width: cropWidth, height: cropHeight }
+    : { x: 0, y: best.offset, width: cropWidth, height: cropHeight };
+};
+
+// Weighs each pixel by local detail (luminance gradient), so flat background is cropped
+// first, and pixels inside the focus mask far above everything else.
+const buildCropWeights = (image: HTMLImageElement, width: number, height: number, focusMask: HTMLImageElement | null): Float32Array => {
+  const pixels = getPixels(image, width, height).data;
+  const luminance = new Float32Array(width * height);
+  for (let i = 0; i < luminance.length; i++) {
+    luminance[i] = 0.299 * pixels[i * 4] + 0.587 * pixels[i * 4 + 1] + 0.114 * pixels[i * 4 + 2];
+  }
+  const weights = new Float32Array(width * height);
+  let maxWeight = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      weights[i] = Math.abs(luminance[i + 1] - luminance[i - 1]) + Math.abs(luminance[i + width] - luminance[i - width]);
+      maxWeight = Math.max(maxWeight, weights[i]);
+    }
+  }
+  const mask = focusMask ? getPixels(focusMask, width, height).data : null;
+  for (let i = 0; i < weights.length; i++) {
+    weights[i] = (maxWeight > 0 ? weights[i] / maxWeight : 0) + (mask ? (mask[i * 4] / 255) * FOCUS_WEIGHT : 0);
+  }
+  return weights;
+};
+
+const smartCrop = (image: HTMLImageElement, aspect: number, focusMask: HTMLImageElement | null): Rect => {
+  const { naturalWidth: width, naturalHeight: height } = image;
+  const scale = Math.min(1, ANALYSIS_MAX_SIZE / Math.max(width, height));
+  const analysisWidth = Math.max(1, Math.round(width * scale));
+  const analysisHeight = Math.max(1, Math.round(height * scale));
+  const window = findCropWindow(buildCropWeights(image, analysisWidth, analysisHeight, focusMask), analysisWidth, analysisHeight, aspect);
+
+  // The window's size is recomputed at full resolution so the aspect ratio stays exact
+  const cropWidth = Math.min(width, Math.round(height * aspect));
+  const cropHeight = Math.min(height, Math.round(width / aspect));
+  return {
+    x: Math.min(width - cropWidth, Math.round(window.x / scale)),
+    y: Math.min(height - cropHeight, Math.round(window.y / scale)),
+    width: cropWidth,
+    height: cropHeight,
+  };
+};
+
+const createCanvas = (width: number, height: number): [HTMLCanvasElement, CanvasRenderingContext2D] => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+  ctx.imageSmoothingQuality = 'high';
+  return [canvas, ctx];
+};
+
+// Centres the image on a canvas of the target aspect ratio, padded with a flat fill.
+const padToAspect = (image: HTMLImageElement, aspect: number): { canvas: HTMLCanvasElement; inner: Rect } => {
+  const { naturalWidth: width, naturalHeight: height } = image;
+  const paddedWidth = Math.max(width, Math.round(height * aspect));
+  const paddedHeight = Math.max(height, Math.round(width / aspect));
+  const [canvas, ctx] = createCanvas(paddedWidth, paddedHeight);
+  ctx.fillStyle = OUTPAINT_FILL;
+  ctx.fillRect(0, 0, paddedWidth, paddedHeight);
+  const inner = { x: Math.round((paddedWidth - width) / 2), y: Math.round((paddedHeight - height) / 2), width, height };
+  ctx.drawImage(image, inner.x, inner.y);
+  return { canvas, inner };
+};
+
+// Has the model paint the padding, then puts the original back on top, so the approved
+// content is never altered by the extension.
+const outpaint = async (
+  image: HTMLImageElement,
+  preset: ExportPreset,
+  step: number,
+  callOptions?: CallOptions
+): Promise<{ canvas: HTMLCanvasElement; log: LogEntry }> => {
+  const { canvas: padded, inner } = padToAspect(image, preset.width / preset.height);
+  const { image: extended, log } = await outpaintImage(
+    { base64: padded.toDataURL('image/png') },
+    `${preset.label} (${preset.placement})`,
+    step,
+    callOptions
+  );
+  const extendedImage = await loadImage(`data:image/png;base64,${extended}`);
+  const [canvas, ctx] = createCanvas(padded.width, padded.height);
+  ctx.drawImage(extendedImage, 0, 0, padded.width, padded.height);
+  ctx.drawImage(image, inner.x, inner.y);
+  return { canvas, log };
+};
+
+const encodeCanvas = (canvas: HTMLCanvasElement, format: ExportFormat, quality: number): Promise<Uint8Array<ArrayBuffer>> =>
+  new Promise((resolve, reject) => {
+    const mimeType = `image/${format}`;
+    canvas.toBlob(blob => {
+      // Browsers fall back to PNG for types they can't encode
+      if (!blob || blob.type !== mimeType) {
+        reject(new Error(`This browser can't encode ${format.toUpperCase()} images. Choose another format.`));
+        return;
+      }
+      blob.arrayBuffer().then(buffer => resolve(new Uint8Array(buffer)), reject);
+    }, mimeType, format === 'png' ? undefined : quality);
+  });
+
+// Renders, encodes and tags the approved image for each preset, one after another so that
+// outpainting calls (and their cost) stay in order. Returns the files and any model logs.
+export const exportForPresets = async ({
+  image, presets, settings, focusMasks, metadata, baseName, firstLogStep, callOptions,
+}: ExportRequest): Promise<{ files: ExportedFile[]; logs: LogEntry[] }> => {
+  const source = await loadImage(image);
+  const focusMask = focusMasks.length > 0 ? await loadImage(await unionMasks(focusMasks)) : null;
+  const files: ExportedFile[] = [];
+  const logs: LogEntry[] = [];
+
+  for (const preset of presets) {
+    const aspect = preset.width / preset.height;
+    const sourceAspect = source.naturalWidth / source.naturalHeight;
+    let frame: CanvasImageSource = source;
+    let region: Rect = { x: 0, y: 0, width: source.naturalWidth, height: source.naturalHeight };
+    const models = [...metadata.models];
+
+    if (Math.abs(sourceAspect - aspect) / aspect > ASPECT_TOLERANCE) {
+      if (settings.fit === 'outpaint') {
+        const { canvas, log } = await outpaint(source, preset, firstLogStep + logs.length, callOptions);
+        logs.push(log);
+        if (!models.includes(log.model)) models.push(log.model);
+        frame = canvas;
+        region = { x: 0, y: 0, width: canvas.width, height: canvas.height };
+      } else {
+        region = smartCrop(source, aspect, focusMask);
+      }
+    }
+
+    const [canvas, ctx] = createCanvas(preset.width, preset.height);
+    ctx.drawImage(frame, region.x, region.y, region.width, region.height, 0, 0, preset.width, preset.height);
+    const encoded = await encodeCanvas(canvas, settings.format, settings.quality);
+    const bytes = embedProvenance(encoded, settings.format, {
+      ...metadata,
+      models,
+      preset: `${preset.id} ${preset.width}x${preset.height}`,
+      createdAt: Date.now(),
+    }, preset);
+    files.push({
+      preset,
+      filename: `${baseName}-${preset.id}-${preset.width}x${preset.height}.${FORMAT_EXTENSIONS[settings.format]}`,
+      mimeType: `image/${settings.format}`,
+      bytes,
+    });
+  }
+  return { files, logs };
+};
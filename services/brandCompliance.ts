@@ -0,0 +1,213 @@
+import { BrandGuidelines, ComplianceItem, ComplianceResult } from '../types';
+import { ResponseSchema } from './modelProvider';
+import { getPixels, loadImage } from './imageUtils';
+
+// Palette measurement runs on a small copy; colors don't need full resolution.
+const ANALYSIS_MAX_SIZE = 256;
+// CIE76 distance (in Lab) within which a measured color counts as the brand color. Around
+// 2.3 is just noticeable; 10 allows for the scene's lighting while catching hue shifts.
+export const PALETTE_TOLERANCE = 10;
+// Share of the measured pixels a color needs to count as one of the image's dominant colors.
+const MIN_DOMINANT_SHARE = 0.005;
+// Colors are grouped into buckets of 8 levels per channel before they are compared.
+const BUCKET_SHIFT = 3;
+
+export const normalizeHexColor = (value: string): string | null => {
+  const match = value.trim().match(/^#?([0-9a-f]{3}|[0-9a-f]{6})$/i);
+  if (!match) return null;
+  const hex = match[1].length === 3 ? match[1].split('').map(digit => digit + digit).join('') : match[1];
+  return `#${hex.toLowerCase()}`;
+};
+
+const hexToRgb = (hex: string): [number, number, number] => {
+  const value = parseInt(hex.slice(1), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+const rgbToHex = (rgb: number[]): string =>
+  `#${rgb.map(channel => Math.round(channel).toString(16).padStart(2, '0')).join('')}`;
+
+// sRGB (D65) to CIE Lab.
+const rgbToLab = ([r, g, b]: number[]): [number, number, number] => {
+  const linear = [r, g, b].map(channel => {
+    const c = channel / 255;
+    return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+  });
+  const x = (0.4124 * linear[0] + 0.3576 * linear[1] + 0.1805 * linear[2]) / 0.95047;
+  const y = 0.2126 * linear[0] + 0.7152 * linear[1] + 0.0722 * linear[2];
+  const z = (0.0193 * linear[0] + 0.1192 * linear[1] + 0.9505 * linear[2]) / 1.08883;
+  const f = (t: number) => (t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116);
+  return [116 * f(y) - 16, 500 * (f(x) - f(y)), 200 * (f(y) - f(z))];
+};
+
+const deltaE = (a: number[], b: number[]): number => Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+
+export interface PaletteMeasurement {
+  color: string; // the brand color
+  closestColor: string | null; // the nearest dominant color of the image, null if it has none
+  deltaE: number; // distance to it; Infinity without one
+  coverage: number; // 0-100: share of the measured pixels within PALETTE_TOLERANCE of the brand color
+  passed: boolean;
+}
+
+// Finds, for each brand color, the nearest of the image's dominant colors. Only pixels where
+// `region` is set are measured (all of them without a region). RGBA pixels, as in ImageData.
+export const measurePalette = (pixels: Uint8ClampedArray, region: Uint8Array | null, palette: string[]): PaletteMeasurement[] => {
+  const buckets = new Map<number, { count: number; sum: [number, number, number] }>();
+  let total = 0;
+  for (let i = 0; i < pixels.length / 4; i++) {
+    if (region && !region[i]) continue;
+    const [r, g, b] = [pixels[i * 4], pixels[i * 4 + 1], pixels[i * 4 + 2]];
+    const key = ((r >> BUCKET_SHIFT) << 10) | ((g >> BUCKET_SHIFT) << 5) | (b >> BUCKET_SHIFT);
+    const bucket = buckets.get(key) ?? { count: 0, sum: [0, 0, 0] };
+    bucket.count++;
+    bucket.sum[0] += r;
+    bucket.sum[1] += g;
+    bucket.sum[2] += b;
+    buckets.set(key, bucket);
+    total++;
+  }
+  const colors = [...buckets.values()].map(({ count, sum }) => {
+    const rgb = sum.map(channel => channel / count);
+    return { rgb, lab: rgbToLab(rgb), share: count / Math.max(1, total) };
+  });
+  const dominant = colors.filter(color => color.share >= MIN_DOMINANT_SHARE);
+
+  return palette.map(color => {
+    const lab = rgbToLab(hexToRgb(color));
+    let closest: { rgb: number[]; distance: number } | null = null;
+    for (const candidate of dominant) {
+      const distance = deltaE(lab, candidate.lab);
+      if (!closest || distance < closest.distance) closest = { rgb: candidate.rgb, distance };
+    }
+    const coverage = colors
+      .filter(candidate => deltaE(lab, candidate.lab) <= PALETTE_TOLERANCE)
+      .reduce((sum, candidate) => sum + candidate.share, 0) * 100;
+    return {
+      color,
+      closestColor: closest ? rgbToHex(closest.rgb) : null,
+      deltaE: closest?.distance ?? Infinity,
+      coverage,
+      passed: closest !== null && closest.distance <= PALETTE_TOLERANCE,
+    };
+  });
+};
+
+// Measures the generated image's colors against the palette, inside the product region when
+// a mask is given (the scene around the product isn't expected to be on-brand). Needs a canvas.
+export const measureImagePalette = async (imageSrc: string, palette: string[], maskSrc?: string): Promise<PaletteMeasurement[]> => {
+  const [image, mask] = await Promise.all([loadImage(imageSrc), maskSrc ? loadImage(maskSrc) : Promise.resolve(null)]);
+  const scale = Math.min(1, ANALYSIS_MAX_SIZE / Math.max(image.naturalWidth, image.naturalHeight));
+  const width = Math.max(1, Math.round(image.naturalWidth * scale));
+  const height = Math.max(1, Math.round(image.naturalHeight * scale));
+  const pixels = getPixels(image, width, height).data;
+  let region: Uint8Array | null = null;
+  if (mask) {
+    const maskPixels = getPixels(mask, width, height).data;
+    region = new Uint8Array(width * height).map((_, i) => (maskPixels[i * 4] > 127 ? 1 : 0));
+  }
+  return measurePalette(pixels, region, palette);
+};
+
+export const paletteItems = (measurements: PaletteMeasurement[]): ComplianceItem[] =>
+  measurements.map(measurement => ({
+    category: 'palette',
+    label: `Brand color ${measurement.color}`,
+    passed: measurement.passed,
+    detail: measurement.closestColor
+      ? `Closest color ${measurement.closestColor} (ΔE ${measurement.deltaE.toFixed(1)}), ${measurement.coverage.toFixed(1)}% of the measured area within tolerance.`
+      : 'No measurable colors.',
+    source: 'local',
+  }));
+
+const judgement = (description: string): ResponseSchema => ({
+  type: 'object',
+  properties: {
+    passed: { type: 'boolean', description },
+    detail: { type: 'string', description: 'One short sentence explaining the verdict.' },
+  },
+  required: ['passed', 'detail'],
+});
+
+const listJudgement = (description: string): ResponseSchema => ({
+  type: 'array',
+  description: 'One entry per listed item, in the order listed.',
+  items: {
+    type: 'object',
+    properties: {
+      number: { type: 'integer', description: 'The number of the listed item, starting at 1.' },
+      passed: { type: 'boolean', description },
+      detail: { type: 'string', description: 'One short sentence explaining the verdict.' },
+    },
+    required: ['number', 'passed', 'detail'],
+  },
+});
+
+// Only asks about the parts of the guidelines the profile defines.
+export const brandComplianceSchema = (guidelines: BrandGuidelines): ResponseSchema => {
+  const properties: Record<string, ResponseSchema> = {
+    summary: { type: 'string', description: 'A one-sentence verdict on the image\'s brand compliance.' },
+  };
+  if (guidelines.logos.length > 0) {
+    properties.logo = judgement('Whether every visible logo matches the logo references, undistorted.');
+  }
+  if (guidelines.palette.length > 0) {
+    properties.palette = judgement('Whether the product and branded elements use the brand palette without off-brand colors.');
+  }
+  if (guidelines.forbiddenElements.length > 0) {
+    properties.forbiddenElements = listJudgement('True if the forbidden element does NOT appear anywhere in the image.');
+  }
+  if (guidelines.requiredText.length > 0) {
+    properties.requiredText = listJudgement('True if the text appears on the packaging exactly as written and legibly.');
+  }
+  return { type: 'object', properties, required: Object.keys(properties) };
+};
+
+const parseJudgement = (value: unknown, name: string): { passed: boolean; detail: string } => {
+  const entry = value as { passed?: unknown; detail?: unknown } | null;
+  if (typeof entry?.passed !== 'boolean') {
+    throw new Error(`Brand check returned no verdict for "${name}".`);
+  }
+  return { passed: entry.passed, detail: typeof entry.detail === 'string' ? entry.detail : '' };
+};
+
+const parseListJudgements = (value: unknown, items: string[], name: string): { passed: boolean; detail: string }[] => {
+  if (!Array.isArray(value)) {
+    throw new Error(`Brand check returned no ${name} list.`);
+  }
+  return items.map((item, i) => parseJudgement(value.find(entry => entry?.number === i + 1), item));
+};
+
+// Parses the judge's JSON answer into pass/fail items, checked against brandComplianceSchema.
+export const parseBrandCompliance = (jsonText: string, guidelines: BrandGuidelines): { summary: string; items: ComplianceItem[] } => {
+  const json = JSON.parse(jsonText);
+  const items: ComplianceItem[] = [];
+  if (guidelines.logos.length > 0) {
+    items.push({ category: 'logo', label: 'Logo matches the references', ...parseJudgement(json?.logo, 'logo'), source: 'model' });
+  }
+  if (guidelines.palette.length > 0) {
+    items.push({ category: 'palette', label: 'Colors stay on the brand palette', ...parseJudgement(json?.palette, 'palette'), source: 'model' });
+  }
+  parseListJudgements(json?.forbiddenElements ?? [], guidelines.forbiddenElements, 'forbidden element').forEach((verdict, i) => {
+    items.push({ category: 'forbidden', label: `No ${guidelines.forbiddenElements[i]}`, ...verdict, source: 'model' });
+  });
+  parseListJudgements(json?.requiredText ?? [], guidelines.requiredText, 'required text').forEach((verdict, i) => {
+    items.push({ category: 'text', label: `Shows "${guidelines.requiredText[i]}"`, ...verdict, source: 'model' });
+  });
+  if (typeof json?.summary !== 'string') {
+    throw new Error('Brand check returned no summary.');
+  }
+  return { summary: json.summary, items };
+};
+
+export const combineCompliance = (summary: string, items: ComplianceItem[]): ComplianceResult => ({
+  passed: items.every(item => item.passed),
+  summary,
+  items,
+});
+
+export const formatCompliance = (result: ComplianceResult): string => [
+  result.summary,
+  '',
+  ...result.items.map(item => `${item.passed ? 'PASS' : 'FAIL'} ${item.label} (${item.source}): ${item.detail}`),
+].join('\n');
@@ -0,0 +1,21 @@
+import { BrandProfile } from '../types';
+import { BRAND_STORE, withStore } from './database';
+import { createId } from './jobHistory';
+
+// Brand profiles a job's results can be checked against, kept in IndexedDB.
+
+export const createBrandProfileId = (): string => createId('brand');
+
+export const saveBrandProfile = async (profile: BrandProfile): Promise<void> => {
+  await withStore(BRAND_STORE, 'readwrite', store => store.put(profile));
+};
+
+// Alphabetical by name.
+export const listBrandProfiles = async (): Promise<BrandProfile[]> => {
+  const profiles = await withStore<BrandProfile[]>(BRAND_STORE, 'readonly', store => store.getAll());
+  return profiles.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const deleteBrandProfile = async (id: string): Promise<void> => {
+  await withStore(BRAND_STORE, 'readwrite', store => store.delete(id));
+};
@@ -0,0 +1,100 @@
+import { LogEntry, TokenUsage } from '../types';
+import { BudgetExceededError } from './errors';
+import type { ModelProvider, TokenCounts } from './modelProvider';
+
+// USD per million tokens.
+export interface ModelPrice {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+// Published list prices at the time of writing; override them with setPriceTable when they
+// change. Mock models are priced like their Gemini counterparts so budgets can be tried offline.
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+  'gemini-2.5-flash': { inputPerMillion: 0.3, outputPerMillion: 2.5 },
+  'gemini-2.5-flash-image-preview': { inputPerMillion: 0.3, outputPerMillion: 30 },
+  'mock-referenceAnalysis': { inputPerMillion: 0.3, outputPerMillion: 2.5 },
+  'mock-instruction': { inputPerMillion: 0.3, outputPerMillion: 2.5 },
+  'mock-imageGeneration': { inputPerMillion: 0.3, outputPerMillion: 30 },
+  'mock-qualityCheck': { inputPerMillion: 0.3, outputPerMillion: 2.5 },
+  'mock-brandCheck': { inputPerMillion: 0.3, outputPerMillion: 2.5 },
+};
+
+let priceTable: PriceTable = DEFAULT_PRICE_TABLE;
+
+// Adds or replaces prices for individual models. Passing null restores the defaults.
+export const setPriceTable = (overrides: PriceTable | null): void => {
+  priceTable = overrides ? { ...DEFAULT_PRICE_TABLE, ...overrides } : DEFAULT_PRICE_TABLE;
+};
+
+// Validates a price table read from a file, e.g. for the CLI's --prices option.
+export const parsePriceTable = (json: string): PriceTable => {
+  const data: unknown = JSON.parse(json);
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new Error('The price table must be an object keyed by model name.');
+  }
+  for (const [model, price] of Object.entries(data)) {
+    const { inputPerMillion, outputPerMillion } = (price ?? {}) as Partial<ModelPrice>;
+    if (typeof inputPerMillion !== 'number' || typeof outputPerMillion !== 'number') {
+      throw new Error(`The price of "${model}" needs numeric inputPerMillion and outputPerMillion.`);
+    }
+  }
+  return data as PriceTable;
+};
+
+export const estimateCost = (model: string, tokens: TokenCounts): number | null => {
+  const price = priceTable[model];
+  if (!price) return null;
+  return (tokens.inputTokens * price.inputPerMillion + tokens.outputTokens * price.outputPerMillion) / 1_000_000;
+};
+
+// Money spent against an optional limit. Ledgers are shared by reference between runs, so a
+// job's ledger keeps counting across its feedback retries and the session's across jobs.
+export interface CostLedger {
+  label: string;
+  limit: number | null; // USD; null for no limit
+  spent: number;
+}
+
+export const createCostLedger = (label: string, limit: number | null = null, spent = 0): CostLedger => ({ label, limit, spent });
+
+export const sumUsage = (logs: LogEntry[]): TokenUsage =>
+  logs.reduce<TokenUsage>(
+    (total, log) => ({
+      inputTokens: total.inputTokens + (log.usage?.inputTokens ?? 0),
+      outputTokens: total.outputTokens + (log.usage?.outputTokens ?? 0),
+      cost: (total.cost ?? 0) + (log.usage?.cost ?? 0),
+    }),
+    { inputTokens: 0, outputTokens: 0, cost: 0 }
+  );
+
+export const formatCost = (cost: number | null): string =>
+  cost === null ? 'n/a' : cost < 0.01 && cost > 0 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+
+export const formatUsage = (usage: TokenUsage): string =>
+  `${usage.inputTokens.toLocaleString('en-US')} in / ${usage.outputTokens.toLocaleString('en-US')} out tokens · ${formatCost(usage.cost)}`;
+
+// Prices every call and charges it to the ledgers. Once any ledger is at its limit, further
+// calls are refused; a call already in flight can still take a ledger past it.
+export const withCostTracking = (provider: ModelProvider, ledgers: CostLedger[] = []): ModelProvider => ({
+  ...provider,
+  generate: async (request) => {
+    const exhausted = ledgers.find(ledger => ledger.limit !== null && ledger.spent >= ledger.limit);
+    if (exhausted) {
+      throw new BudgetExceededError(
+        `The ${exhausted.label} budget of ${formatCost(exhausted.limit)} is used up (${formatCost(exhausted.spent)} spent).`
+      );
+    }
+    const response = await provider.generate(request);
+    if (!response.tokens) {
+      return response;
+    }
+    const cost = estimateCost(provider.modelFor(request.task), response.tokens);
+    for (const ledger of ledgers) {
+      ledger.spent += cost ?? 0;
+    }
+    return { ...response, usage: { ...response.tokens, cost } };
+  },
+});
@@ -0,0 +1,50 @@
+// A minimal promise wrapper around the app's IndexedDB database.
+
+const DB_NAME = 'ai-product-replacer';
+const DB_VERSION = 3;
+
+export const JOB_STORE = 'jobs';
+export const CATALOG_STORE = 'catalog';
+export const BRAND_STORE = 'brands';
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  databasePromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(JOB_STORE)) {
+        db.createObjectStore(JOB_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(CATALOG_STORE)) {
+        db.createObjectStore(CATALOG_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(BRAND_STORE)) {
+        db.createObjectStore(BRAND_STORE, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      databasePromise = null;
+      reject(request.error);
+    };
+  });
+  return databasePromise;
+};
+
+// Runs a single request in its own transaction and resolves once the transaction commits.
+export const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = run(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
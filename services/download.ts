@@ -0,0 +1,13 @@
+// Saves content as a file through a temporary object URL.
+export const downloadBlob = (blob: Blob, filename: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Revoke after the click has been handled, or some browsers cancel the download
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const downloadText = (text: string, filename: string, mimeType: string): void =>
+  downloadBlob(new Blob([text], { type: mimeType }), filename);
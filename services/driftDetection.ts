@@ -0,0 +1,148 @@
+import { DriftResult } from '../types';
+import { getPixels, loadImage, pixelsToDataUrl } from './imageUtils';
+
+// Images are compared at most at this size; drift is a coarse signal and this keeps it fast.
+const ANALYSIS_MAX_SIZE = 512;
+// Mean per-channel difference (0-255) below which a pixel counts as unchanged,
+// so resampling and compression noise is not reported as drift.
+const NOISE_TOLERANCE = 24;
+// Grid resolution used to estimate the product region when no mask is given.
+const REGION_GRID_SIZE = 32;
+// Largest share of the frame an estimated product region may cover. A larger changed area
+// means the scene itself was re-rendered, not that the product is that big.
+const MAX_REGION_SHARE = 0.4;
+
+// Without a mask, the product region is estimated as the bounding box (padded by one
+// cell) of the largest connected group of grid cells that changed beyond the noise.
+// Returns null when that box is too large to be the product.
+const estimateProductRegion = (diff: Float32Array, width: number, height: number): Uint8Array | null => {
+  const cellWidth = Math.ceil(width / REGION_GRID_SIZE);
+  const cellHeight = Math.ceil(height / REGION_GRID_SIZE);
+  const columns = Math.ceil(width / cellWidth);
+  const rows = Math.ceil(height / cellHeight);
+
+  const cellSums = new Float32Array(columns * rows);
+  const cellCounts = new Uint32Array(columns * rows);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const cell = Math.floor(y / cellHeight) * columns + Math.floor(x / cellWidth);
+      cellSums[cell] += diff[y * width + x];
+      cellCounts[cell]++;
+    }
+  }
+  const isHot = (cell: number) => cellSums[cell] / cellCounts[cell] > NOISE_TOLERANCE;
+
+  let best: number[] = [];
+  const visited = new Uint8Array(columns * rows);
+  for (let start = 0; start < visited.length; start++) {
+    if (visited[start] || !isHot(start)) continue;
+    const component: number[] = [];
+    const stack = [start];
+    visited[start] = 1;
+    while (stack.length > 0) {
+      const cell = stack.pop()!;
+      component.push(cell);
+      const cx = cell % columns;
+      const cy = Math.floor(cell / columns);
+      for (const [nx, ny] of [[cx - 1, cy], [cx + 1, cy], [cx, cy - 1], [cx, cy + 1]]) {
+        const neighbour = ny * columns + nx;
+        if (nx >= 0 && ny >= 0 && nx < columns && ny < rows && !visited[neighbour] && isHot(neighbour)) {
+          visited[neighbour] = 1;
+          stack.push(neighbour);
+        }
+      }
+    }
+    if (component.length > best.length) best = component;
+  }
+
+  const region = new Uint8Array(width * height);
+  if (best.length === 0) return region;
+  const minX = Math.max(0, Math.min(...best.map(cell => cell % columns)) - 1) * cellWidth;
+  const maxX = Math.min(width, (Math.max(...best.map(cell => cell % columns)) + 2) * cellWidth);
+  const minY = Math.max(0, Math.min(...best.map(cell => Math.floor(cell / columns))) - 1) * cellHeight;
+  const maxY = Math.min(height, (Math.max(...best.map(cell => Math.floor(cell / columns))) + 2) * cellHeight);
+  if ((maxX - minX) * (maxY - minY) > MAX_REGION_SHARE * width * height) {
+    return null;
+  }
+  for (let y = minY; y < maxY; y++) {
+    region.fill(1, y * width + minX, y * width + maxX);
+  }
+  return region;
+};
+
+// Compares the generated image with the original outside the product region and
+// renders a heatmap: changed pixels glow red over a dimmed copy of the original,
+// and the product region is tinted blue. When no region can be estimated, the whole
+// image is compared, so a re-rendered scene scores high rather than perfect.
+export const DRIFT_REGION_DESCRIPTIONS: Record<DriftResult['regionSource'], string> = {
+  mask: 'Pixel difference between the original and generated image, outside the masked product region.',
+  estimated: 'Pixel difference between the original and generated image, outside the estimated product region.',
+  none: 'Pixel difference between the original and generated image across the whole image: most of the scene changed, so no product region could be estimated.',
+};
+
+export const detectBackgroundDrift = async (
+  originalSrc: string,
+  generatedSrc: string,
+  maskSrc?: string
+): Promise<DriftResult> => {
+  const [original, generated, mask] = await Promise.all([
+    loadImage(originalSrc),
+    loadImage(generatedSrc),
+    maskSrc ? loadImage(maskSrc) : Promise.resolve(null),
+  ]);
+  const scale = Math.min(1, ANALYSIS_MAX_SIZE / Math.max(original.naturalWidth, original.naturalHeight));
+  const width = Math.max(1, Math.round(original.naturalWidth * scale));
+  const height = Math.max(1, Math.round(original.naturalHeight * scale));
+
+  const originalPixels = getPixels(original, width, height);
+  const generatedPixels = getPixels(generated, width, height);
+
+  const diff = new Float32Array(width * height);
+  for (let p = 0; p < diff.length; p++) {
+    const i = p * 4;
+    diff[p] = (
+      Math.abs(originalPixels.data[i] - generatedPixels.data[i]) +
+      Math.abs(originalPixels.data[i + 1] - generatedPixels.data[i + 1]) +
+      Math.abs(originalPixels.data[i + 2] - generatedPixels.data[i + 2])
+    ) / 3;
+  }
+
+  let region: Uint8Array | null;
+  if (mask) {
+    const maskPixels = getPixels(mask, width, height);
+    region = new Uint8Array(width * height);
+    for (let p = 0; p < region.length; p++) {
+      region[p] = maskPixels.data[p * 4] >= 128 ? 1 : 0;
+    }
+  } else {
+    region = estimateProductRegion(diff, width, height);
+  }
+  const regionSource: DriftResult['regionSource'] = mask ? 'mask' : region ? 'estimated' : 'none';
+  region ??= new Uint8Array(width * height);
+
+  let backgroundPixels = 0;
+  let driftedPixels = 0;
+  let differenceSum = 0;
+  const heatmap = new ImageData(width, height);
+  for (let p = 0; p < diff.length; p++) {
+    const i = p * 4;
+    const gray = (originalPixels.data[i] + originalPixels.data[i + 1] + originalPixels.data[i + 2]) / 3 * 0.35;
+    const heat = Math.min(255, diff[p] * 3);
+    heatmap.data[i] = region[p] ? gray : Math.max(gray, heat);
+    heatmap.data[i + 1] = gray;
+    heatmap.data[i + 2] = region[p] ? Math.min(255, gray + 70) : gray;
+    heatmap.data[i + 3] = 255;
+    if (!region[p]) {
+      backgroundPixels++;
+      differenceSum += diff[p];
+      if (diff[p] > NOISE_TOLERANCE) driftedPixels++;
+    }
+  }
+
+  return {
+    score: backgroundPixels > 0 ? (driftedPixels / backgroundPixels) * 100 : 0,
+    meanDifference: backgroundPixels > 0 ? differenceSum / backgroundPixels : 0,
+    heatmap: pixelsToDataUrl(heatmap),
+    regionSource,
+  };
+};
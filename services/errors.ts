@@ -0,0 +1,72 @@
+import { FailureInfo, LogEntry } from '../types';
+
+// Thrown when the caller aborts a run through its AbortSignal. Carries the logs collected
+// up to that point, so a cancelled run can still be inspected.
+export class CancelledError extends Error {
+  readonly logs: LogEntry[];
+
+  constructor(message = 'The run was cancelled.', logs: LogEntry[] = []) {
+    super(message);
+    this.name = 'CancelledError';
+    this.logs = logs;
+  }
+}
+
+// Thrown when a single model call exceeds its timeout.
+export class TimeoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TimeoutError';
+  }
+}
+
+// A model call the provider rejected. `status` is the HTTP status, when the provider reported
+// one, and `retryAfterMs` how long it asked the caller to wait before trying again.
+export class ModelCallError extends Error {
+  readonly status?: number;
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, status?: number, retryAfterMs?: number) {
+    super(message);
+    this.name = 'ModelCallError';
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// A model call that got no response at all because the request itself failed, e.g. the
+// connection was refused or dropped. Providers convert their transport's errors into this,
+// so that only real network failures are retried and reported as such.
+export class NetworkError extends ModelCallError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NetworkError';
+  }
+}
+
+// Thrown instead of making a model call once a cost budget is used up. Like CancelledError,
+// it carries the logs collected so far.
+export class BudgetExceededError extends Error {
+  readonly logs: LogEntry[];
+
+  constructor(message: string, logs: LogEntry[] = []) {
+    super(message);
+    this.name = 'BudgetExceededError';
+    this.logs = logs;
+  }
+}
+
+// Thrown when a step gets no usable answer from the model, with the failure classified (see
+// services/failures.ts) so the user can be told what to do next. Like CancelledError, it
+// carries the logs collected so far.
+export class GenerationError extends Error {
+  readonly failure: FailureInfo;
+  readonly logs: LogEntry[];
+
+  constructor(message: string, failure: FailureInfo, logs: LogEntry[] = []) {
+    super(message);
+    this.name = 'GenerationError';
+    this.failure = failure;
+    this.logs = logs;
+  }
+}
@@ -0,0 +1,116 @@
+import { FailureCategory, FailureInfo } from '../types';
+import type { ModelResponse } from './modelProvider';
+import { GenerationError, ModelCallError, NetworkError, TimeoutError } from './errors';
+
+// Finish reasons meaning a filter withheld the answer, rather than the model declining.
+const BLOCKING_FINISH_REASONS = new Set([
+  'SAFETY', 'RECITATION', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII',
+  'IMAGE_SAFETY', 'IMAGE_PROHIBITED_CONTENT', 'IMAGE_RECITATION',
+]);
+
+const flaggedCategories = (response: ModelResponse): string[] | undefined => {
+  const flagged = (response.signals?.safetyRatings ?? [])
+    .filter(rating => rating.blocked || rating.probability === 'HIGH' || rating.probability === 'MEDIUM')
+    .map(rating => rating.category);
+  return flagged.length > 0 ? flagged : undefined;
+};
+
+// Classifies a response that lacks what the step asked for: an image, or for the analysis and
+// check tasks some text. Returns null when the response has it.
+export const describeResponseFailure = (response: ModelResponse, expected: 'image' | 'text'): FailureInfo | null => {
+  const { finishReason, blockReason } = response.signals ?? {};
+  if (blockReason) {
+    return { category: 'blocked', reason: blockReason, safetyCategories: flaggedCategories(response) };
+  }
+  if (finishReason && BLOCKING_FINISH_REASONS.has(finishReason)) {
+    return { category: 'blocked', reason: finishReason, safetyCategories: flaggedCategories(response) };
+  }
+  const text = response.text?.trim();
+  if (expected === 'image' ? response.image : text) {
+    return null;
+  }
+  // The image model answering in words only is declining the edit
+  if (expected === 'image' && text) {
+    return { category: 'refused', reason: finishReason ?? 'NO_IMAGE' };
+  }
+  return { category: 'empty', reason: finishReason ?? 'NO_CONTENT' };
+};
+
+// Classifies an error thrown by a model call. Only errors the provider layer normalized are
+// classified; anything else (invalid requests, bugs) returns null and is reported as it is.
+export const classifyError = (error: unknown): FailureInfo | null => {
+  if (error instanceof GenerationError) {
+    return error.failure;
+  }
+  if (error instanceof TimeoutError) {
+    return { category: 'network', reason: 'TIMEOUT' };
+  }
+  if (error instanceof NetworkError) {
+    return { category: 'network', reason: 'FETCH_FAILED' };
+  }
+  if (error instanceof ModelCallError && error.status !== undefined) {
+    if (error.status === 429) {
+      return { category: 'quota', reason: 'HTTP 429' };
+    }
+    if (error.status === 408 || error.status >= 500) {
+      return { category: 'network', reason: `HTTP ${error.status}` };
+    }
+  }
+  return null;
+};
+
+export type FailureAction = 'retry' | 'rephrase' | 'change-input';
+
+export const FAILURE_GUIDANCE: Record<FailureCategory, { title: string; advice: string }> = {
+  blocked: {
+    title: 'Blocked by a safety filter',
+    advice: 'The model\'s safety filters blocked the request or its result. The same inputs will most likely be blocked again.',
+  },
+  refused: {
+    title: 'The model declined the edit',
+    advice: 'The model answered without producing an image. Its reply usually says why.',
+  },
+  empty: {
+    title: 'Empty response',
+    advice: 'The model returned nothing usable. This is often intermittent.',
+  },
+  invalid: {
+    title: 'Unreadable response',
+    advice: 'The model answered, but not in the expected format. This is often intermittent.',
+  },
+  quota: {
+    title: 'Rate limit or quota reached',
+    advice: 'The model provider refused the call because of a rate limit or quota. Wait a minute before trying again.',
+  },
+  network: {
+    title: 'The model could not be reached',
+    advice: 'The call timed out or the connection failed. Check the connection and try again.',
+  },
+};
+
+// What the user should do about a failure. Blocks and refusals of a revision usually come
+// from the feedback, which can be rephrased. A fresh run that is blocked needs other images;
+// a refused one is often worth another try.
+export const nextAction = (failure: FailureInfo, isRevision: boolean): FailureAction => {
+  switch (failure.category) {
+    case 'blocked':
+      return isRevision ? 'rephrase' : 'change-input';
+    case 'refused':
+      return isRevision ? 'rephrase' : 'retry';
+    default:
+      return 'retry';
+  }
+};
+
+export const NEXT_ACTION_LABELS: Record<FailureAction, string> = {
+  retry: 'Try again',
+  rephrase: 'Rephrase the feedback',
+  'change-input': 'Change the product or marketing image',
+};
+
+// The provider's reason, e.g. "IMAGE_SAFETY: HARM_CATEGORY_DANGEROUS_CONTENT".
+export const formatFailureReason = (failure: FailureInfo): string =>
+  `${failure.reason}${failure.safetyCategories ? `: ${failure.safetyCategories.join(', ')}` : ''}`;
+
+// One line for logs and the CLI, e.g. "blocked (IMAGE_SAFETY: HARM_CATEGORY_DANGEROUS_CONTENT)".
+export const formatFailure = (failure: FailureInfo): string => `${failure.category} (${formatFailureReason(failure)})`;
@@ -1,8 +1,30 @@
-import { GoogleGenAI, Modality, Part, Type } from "@google/genai";
-import { ImageFile, LogEntry } from '../types';
+import {
+  AutoRetryOptions, BrandGuidelines, ComplianceItem, ComplianceResult, DriftResult, FailureInfo, ImageSource, LogEntry, ProductInstruction, ProductQualityCheck, ProductTarget, QualityCheckResult,
+  QualityCriterion, ReferenceAnalysis, ReplacementCandidate, ReplacementResult,
+} from '../types';
+import { getModelProvider, ModelPart, ModelProvider, ModelResponse } from './modelProvider';
+import { CallOptions, untilAborted, withCallPolicy } from './modelCall';
+import { withCostTracking } from './costs';
+import { BudgetExceededError, CancelledError, GenerationError } from './errors';
+import { classifyError, describeResponseFailure, FAILURE_GUIDANCE, formatFailure, formatFailureReason } from './failures';
+import { createProgressTracker, planRun, ProgressListener, ProgressTracker, RunPlanOptions } from './progress';
+import { compositeOutsideMask, unionMasks } from './imageUtils';
+import { detectBackgroundDrift, DRIFT_REGION_DESCRIPTIONS } from './driftDetection';
+import { parseReferenceAnalysis, referenceAnalysisSchema } from './referenceAnalysis';
+import {
+  brandComplianceSchema, combineCompliance, measureImagePalette, paletteItems, parseBrandCompliance, PALETTE_TOLERANCE,
+} from './brandCompliance';
+import {
+  averageScore, combineQualityChecks, findFailingCriteria, MAX_SCORE, parseQualityCheck, QUALITY_CRITERIA, qualityCheckSchema,
+} from './qualityCheck';
+import {
+  BRAND_COMPLIANCE_PROMPT, CONSISTENCY_ANALYSIS_PROMPT, describeProductReferences, FEEDBACK_ANALYSIS_PROMPT, MASK_NOTE, MULTI_PRODUCT_ANALYSIS_PROMPT,
+  MULTI_PRODUCT_FEEDBACK_PROMPT, MULTI_PRODUCT_QUALITY_CHECK_PROMPT, MULTI_PRODUCT_REPLACEMENT_PROMPT, OUTPAINT_PROMPT,
+  PRODUCT_REPLACEMENT_PROMPT, QUALITY_CHECK_PROMPT, REFERENCE_ANALYSIS_PROMPT, RenderedPrompt, renderPrompt, ReplacementProductBrief,
+} from './prompts';
 
 // This function converts a base64 string to a GenerativePart object
-const fileToGenerativePart = (image: ImageFile): Part => {
+const fileToGenerativePart = (image: ImageSource): ModelPart => {
   // Expected format: "data:image/jpeg;base64,...."
   const matches = image.base64.match(/^data:(.+);base64,(.+)$/);
   if (!matches || matches.length !== 3) {
@@ -17,355 +39,1175 @@ const fileToGenerativePart = (image: ImageFile): Part => {
   };
 };
 
+// The pipeline's view of the configured provider: bounded, retried and metered.
+const createPipelineProvider = ({ signal, callPolicy, ledgers }: CallOptions): ModelProvider =>
+  withCostTracking(withCallPolicy(getModelProvider(), callPolicy, signal), ledgers);
+
+// Recorded when a run is aborted, so the log shows where it stopped.
+const buildCancelledLog = (step: number, completedSteps: number): LogEntry => ({
+  step,
+  title: "Run Cancelled",
+  model: 'local',
+  template: null,
+  input: { prompt: 'The run was cancelled before it finished. In-flight model calls were abandoned.' },
+  output: { text: `Cancelled after ${completedSteps} completed step${completedSteps === 1 ? '' : 's'}.` },
+});
+
+// Recorded when a budget refuses the next model call.
+const buildBudgetLog = (step: number, error: BudgetExceededError, attempt?: number): LogEntry => ({
+  step,
+  title: "Budget Exceeded",
+  model: 'local',
+  template: null,
+  attempt,
+  input: { prompt: 'No further model calls are made once a budget is used up.' },
+  output: { text: error.message },
+});
+
+// Recorded when a run stops because a model call got no usable answer.
+const buildFailureLog = (step: number, failure: FailureInfo, message: string, attempt?: number): LogEntry => ({
+  step,
+  title: "Generation Failed",
+  model: 'local',
+  template: null,
+  attempt,
+  failure,
+  input: { prompt: FAILURE_GUIDANCE[failure.category].advice },
+  output: { text: `${message}\nFailure: ${formatFailure(failure)}` },
+});
+
+const blockedMessage = (failure: FailureInfo): string =>
+  `The request was blocked by the model's safety filters (${formatFailureReason(failure)}).`;
+
+// Thrown when a planning call returns no instruction to generate from.
+const planningError = (failure: FailureInfo): GenerationError =>
+  new GenerationError(failure.category === 'blocked' ? blockedMessage(failure) : 'The AI returned no instruction for the edit.', failure);
+
+export interface ReferenceAnalysisOptions extends CallOptions {
+  onProgress?: ProgressListener;
+  // An analysis already stored for exactly these images (e.g. in the product catalog), which is
+  // reused instead of asking the model again. `source` names where it came from, for the log.
+  storedVerdict?: { analysis: ReferenceAnalysis; checkedAt: number; source: string };
+  // The optional steps of the run this check starts, so both report progress against one plan.
+  runPlan?: RunPlanOptions;
+}
+
+const labelReferenceImages = (productImages: ImageSource[]): LabelledImage[] =>
+  productImages.map((img, i) => ({ label: `Product Image ${i + 1}`, base64: img.base64 }));
+
+// Assesses each reference image on its own; the set is suitable only when every image is.
 export const analyzeReferenceImages = async (
-  productImages: ImageFile[],
-): Promise<{ areImagesSuitable: boolean; reasoning: string; log: LogEntry; }> => {
-  if (!process.env.API_KEY) {
-    throw new Error("API_KEY environment variable not set.");
+  productImages: ImageSource[],
+  { onProgress, storedVerdict, runPlan, ...callOptions }: ReferenceAnalysisOptions = {}
+): Promise<ReferenceAnalysis & { log: LogEntry }> => {
+  const provider = createPipelineProvider(callOptions);
+  const progress = createProgressTracker(planRun(false, runPlan), onProgress);
+  const step = progress.stepNumber('referenceCheck');
+
+  if (storedVerdict) {
+    const { analysis, checkedAt, source } = await progress.track('referenceCheck', async () => storedVerdict);
+    return {
+      ...analysis,
+      log: {
+        step,
+        title: "Reference Image Quality Check",
+        model: 'local',
+        template: null,
+        input: {
+          prompt: `Reused the verdict stored in ${source} on ${new Date(checkedAt).toISOString()}; these exact images were checked before.`,
+          images: labelReferenceImages(productImages),
+        },
+        output: { text: JSON.stringify(analysis, null, 2) },
+      },
+    };
   }
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
   const productParts = productImages.map(fileToGenerativePart);
   
-  const prompt = `
-    You are a professional photo quality analyst for an AI-powered e-commerce tool.
-    Your task is to analyze the following product reference images and determine if they are suitable for an AI to use for a product replacement task.
-
-    Ideal images have these qualities:
-    - The product is clear, in focus, and well-lit.
-    - The background is simple, clean, or not distracting (e.g., a white or plain background is perfect).
-    - The image primarily contains the product itself, without other confusing objects or subjects.
-
-    Poor quality images have these problems:
-    - The product is blurry, poorly lit, or seen from a bad angle.
-    - The background is very busy, cluttered, or contains other prominent objects that could be mistaken for part of the product.
-    - The image contains multiple distinct products or people, which could confuse the AI.
-
-    Analyze the provided images and return a JSON object indicating if they are suitable and provide your reasoning.
-  `;
+  const prompt = renderPrompt(REFERENCE_ANALYSIS_PROMPT, { imageCount: productImages.length });
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: { parts: [...productParts, { text: prompt }] },
-      config: {
-        responseMimeType: 'application/json',
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            areImagesSuitable: {
-              type: Type.BOOLEAN,
-              description: 'Whether the images are suitable for the AI task.'
-            },
-            reasoning: {
-              type: Type.STRING,
-              description: 'A concise, one-sentence explanation for your decision. If not suitable, explain what the user should fix.'
-            }
-          },
-          required: ['areImagesSuitable', 'reasoning']
-        }
-      }
-    });
-
-    const jsonText = response.text;
-    const jsonResponse = JSON.parse(jsonText);
+    const response = await progress.track('referenceCheck', () => provider.generate({
+      task: 'referenceAnalysis',
+      parts: [...productParts, { text: prompt.text }],
+      prompt,
+      responseSchema: referenceAnalysisSchema,
+    }));
 
+    const jsonText = response.text ?? '';
+    const failure = describeResponseFailure(response, 'text');
     const log: LogEntry = {
-        step: 1,
+        step,
         title: "Reference Image Quality Check",
-        model: "gemini-2.5-flash",
+        model: provider.modelFor('referenceAnalysis'),
+        template: prompt.template,
+        retries: response.retries,
+        usage: response.usage,
+        failure: failure ?? undefined,
         input: {
-            prompt: prompt,
-            images: productImages.map((img, i) => ({ label: `Product Image ${i + 1}`, base64: img.base64 }))
+            prompt: prompt.text,
+            images: labelReferenceImages(productImages)
         },
         output: { text: jsonText }
     };
-    
-    return {
-      areImagesSuitable: jsonResponse.areImagesSuitable,
-      reasoning: jsonResponse.reasoning,
-      log: log,
-    };
+    if (failure) {
+      throw new GenerationError(
+        failure.category === 'blocked' ? blockedMessage(failure) : 'The AI returned no assessment of the reference images.',
+        failure,
+        [log]
+      );
+    }
+
+    return { ...parseReferenceAnalysis(jsonText, productImages.length), log };
 
   } catch (error) {
+    if (error instanceof CancelledError) {
+      throw new CancelledError(error.message, [buildCancelledLog(step, 0)]);
+    }
+    if (error instanceof BudgetExceededError) {
+      throw new BudgetExceededError(error.message, [buildBudgetLog(step, error)]);
+    }
+    if (error instanceof GenerationError) throw error;
     console.error("Error during reference image analysis:", error);
-    throw new Error("The AI failed to analyze the reference images.");
+    const message = "The AI failed to analyze the reference images.";
+    const failure = classifyError(error);
+    if (failure) {
+      throw new GenerationError(message, failure, [buildFailureLog(step, failure, message)]);
+    }
+    throw new Error(message);
   }
 };
 
 
 const getAnalysisInstruction = async (
-  ai: GoogleGenAI,
-  prompt: string,
-  productParts: Part[],
-  marketingPart: Part
-): Promise<string> => {
+  provider: ModelProvider,
+  prompt: RenderedPrompt,
+  productParts: ModelPart[],
+  marketingParts: ModelPart[]
+): Promise<ModelResponse> => {
   
-  const promptParts: Part[] = [
+  const promptParts: ModelPart[] = [
     ...productParts,
-    marketingPart,
-    { text: prompt },
+    ...marketingParts,
+    { text: prompt.text },
   ];
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: { parts: promptParts },
-    });
-    return response.text.trim();
+    return await provider.generate({ task: 'instruction', parts: promptParts, prompt });
   } catch (error) {
+    if (error instanceof CancelledError || error instanceof BudgetExceededError) throw error;
     console.error("Error during image analysis:", error);
-    throw new Error("The AI failed to analyze the images for logical consistency.");
+    const message = "The AI failed to analyze the images for logical consistency.";
+    const failure = classifyError(error);
+    throw failure ? new GenerationError(message, failure) : new Error(message);
   }
 };
 
 const getQualityCheckFeedback = async (
-  ai: GoogleGenAI,
-  prompt: string,
-  productParts: Part[],
-  originalPart: Part,
-  generatedPart: Part
-): Promise<string> => {
+  provider: ModelProvider,
+  prompt: RenderedPrompt,
+  productParts: ModelPart[],
+  originalPart: ModelPart,
+  generatedPart: ModelPart
+): Promise<{ result: QualityCheckResult | null; failure?: FailureInfo; jsonText: string; response: ModelResponse }> => {
  
-  const promptParts: Part[] = [
+  const promptParts: ModelPart[] = [
     ...productParts,
     originalPart,
     generatedPart,
-    { text: prompt },
+    { text: prompt.text },
   ];
 
-  const response = await ai.models.generateContent({
-    model: 'gemini-2.5-flash',
-    contents: { parts: promptParts },
+  const response = await provider.generate({
+    task: 'qualityCheck',
+    parts: promptParts,
+    prompt,
+    responseSchema: qualityCheckSchema,
   });
 
-  return response.text.trim();
+  // An answer that can't be used still cost a call, so it is returned for the log, not thrown
+  const jsonText = response.text ?? '';
+  const failure = describeResponseFailure(response, 'text');
+  if (failure) {
+    return { result: null, failure, jsonText, response };
+  }
+  try {
+    return { result: parseQualityCheck(jsonText), jsonText, response };
+  } catch (error) {
+    const reason = error instanceof SyntaxError ? 'INVALID_JSON' : error instanceof Error ? error.message : String(error);
+    return { result: null, failure: { category: 'invalid', reason }, jsonText, response };
+  }
 };
 
+export interface ReplaceOptions extends CallOptions {
+  // When set, attempts scoring below the thresholds are regenerated with their defects as feedback.
+  autoRetry?: AutoRetryOptions;
+  // A black-and-white mask of the marketing image; white marks the product to replace.
+  // Pixels outside it are restored from the original after generation.
+  mask?: ImageSource;
+  // Number of candidate images generated (and quality-checked) in parallel per attempt.
+  variants?: number;
+  // Index into productImages of the reference the others are secondary to. The images
+  // themselves are expected in the order the user arranged them. Defaults to the first.
+  primaryProductIndex?: number;
+  // The earlier attempt that `feedback` refers to. Its instruction and image are shown to
+  // the feedback analysis so the revision builds on that attempt rather than starting over.
+  previousAttempt?: PreviousAttempt;
+  // When set, every candidate is also checked against these brand guidelines.
+  brand?: BrandGuidelines;
+  // When set, each attempt pauses after planning and generates with the plan this resolves
+  // to, as approved or edited by the user. Cancelling the run also ends the wait.
+  reviewPlan?: (plan: PlanProposal) => Promise<ReviewedPlan>;
+}
 
-export const replaceProductInImage = async (
-  productImages: ImageFile[],
-  marketingImage: ImageFile,
-  feedback?: string,
-  onProgress?: (message: string) => void
-): Promise<{ image: string | null; text: string | null; qualityCheck: string | null; logs: LogEntry[] }> => {
-  // Ensure the API key is available
-  if (!process.env.API_KEY) {
-    throw new Error("API_KEY environment variable not set. Please ensure it is configured.");
+// The instruction an attempt is about to generate with. Multi-product jobs are planned per
+// product, so their product instructions are reviewed instead of the combined instruction.
+export interface PlanProposal extends ReviewedPlan {
+  attempt?: number;
+  isRevision: boolean;
+}
+
+export interface ReviewedPlan {
+  instruction: string;
+  productInstructions?: ProductInstruction[];
+}
+
+export interface PreviousAttempt {
+  instruction: string;
+  image: ImageSource | null;
+  productInstructions?: ProductInstruction[]; // multi-product jobs: matched to products by name
+}
+
+interface LabelledImage {
+  label: string;
+  base64: string;
+}
+
+const labelProductImages = (productImages: ImageSource[], primaryIndex: number, prefix = 'Product'): LabelledImage[] =>
+  productImages.map((img, i) => ({
+    label: `${prefix} Image ${i + 1}${productImages.length > 1 && i === primaryIndex ? ' (primary)' : ''}`,
+    base64: img.base64,
+  }));
+
+// A product of a multi-product job, with its references ready to send.
+interface PreparedProduct {
+  name: string;
+  target: string;
+  parts: ModelPart[];
+  references: LabelledImage[];
+  note: string;
+  mask?: ImageSource;
+}
+
+// A prepared product with the instruction planned for it in the current attempt.
+interface PlannedProduct extends PreparedProduct {
+  instruction: string;
+}
+
+interface AttemptContext {
+  provider: ModelProvider;
+  productImages: ImageSource[];
+  marketingImage: ImageSource;
+  productParts: ModelPart[];
+  marketingPart: ModelPart;
+  mask?: ImageSource;
+  productReferences: LabelledImage[];
+  productNote: string;
+  // Set for multi-product jobs. The fields above then cover all products together, and
+  // `mask` is the union of their masks when every product has one.
+  products?: PreparedProduct[];
+  variants: number;
+  logs: LogEntry[];
+  attempt?: number;
+  progress: ProgressTracker;
+  previousAttempt?: PreviousAttempt;
+  brand?: BrandGuidelines;
+  reviewPlan?: (plan: PlanProposal) => Promise<ReviewedPlan>;
+}
+
+interface AttemptResult {
+  instruction: string;
+  productInstructions?: ProductInstruction[];
+  candidates: ReplacementCandidate[]; // ranked, best first
+}
+
+// Plans each product of a multi-product job in parallel, from scratch or from feedback, and
+// logs the calls in product order.
+const planProducts = async (
+  { provider, marketingImage, marketingPart, logs, attempt, progress, previousAttempt }: AttemptContext,
+  products: PreparedProduct[],
+  feedback?: string
+): Promise<PlannedProduct[]> => {
+  const stepId = feedback ? 'feedbackAnalysis' : 'consistencyAnalysis';
+  const previousImage = feedback ? previousAttempt?.image ?? null : null;
+  const planned = await Promise.all(products.map(product => progress.track(stepId, async () => {
+    const prompt = feedback
+      ? renderPrompt(MULTI_PRODUCT_FEEDBACK_PROMPT, {
+          feedback,
+          productName: product.name,
+          target: product.target,
+          hasMask: Boolean(product.mask),
+          previousInstruction: previousAttempt?.productInstructions?.find(previous => previous.product === product.name)?.instruction ?? null,
+          hasPreviousImage: Boolean(previousImage),
+          productNote: product.note,
+        })
+      : renderPrompt(MULTI_PRODUCT_ANALYSIS_PROMPT, {
+          productName: product.name,
+          target: product.target,
+          hasMask: Boolean(product.mask),
+          otherProducts: products.filter(other => other !== product).map(other => other.name),
+          productNote: product.note,
+        });
+    const response = await provider.generate({
+      task: 'instruction',
+      parts: [
+        ...product.parts,
+        marketingPart,
+        ...(product.mask ? [fileToGenerativePart(product.mask)] : []),
+        ...(previousImage ? [fileToGenerativePart(previousImage)] : []),
+        { text: prompt.text },
+      ],
+      prompt,
+    });
+    return { product, prompt, response };
+  })));
+
+  let failure: FailureInfo | undefined;
+  const plannedProducts = planned.map(({ product, prompt, response }) => {
+    const instruction = response.text ?? '';
+    const productFailure = describeResponseFailure(response, 'text') ?? undefined;
+    failure ??= productFailure;
+    logs.push({
+      step: progress.stepNumber(stepId),
+      title: feedback ? "Feedback Analysis" : "Pre-analysis for Logical Consistency",
+      model: provider.modelFor('instruction'),
+      template: prompt.template,
+      retries: response.retries,
+      usage: response.usage,
+      attempt,
+      product: product.name,
+      failure: productFailure,
+      input: {
+        prompt: prompt.text,
+        images: [
+          ...product.references,
+          { label: 'Marketing Image', base64: marketingImage.base64 },
+          ...(product.mask ? [{ label: 'Target Region Mask', base64: product.mask.base64 }] : []),
+          ...(previousImage ? [{ label: 'Previous Attempt', base64: previousImage.base64 }] : []),
+        ],
+      },
+      output: { text: instruction },
+    });
+    return { ...product, instruction };
+  });
+  if (failure) throw planningError(failure);
+  return plannedProducts;
+};
+
+const joinProductInstructions = (products: PlannedProduct[]): string =>
+  products.map(product => `${product.name}: ${product.instruction}`).join('\n');
+
+// Shows the planned instruction to the reviewer and logs the one the attempt goes on with.
+const reviewAttemptPlan = async (
+  { logs, attempt, progress, reviewPlan }: AttemptContext,
+  instruction: string,
+  products: PlannedProduct[] | undefined,
+  isRevision: boolean
+): Promise<{ instruction: string; products?: PlannedProduct[] }> => {
+  const proposal: PlanProposal = {
+    instruction,
+    productInstructions: products?.map(({ name, instruction }) => ({ product: name, instruction })),
+    attempt,
+    isRevision,
+  };
+  const reviewed = await progress.track('planReview', () => reviewPlan!(proposal));
+
+  let approved = { instruction: reviewed.instruction.trim(), products };
+  let humanEdited = approved.instruction !== instruction.trim();
+  if (products) {
+    const approvedProducts = products.map(product => ({
+      ...product,
+      instruction: (reviewed.productInstructions?.find(entry => entry.product === product.name)?.instruction ?? product.instruction).trim(),
+    }));
+    approved = { instruction: joinProductInstructions(approvedProducts), products: approvedProducts };
+    humanEdited = approvedProducts.some((product, i) => product.instruction !== products[i].instruction.trim());
+  }
+  if (!approved.instruction || approved.products?.some(product => !product.instruction)) {
+    throw new Error('The reviewed instruction is empty.');
   }
+  logs.push({
+    step: progress.stepNumber('planReview'),
+    title: "Plan Review",
+    model: 'local',
+    template: null,
+    attempt,
+    humanEdited,
+    input: { prompt: instruction },
+    output: { text: approved.instruction },
+  });
+  return approved;
+};
 
-  const logs: LogEntry[] = [];
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  const productParts = productImages.map(fileToGenerativePart);
-  const marketingPart = fileToGenerativePart(marketingImage);
-  let analysisInstruction = '';
-  let currentStep = 1;
+// Runs one instruction -> generation -> quality check pass, appending its logs to `logs`.
+const runAttempt = async (
+  context: AttemptContext,
+  feedback?: string
+): Promise<AttemptResult> => {
+    const {
+      provider, productImages, marketingImage, productParts, marketingPart, mask, productReferences, productNote,
+      products, variants, logs, attempt, progress, previousAttempt, brand, reviewPlan,
+    } = context;
+    let analysisInstruction = '';
+    let plannedProducts: PlannedProduct[] | undefined;
+    // A multi-product job sends each product's mask rather than their union
+    const regionMasks: LabelledImage[] = products
+      ? products.flatMap(product => product.mask ? [{ label: `${product.name} Region Mask`, base64: product.mask.base64 }] : [])
+      : mask ? [{ label: 'Target Region Mask', base64: mask.base64 }] : [];
+    const marketingParts = [marketingPart, ...regionMasks.map(fileToGenerativePart)];
+    const maskNote = mask ? MASK_NOTE : '';
+    const inputImages = [
+      ...productReferences,
+      { label: 'Marketing Image', base64: marketingImage.base64 },
+      ...regionMasks,
+    ];
 
-  try {
-    // Step 1 (of this run): Analyze feedback or analyze for consistency
-    if (feedback) {
-        onProgress?.('Step 1/3: Analyzing user feedback...');
-        const feedbackAnalysisPrompt = `
-        You are an AI art director. A user wants to replace a product in an image using new product reference photos.
-        Your previous attempt failed, and the user has provided the following feedback.
-        
-        USER FEEDBACK: "${feedback}"
-
-        Your task is to analyze this feedback and create a new, single, precise "CRITICAL INSTRUCTION" for the image editing AI.
-        This instruction must directly address the user's feedback while still achieving the original goal of seamlessly replacing the product in the marketing image with the product from the reference images.
-
-        Examine the provided reference and marketing images to understand the full context.
-        Your output must be ONLY the single, revised instruction sentence. Do not add any extra text, explanations, or greetings.
-        `;
-        const feedbackResponse = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: { parts: [...productParts, marketingPart, { text: feedbackAnalysisPrompt }] },
+    // Analyze feedback or analyze for consistency
+    if (products) {
+        plannedProducts = await planProducts(context, products, feedback);
+        analysisInstruction = joinProductInstructions(plannedProducts);
+    } else if (feedback) {
+        const feedbackAnalysisPrompt = renderPrompt(FEEDBACK_ANALYSIS_PROMPT, {
+            feedback,
+            previousInstruction: previousAttempt?.instruction ?? null,
+            hasPreviousImage: Boolean(previousAttempt?.image),
+            productNote,
+            maskNote,
         });
-        analysisInstruction = feedbackResponse.text.trim();
+        const previousParts = previousAttempt?.image ? [fileToGenerativePart(previousAttempt.image)] : [];
+        const feedbackResponse = await progress.track('feedbackAnalysis', () => provider.generate({
+            task: 'instruction',
+            parts: [...productParts, ...marketingParts, ...previousParts, { text: feedbackAnalysisPrompt.text }],
+            prompt: feedbackAnalysisPrompt,
+        }));
+        analysisInstruction = feedbackResponse.text ?? '';
+        const failure = describeResponseFailure(feedbackResponse, 'text') ?? undefined;
         logs.push({
-            step: currentStep++,
+            step: progress.stepNumber('feedbackAnalysis'),
             title: "Feedback Analysis",
-            model: "gemini-2.5-flash",
+            model: provider.modelFor('instruction'),
+            template: feedbackAnalysisPrompt.template,
+            retries: feedbackResponse.retries,
+            usage: feedbackResponse.usage,
+            attempt,
+            failure,
             input: {
-                prompt: feedbackAnalysisPrompt,
-                images: [
-                  ...productImages.map((img, i) => ({ label: `Product Image ${i + 1}`, base64: img.base64 })),
-                  { label: 'Marketing Image', base64: marketingImage.base64 }
-                ]
+                prompt: feedbackAnalysisPrompt.text,
+                images: previousAttempt?.image
+                    ? [...inputImages, { label: 'Previous Attempt', base64: previousAttempt.image.base64 }]
+                    : inputImages
             },
             output: { text: analysisInstruction }
         });
+        if (failure) throw planningError(failure);
     } else {
-        onProgress?.('Step 2/4: Analyzing for logical consistency...');
-        const analysisPrompt = `
-        You are a logical reasoning assistant for an advanced AI image editor. Your task is to analyze a set of reference product images and a target marketing image to create a single, precise instruction for the editor.
-
-        1.  **Analyze the Target Image:** Carefully examine the target marketing image. Identify the primary product that needs to be replaced. Pay close attention to the quantity of the product (e.g., is it a single shoe, a pair of shoes, one bottle, a six-pack of bottles?).
-        2.  **Analyze the Reference Images:** Examine the new product in the reference images.
-        3.  **Create a Critical Instruction:** Based on your analysis, write a single, clear, and concise instruction sentence for the image editor. This instruction MUST prevent logical errors. For example, if the target image contains a single shoe and the reference images show a pair of shoes, your instruction MUST explicitly say to replace the single shoe with ONLY ONE shoe from the reference.
-
-        **Example Output:** "Replace the single sneaker in the target image with a single sneaker from the reference images, ensuring only one shoe is depicted in the final result."
-
-        Your output must be ONLY this single instruction sentence. Do not add any extra text, explanations, or greetings.
-        `;
-        analysisInstruction = await getAnalysisInstruction(ai, analysisPrompt, productParts, marketingPart);
+        const analysisPrompt = renderPrompt(CONSISTENCY_ANALYSIS_PROMPT, { productNote, maskNote });
+        const analysisResponse = await progress.track('consistencyAnalysis', () =>
+          getAnalysisInstruction(provider, analysisPrompt, productParts, marketingParts)
+        );
+        analysisInstruction = analysisResponse.text ?? '';
+        const failure = describeResponseFailure(analysisResponse, 'text') ?? undefined;
         logs.push({
-          step: 2, // This follows Step 1 (Quality Check) from App.tsx
+          step: progress.stepNumber('consistencyAnalysis'),
           title: "Pre-analysis for Logical Consistency",
-          model: "gemini-2.5-flash",
+          model: provider.modelFor('instruction'),
+          template: analysisPrompt.template,
+          retries: analysisResponse.retries,
+          usage: analysisResponse.usage,
+          attempt,
+          failure,
           input: {
-            prompt: analysisPrompt,
-            images: [
-              ...productImages.map((img, i) => ({ label: `Product Image ${i + 1}`, base64: img.base64 })),
-              { label: 'Marketing Image', base64: marketingImage.base64 }
-            ]
+            prompt: analysisPrompt.text,
+            images: inputImages
           },
           output: { text: analysisInstruction }
         });
+        if (failure) throw planningError(failure);
     }
-    
-    // Step 2 (of this run): Generate the image with the analysis instruction
-    onProgress?.(feedback ? 'Step 2/3: Generating new image...' : 'Step 3/4: Generating new image...');
-    
-    const baseTextPrompt = `
-      You are an expert photorealistic image editor AI. Your function is to replace products in images.
-      
-      Attached are ${productImages.length} images of the new product for reference.
-      The final attached image is the marketing image.
-      
-      ---
-      CRITICAL INSTRUCTION FROM PRE-ANALYSIS: You must follow this instruction precisely to avoid logical errors.
-      "${analysisInstruction}"
-      ---
-      
-      Your task:
-      1.  Strictly follow the 'CRITICAL INSTRUCTION' above.
-      2.  Seamlessly replace the product in the marketing image with the new product.
-      3.  Match the lighting, shadows, perspective, and scale of the original image for a photorealistic result.
-      4.  The background and all other elements must remain completely unchanged.
-      
-      Output requirements:
-      - YOU MUST output the modified image. An image output is mandatory.
-      - You can provide a brief text description of the edit alongside the image.
-    `;
-
-     const generationPrompt = feedback 
-        ? `${baseTextPrompt}\n\n---
-        NOTE: This is a revised attempt based on user feedback. Pay extra close attention to the new CRITICAL INSTRUCTION to correct the previous failure.
-        ---`
-        : baseTextPrompt;
-
-    const generationPromptParts: Part[] = [
+
+    if (reviewPlan) {
+        const approved = await reviewAttemptPlan(context, analysisInstruction, plannedProducts, Boolean(feedback));
+        analysisInstruction = approved.instruction;
+        plannedProducts = approved.products;
+    }
+
+    const candidateContext = {
+      provider, productImages, marketingImage, productParts, marketingPart, marketingParts, mask,
+      productReferences, productNote, products: plannedProducts, inputImages, attempt, progress, feedback, analysisInstruction, brand,
+    };
+    // Each candidate collects its own logs so parallel candidates don't interleave
+    const candidateLogs: LogEntry[][] = Array.from({ length: variants }, () => []);
+    const settled = await Promise.allSettled(candidateLogs.map((candidateLog, index) =>
+      generateCandidate({ ...candidateContext, variant: variants > 1 ? index + 1 : undefined, logs: candidateLog })
+    ));
+    candidateLogs.forEach(candidateLog => logs.push(...candidateLog));
+
+    const candidates: ReplacementCandidate[] = [];
+    for (const outcome of settled) {
+      if (outcome.status === 'fulfilled') {
+        candidates.push(outcome.value);
+      } else {
+        console.warn("Candidate generation failed:", outcome.reason);
+      }
+    }
+    if (candidates.length === 0) {
+      throw (settled[0] as PromiseRejectedResult).reason;
+    }
+    return {
+      instruction: analysisInstruction,
+      productInstructions: plannedProducts?.map(({ name, instruction }) => ({ product: name, instruction })),
+      candidates: rankCandidates(candidates),
+    };
+};
+
+interface CandidateContext {
+  provider: ModelProvider;
+  productImages: ImageSource[];
+  marketingImage: ImageSource;
+  productParts: ModelPart[];
+  marketingPart: ModelPart;
+  marketingParts: ModelPart[];
+  mask?: ImageSource;
+  productReferences: LabelledImage[];
+  productNote: string;
+  products?: PlannedProduct[];
+  inputImages: LabelledImage[];
+  logs: LogEntry[];
+  attempt?: number;
+  variant?: number;
+  progress: ProgressTracker;
+  feedback?: string;
+  analysisInstruction: string;
+  brand?: BrandGuidelines;
+}
+
+// Numbers each product's images as the generation call attaches them: every product's
+// references in turn, then the marketing image, then the masks of the products that have one.
+const briefProducts = (products: PlannedProduct[]): ReplacementProductBrief[] => {
+  let nextImage = 1;
+  let nextMask = products.reduce((count, product) => count + product.parts.length, 0) + 2;
+  return products.map(product => {
+    const firstImage = nextImage;
+    nextImage += product.parts.length;
+    const primaryOffset = product.references.findIndex(reference => reference.label.endsWith('(primary)'));
+    return {
+      name: product.name,
+      target: product.target,
+      firstImage,
+      imageCount: product.parts.length,
+      primaryImage: primaryOffset >= 0 ? firstImage + primaryOffset : null,
+      maskImage: product.mask ? nextMask++ : null,
+      instruction: product.instruction,
+    };
+  });
+};
+
+// Generates the image with the attempt's instruction and, with a mask, restores everything
+// outside it from the original. Returns the base64 PNG, the model's own image before
+// compositing, and the model's description.
+const generateImage = async ({
+  provider, productImages, marketingImage, productParts, marketingParts, mask,
+  productNote, products, inputImages, logs, attempt, variant, progress, feedback, analysisInstruction,
+}: CandidateContext): Promise<{ image: string; generatedImage: string; text: string | null }> => {
+    const step = progress.stepNumber('imageGeneration');
+    const generationPrompt = products
+      ? renderPrompt(MULTI_PRODUCT_REPLACEMENT_PROMPT, {
+          products: briefProducts(products),
+          marketingImage: productParts.length + 1,
+          isRevision: Boolean(feedback),
+        })
+      : renderPrompt(PRODUCT_REPLACEMENT_PROMPT, {
+          productCount: productImages.length,
+          productNote,
+          hasMask: Boolean(mask),
+          instruction: analysisInstruction,
+          isRevision: Boolean(feedback),
+        });
+
+    const generationPromptParts: ModelPart[] = [
       ...productParts,
-      marketingPart,
-      { text: generationPrompt },
+      ...marketingParts,
+      { text: generationPrompt.text },
     ];
 
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image-preview',
-      contents: {
-        parts: generationPromptParts,
-      },
-      config: {
-        responseModalities: [Modality.IMAGE, Modality.TEXT],
-      },
+    const response = await provider.generate({
+      task: 'imageGeneration',
+      parts: generationPromptParts,
+      prompt: generationPrompt,
     });
     
-    let resultImage: string | null = null;
-    let resultText: string | null = null;
-
-    if (response.candidates && response.candidates.length > 0) {
-        for (const part of response.candidates[0].content.parts) {
-            if (part.inlineData) {
-                resultImage = part.inlineData.data;
-            } else if (part.text) {
-                resultText = part.text;
-            }
-        }
-    }
+    const resultImage: string | null = response.image?.data ?? null;
+    const resultText: string | null = response.text;
+    const failure = resultImage ? undefined : describeResponseFailure(response, 'image') ?? undefined;
 
      logs.push({
-      step: feedback ? 2 : 3,
+      step,
       title: "Product Replacement Image Generation",
-      model: "gemini-2.5-flash-image-preview",
+      model: provider.modelFor('imageGeneration'),
+      template: generationPrompt.template,
+      retries: response.retries,
+      usage: response.usage,
+      attempt,
+      variant,
+      failure,
       input: {
-        prompt: generationPrompt,
-        images: [
-          ...productImages.map((img, i) => ({ label: `Product Image ${i + 1}`, base64: img.base64 })),
-          { label: 'Marketing Image', base64: marketingImage.base64 }
-        ]
+        prompt: generationPrompt.text,
+        images: inputImages
       },
       output: { text: resultText, image: resultImage ? `data:image/png;base64,${resultImage}` : null }
     });
     
     if (!resultImage) {
-        console.warn("Model did not return an image.", response);
-        const errorMessage = resultText 
-            ? `The AI model failed to generate an image and responded with: "${resultText}"`
-            : "The AI model did not return an image. This can be an intermittent issue. Please try again.";
-        throw new Error(errorMessage);
+        const errorMessage = failure?.category === 'blocked'
+            ? blockedMessage(failure)
+            : resultText
+                ? `The AI model failed to generate an image and responded with: "${resultText}"`
+                : "The AI model did not return an image. This can be an intermittent issue. Please try again.";
+        throw new GenerationError(errorMessage, failure ?? { category: 'empty', reason: 'NO_IMAGE' });
+    }
+
+    if (!mask) {
+        return { image: resultImage, generatedImage: resultImage, text: resultText };
     }
+    const generatedImage = `data:image/png;base64,${resultImage}`;
+    const composited = await compositeOutsideMask(marketingImage.base64, generatedImage, mask.base64);
+    logs.push({
+      step,
+      title: "Mask Compositing",
+      model: 'local',
+      template: null,
+      attempt,
+      variant,
+      input: {
+        prompt: 'Pixels outside the mask were restored from the original marketing image.',
+        images: [
+          { label: 'Generated Image', base64: generatedImage },
+          { label: 'Original Marketing Image', base64: marketingImage.base64 },
+          { label: 'Target Region Mask', base64: mask.base64 },
+        ]
+      },
+      output: { image: composited }
+    });
+    return { image: composited.split(',')[1], generatedImage: resultImage, text: resultText };
+};
+
+// Checks each product of a multi-product image against its own references, in parallel. A
+// product whose check fails stays unchecked; the checks of the others are still logged.
+const checkProducts = async (
+  { provider, marketingImage, marketingPart, logs, attempt, variant, progress }: CandidateContext,
+  products: PlannedProduct[],
+  resultImage: string,
+  resultText: string | null
+): Promise<ProductQualityCheck[]> => {
+  const generatedPart: ModelPart = { inlineData: { mimeType: 'image/png', data: resultImage } };
+  const settled = await Promise.allSettled(products.map(async product => {
+    const prompt = renderPrompt(MULTI_PRODUCT_QUALITY_CHECK_PROMPT, {
+      productName: product.name,
+      target: product.target,
+      productNote: product.note,
+      instruction: product.instruction,
+      editorDescription: resultText,
+    });
+    const check = await progress.track('qualityCheck', () =>
+      getQualityCheckFeedback(provider, prompt, product.parts, marketingPart, generatedPart)
+    );
+    return { prompt, ...check };
+  }));
+  const cancelled = settled.find(outcome => outcome.status === 'rejected' && outcome.reason instanceof CancelledError);
+  if (cancelled) throw (cancelled as PromiseRejectedResult).reason;
+
+  const step = progress.stepNumber('qualityCheck');
+  return settled.map((outcome, i) => {
+    const product = products[i];
+    if (outcome.status === 'rejected') {
+      if (outcome.reason instanceof BudgetExceededError) {
+        logs.push({ ...buildBudgetLog(step, outcome.reason, attempt), variant, product: product.name });
+      } else {
+        console.warn(`Quality check of ${product.name} failed:`, outcome.reason);
+      }
+      return { product: product.name, qualityCheck: null };
+    }
+    const { prompt, result, failure, jsonText, response } = outcome.value;
+    logs.push({
+      step,
+      title: "AI Quality Check",
+      model: provider.modelFor('qualityCheck'),
+      template: prompt.template,
+      retries: response.retries,
+      usage: response.usage,
+      attempt,
+      variant,
+      product: product.name,
+      failure,
+      input: {
+        prompt: prompt.text,
+        images: [
+          ...product.references,
+          { label: 'Original Marketing Image', base64: marketingImage.base64 },
+          { label: 'Generated Image', base64: `data:image/png;base64,${resultImage}` },
+        ],
+      },
+      output: { text: jsonText },
+    });
+    return { product: product.name, qualityCheck: result };
+  });
+};
+
+// Generates one candidate image with the attempt's instruction, then checks it.
+const generateCandidate = async (context: CandidateContext): Promise<ReplacementCandidate> => {
+    const {
+      provider, marketingImage, productParts, marketingPart, mask, productReferences, productNote,
+      products, logs, attempt, variant, progress, analysisInstruction, brand,
+    } = context;
+    const { image: resultImage, generatedImage, text: resultText } = await progress.track('imageGeneration', () => generateImage(context));
     
-    // Step 3 (of this run): Perform Quality Check
-    onProgress?.(feedback ? 'Step 3/3: Performing quality check...' : 'Step 4/4: Performing quality check...');
-    let qualityCheck: string | null = null;
-    const qualityCheckPrompt = `
-    You are an expert Quality Assurance specialist for an AI image editor.
-    Your task is to perform a detailed review of an image generation task. I will provide you with several images in this order:
-    1. Reference images of the new product.
-    2. The original marketing image.
-    3. The final generated image.
-
-    Your job is to provide a concise, one-paragraph critique by analyzing these images. Answer the following questions in your analysis:
-    - **Product Accuracy:** Does the product in the **final generated image** accurately match the product from the **reference images**? Are the details, colors, and branding correct?
-    - **Logical Consistency:** Compare the **final generated image** to the **original marketing image**. Are there any logical flaws? For example, was the correct number of items replaced (e.g., one shoe for one shoe)? Is the product placed believably in the scene?
-    - **Instruction Adherence:** Did the generation follow this critical instruction: "${analysisInstruction}"?
-    - **Integration Quality:** How well were lighting, shadows, and perspective matched between the new product and the original scene?
-    - **Overall Realism:** Does the final image look photorealistic and free of noticeable flaws or artifacts?
-
-    CRITICAL INSTRUCTION: "${analysisInstruction}"
-    EDITOR's DESCRIPTION: "${resultText || 'No description provided.'}"
-
-    Provide your final analysis as a single paragraph. Do not use markdown formatting.
-    `;
-    try {
-        const generatedPart: Part = {
-            inlineData: { mimeType: 'image/png', data: resultImage },
-        };
-        qualityCheck = await getQualityCheckFeedback(
-            ai,
-            qualityCheckPrompt,
-            productParts,
-            marketingPart,
-            generatedPart
-        );
-         logs.push({
-            step: feedback ? 3 : 4,
-            title: "AI Quality Check",
-            model: "gemini-2.5-flash",
-            input: {
-                prompt: qualityCheckPrompt,
-                images: [
-                     ...productImages.map((img, i) => ({ label: `Product Image ${i + 1}`, base64: img.base64 })),
-                     { label: 'Original Marketing Image', base64: marketingImage.base64 },
-                     { label: 'Generated Image', base64: `data:image/png;base64,${resultImage}` }
-                ]
-            },
-            output: { text: qualityCheck }
+    // Perform Quality Check
+    let qualityCheck: QualityCheckResult | null = null;
+    let productChecks: ProductQualityCheck[] | undefined;
+    if (products) {
+        productChecks = await checkProducts(context, products, resultImage, resultText);
+        const checked = productChecks.flatMap(({ product, qualityCheck: check }) => check ? [{ product, qualityCheck: check }] : []);
+        qualityCheck = checked.length === products.length ? combineQualityChecks(checked) : null;
+    } else {
+        const qualityCheckPrompt = renderPrompt(QUALITY_CHECK_PROMPT, {
+          productNote,
+          instruction: analysisInstruction,
+          editorDescription: resultText,
         });
+        try {
+            const generatedPart: ModelPart = {
+                inlineData: { mimeType: 'image/png', data: resultImage },
+            };
+            const { result, failure, jsonText, response: qualityCheckResponse } = await progress.track('qualityCheck', () =>
+                getQualityCheckFeedback(provider, qualityCheckPrompt, productParts, marketingPart, generatedPart)
+            );
+             logs.push({
+                step: progress.stepNumber('qualityCheck'),
+                title: "AI Quality Check",
+                model: provider.modelFor('qualityCheck'),
+                template: qualityCheckPrompt.template,
+                retries: qualityCheckResponse.retries,
+                usage: qualityCheckResponse.usage,
+                attempt,
+                variant,
+                failure,
+                input: {
+                    prompt: qualityCheckPrompt.text,
+                    images: [
+                         ...productReferences,
+                         { label: 'Original Marketing Image', base64: marketingImage.base64 },
+                         { label: 'Generated Image', base64: `data:image/png;base64,${resultImage}` }
+                    ]
+                },
+                output: { text: jsonText }
+            });
+            qualityCheck = result;
 
-    } catch (qcError) {
-        console.warn("Quality check step failed:", qcError);
-        qualityCheck = "The AI quality check could not be completed due to an error.";
+        } catch (qcError) {
+            if (qcError instanceof CancelledError) throw qcError;
+            if (qcError instanceof BudgetExceededError) {
+                // The image is already paid for, so it is kept, just unchecked
+                logs.push({ ...buildBudgetLog(progress.stepNumber('qualityCheck'), qcError, attempt), variant });
+            } else {
+                console.warn("Quality check step failed:", qcError);
+            }
+        }
     }
 
+    // Local check that the background really stayed unchanged, independent of the AI judge.
+    // With a mask it measures the model's own image: compositing restores everything outside
+    // the mask, so the final image can't drift there. It needs a canvas, so it is skipped
+    // outside the browser (e.g. in the CLI).
+    let drift: DriftResult | null = null;
+    if (typeof document !== 'undefined') {
+        try {
+            drift = await detectBackgroundDrift(marketingImage.base64, `data:image/png;base64,${generatedImage}`, mask?.base64);
+            logs.push({
+                step: progress.stepNumber('qualityCheck'),
+                title: "Background Drift Check",
+                model: 'local',
+                template: null,
+                attempt,
+                variant,
+                input: {
+                    prompt: DRIFT_REGION_DESCRIPTIONS[drift.regionSource],
+                    images: [
+                        { label: 'Original Marketing Image', base64: marketingImage.base64 },
+                        { label: mask ? 'Generated Image (before compositing)' : 'Generated Image', base64: `data:image/png;base64,${generatedImage}` }
+                    ]
+                },
+                output: {
+                    text: `${drift.score.toFixed(2)}% of background pixels changed noticeably (mean difference ${drift.meanDifference.toFixed(1)}/255).`,
+                    image: drift.heatmap,
+                    metrics: { driftScore: drift.score, meanDifference: drift.meanDifference },
+                }
+            });
+        } catch (driftError) {
+            console.warn("Background drift check failed:", driftError);
+        }
+    }
+
+    const compliance = brand
+        ? await progress.track('brandCheck', () => checkBrandCompliance(context, brand, resultImage))
+        : undefined;
 
-    return { image: resultImage, text: resultText, qualityCheck, logs };
+    return { variant: variant ?? 1, image: resultImage, text: resultText, qualityCheck, productChecks, drift, compliance };
+};
 
+// Checks a candidate against the brand guidelines. The model judges logos, forbidden elements
+// and packaging text; the palette is also measured locally, which again needs a canvas. A
+// failed model call leaves a failed item rather than failing the candidate.
+const checkBrandCompliance = async (
+  { provider, mask, logs, attempt, variant, progress }: CandidateContext,
+  brand: BrandGuidelines,
+  resultImage: string
+): Promise<ComplianceResult> => {
+  const step = progress.stepNumber('brandCheck');
+  const generatedImage = `data:image/png;base64,${resultImage}`;
+  const logoReferences = brand.logos.map((logo, i) => ({
+    label: brand.logos.length > 1 ? `Logo Reference ${i + 1}` : 'Logo Reference',
+    base64: logo.base64,
+  }));
+  let summary = '';
+  const items: ComplianceItem[] = [];
+
+  const prompt = renderPrompt(BRAND_COMPLIANCE_PROMPT, {
+    palette: brand.palette,
+    logoCount: brand.logos.length,
+    forbiddenElements: brand.forbiddenElements,
+    requiredText: brand.requiredText,
+  });
+  try {
+    const response = await provider.generate({
+      task: 'brandCheck',
+      parts: [
+        { inlineData: { mimeType: 'image/png', data: resultImage } },
+        ...brand.logos.map(fileToGenerativePart),
+        { text: prompt.text },
+      ],
+      prompt,
+      responseSchema: brandComplianceSchema(brand),
+    });
+    const jsonText = response.text ?? '';
+    logs.push({
+      step,
+      title: "Brand Compliance Check",
+      model: provider.modelFor('brandCheck'),
+      template: prompt.template,
+      retries: response.retries,
+      usage: response.usage,
+      attempt,
+      variant,
+      input: {
+        prompt: prompt.text,
+        images: [{ label: 'Generated Image', base64: generatedImage }, ...logoReferences],
+      },
+      output: { text: jsonText },
+    });
+    const verdict = parseBrandCompliance(jsonText, brand);
+    summary = verdict.summary;
+    items.push(...verdict.items);
   } catch (error) {
-    console.error("Error calling Gemini API:", error);
+    if (error instanceof CancelledError) throw error;
+    if (error instanceof BudgetExceededError) {
+      logs.push({ ...buildBudgetLog(step, error, attempt), variant });
+    } else {
+      console.warn("Brand compliance check failed:", error);
+    }
+    items.push({
+      category: 'review',
+      label: 'Brand review by the model',
+      passed: false,
+      detail: 'The check could not be completed; review the image by hand.',
+      source: 'model',
+    });
+  }
+
+  if (brand.palette.length > 0 && typeof document !== 'undefined') {
+    try {
+      const measurements = await measureImagePalette(generatedImage, brand.palette, mask?.base64);
+      const measured = paletteItems(measurements);
+      items.push(...measured);
+      logs.push({
+        step,
+        title: "Brand Palette Measurement",
+        model: 'local',
+        template: null,
+        attempt,
+        variant,
+        input: {
+          prompt: `${mask ? 'Dominant colors inside the masked product region' : 'Dominant colors of the generated image'}, compared with each brand color (CIE76 ΔE, tolerance ${PALETTE_TOLERANCE}).`,
+          images: [{ label: 'Generated Image', base64: generatedImage }],
+        },
+        output: {
+          text: measured.map(item => `${item.passed ? 'PASS' : 'FAIL'} ${item.label}: ${item.detail}`).join('\n'),
+          metrics: Object.fromEntries(measurements
+            .filter(measurement => Number.isFinite(measurement.deltaE))
+            .map(measurement => [`deltaE ${measurement.color}`, measurement.deltaE])),
+        },
+      });
+    } catch (paletteError) {
+      console.warn("Brand palette measurement failed:", paletteError);
+    }
+  }
+
+  const passed = items.every(item => item.passed);
+  return combineCompliance(summary || (passed ? 'Meets the brand guidelines.' : 'Does not meet the brand guidelines.'), items);
+};
+
+const candidateScore = (candidate: ReplacementCandidate): number =>
+  candidate.qualityCheck ? averageScore(candidate.qualityCheck) : -1;
+
+// Best first: highest average QA score, then least background drift.
+const rankCandidates = (candidates: ReplacementCandidate[]): ReplacementCandidate[] =>
+  [...candidates].sort((a, b) =>
+    candidateScore(b) - candidateScore(a) || (a.drift?.score ?? Infinity) - (b.drift?.score ?? Infinity)
+  );
+
+const buildSelfCorrectionFeedback = (qualityCheck: QualityCheckResult, failing: QualityCriterion[]): string => {
+  const scores = failing.map(criterion => `${QUALITY_CRITERIA[criterion]} ${qualityCheck.scores[criterion]}/${MAX_SCORE}`).join(', ');
+  const defects = qualityCheck.defects.length > 0 ? ` Fix these defects: ${qualityCheck.defects.join('; ')}` : '';
+  return `The automatic quality check scored the previous result too low (${scores}).${defects}`;
+};
+
+export const replaceProductInImage = async (
+  productImages: ImageSource[],
+  marketingImage: ImageSource,
+  feedback?: string,
+  onProgress?: ProgressListener,
+  options: ReplaceOptions = {}
+): Promise<ReplacementResult> => {
+  // Resolve the provider up front so configuration errors surface unwrapped
+  const provider = createPipelineProvider(options);
+  const primaryProductIndex = Math.min(Math.max(0, options.primaryProductIndex ?? 0), productImages.length - 1);
+
+  return runReplacement({
+    provider,
+    productImages,
+    marketingImage,
+    productParts: productImages.map(fileToGenerativePart),
+    marketingPart: fileToGenerativePart(marketingImage),
+    mask: options.mask,
+    productReferences: labelProductImages(productImages, primaryProductIndex),
+    productNote: describeProductReferences(productImages.length, primaryProductIndex),
+    variants: Math.max(1, options.variants ?? 1),
+    logs: [],
+  }, feedback, onProgress, options);
+};
+
+export type MultiProductReplaceOptions = Omit<ReplaceOptions, 'mask' | 'primaryProductIndex'>;
+
+// Replaces several products in one marketing image as a single job. Each product is planned
+// and quality-checked against its own references; one generation call places them all. With a
+// single product this is the same as replaceProductInImage.
+export const replaceProductsInImage = async (
+  products: ProductTarget[],
+  marketingImage: ImageSource,
+  feedback?: string,
+  onProgress?: ProgressListener,
+  options: MultiProductReplaceOptions = {}
+): Promise<ReplacementResult> => {
+  if (products.length === 1) {
+    const [product] = products;
+    return replaceProductInImage(product.images, marketingImage, feedback, onProgress, {
+      ...options,
+      primaryProductIndex: product.primaryIndex,
+      mask: product.mask ? { base64: product.mask } : undefined,
+    });
+  }
+  const names = products.map(product => product.name.trim());
+  if (products.length === 0 || names.some(name => !name) || new Set(names).size !== names.length) {
+    throw new Error('Each product needs a unique name.');
+  }
+  const provider = createPipelineProvider(options);
+
+  const prepared: PreparedProduct[] = products.map((product, i) => {
+    const primaryIndex = Math.min(Math.max(0, product.primaryIndex), product.images.length - 1);
+    return {
+      name: names[i],
+      target: product.target.trim(),
+      parts: product.images.map(fileToGenerativePart),
+      references: labelProductImages(product.images, primaryIndex, names[i]),
+      note: describeProductReferences(product.images.length, primaryIndex),
+      mask: product.mask ? { base64: product.mask } : undefined,
+    };
+  });
+  // Compositing can only restore what lies outside every product's region
+  const masks = products.map(product => product.mask);
+  const mask = masks.every(Boolean) ? { base64: await unionMasks(masks as string[]) } : undefined;
+
+  return runReplacement({
+    provider,
+    productImages: products.flatMap(product => product.images),
+    marketingImage,
+    productParts: prepared.flatMap(product => product.parts),
+    marketingPart: fileToGenerativePart(marketingImage),
+    mask,
+    productReferences: prepared.flatMap(product => product.references),
+    productNote: '',
+    products: prepared,
+    variants: Math.max(1, options.variants ?? 1),
+    logs: [],
+  }, feedback, onProgress, options);
+};
+
+// Runs attempts until one is good enough (or, without auto-retry, just one) and returns the best.
+const runReplacement = async (
+  context: Omit<AttemptContext, 'attempt' | 'progress' | 'previousAttempt' | 'brand' | 'reviewPlan'>,
+  feedback: string | undefined,
+  onProgress: ProgressListener | undefined,
+  options: MultiProductReplaceOptions
+): Promise<ReplacementResult> => {
+  const { provider, logs } = context;
+  const { autoRetry, signal } = options;
+  const reviewPlan = options.reviewPlan && ((plan: PlanProposal) => untilAborted(options.reviewPlan!(plan), signal));
+  const maxAttempts = autoRetry ? Math.max(1, autoRetry.maxAttempts) : 1;
+  let previousAttempt = options.previousAttempt;
+
+  let best: AttemptResult | null = null;
+  let attemptFeedback = feedback;
+  let attempts = 0;
+
+  try {
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      let result: AttemptResult;
+      try {
+        result = await runAttempt({
+          ...context,
+          attempt: autoRetry ? attempt : undefined,
+          progress: createProgressTracker(
+            planRun(Boolean(attemptFeedback), { planReview: Boolean(reviewPlan), brandCheck: Boolean(options.brand) }),
+            onProgress,
+            autoRetry ? { attempt, maxAttempts } : undefined
+          ),
+          previousAttempt,
+          brand: options.brand,
+          reviewPlan,
+        }, attemptFeedback);
+      } catch (attemptError) {
+        // A failed retry must not discard an earlier, usable attempt, but cancelling stops the run.
+        if (!best || attemptError instanceof CancelledError) throw attemptError;
+        if (attemptError instanceof BudgetExceededError) {
+          logs.push(buildBudgetLog(logs[logs.length - 1].step + 1, attemptError, attempt));
+        } else {
+          console.warn(`Automatic retry attempt ${attempt} failed:`, attemptError);
+          const failure = classifyError(attemptError);
+          if (failure) {
+            const message = attemptError instanceof Error ? attemptError.message : String(attemptError);
+            logs.push(buildFailureLog(logs[logs.length - 1].step, failure, `${message} Keeping the best earlier attempt.`, attempt));
+          }
+        }
+        break;
+      }
+      attempts = attempt;
+
+      // Attempts are compared by their best candidate
+      const top = result.candidates[0];
+      if (!best || candidateScore(top) >= candidateScore(best.candidates[0])) {
+        best = result;
+      }
+      if (!autoRetry || !top.qualityCheck) {
+        break;
+      }
+
+      const failing = findFailingCriteria(top.qualityCheck, autoRetry.thresholds);
+      const willRetry = failing.length > 0 && attempt < maxAttempts;
+      const decision = failing.length === 0
+        ? `All scores meet the thresholds. Accepting attempt ${attempt}.`
+        : willRetry
+          ? buildSelfCorrectionFeedback(top.qualityCheck, failing)
+          : `Scores are still below the thresholds after ${maxAttempts} attempts. Keeping the best-scoring attempt.`;
+      logs.push({
+        step: logs[logs.length - 1].step + 1,
+        title: "Automatic Self-Correction",
+        model: 'local',
+        template: null,
+        attempt,
+        input: {
+          prompt: Object.entries(autoRetry.thresholds)
+            .map(([criterion, threshold]) => `${QUALITY_CRITERIA[criterion as QualityCriterion]} >= ${threshold}`)
+            .join('\n'),
+        },
+        output: { text: decision },
+      });
+      if (!willRetry) {
+        break;
+      }
+      attemptFeedback = decision;
+      previousAttempt = {
+        instruction: result.instruction,
+        image: { base64: `data:image/png;base64,${top.image}` },
+        productInstructions: result.productInstructions,
+      };
+    }
+
+    const { instruction, productInstructions, candidates } = best!;
+    const { image, text, qualityCheck, drift, compliance } = candidates[0];
+    return { image, text, instruction, productInstructions, qualityCheck, drift, compliance, candidates, attempts, logs };
+
+  } catch (error) {
+    if (error instanceof CancelledError) {
+      logs.push(buildCancelledLog(logs.length > 0 ? logs[logs.length - 1].step : 1, logs.length));
+      throw new CancelledError(error.message, logs);
+    }
+    if (error instanceof BudgetExceededError) {
+      logs.push(buildBudgetLog(logs.length > 0 ? logs[logs.length - 1].step + 1 : 1, error));
+      throw new BudgetExceededError(error.message, logs);
+    }
+    console.error(`Error calling the ${provider.name} model provider:`, error);
+    const failure = classifyError(error);
+    if (failure && error instanceof Error) {
+        logs.push(buildFailureLog(logs.length > 0 ? logs[logs.length - 1].step : 1, failure, error.message));
+        throw new GenerationError(`Failed to generate image: ${error.message}`, failure, logs);
+    }
     if (error instanceof Error) {
         throw new Error(`Failed to generate image: ${error.message}`);
     }
     throw new Error("An unknown error occurred while communicating with the AI model.");
   }
-};
\ No newline at end of file
+};
+
+// Fills the gray padding around a finished image with more of its scene, so it can be
+// reframed for a wider or taller placement without cropping. Returns the raw base64 PNG.
+export const outpaintImage = async (
+  paddedImage: ImageSource,
+  label: string,
+  step: number,
+  options: CallOptions = {}
+): Promise<{ image: string; log: LogEntry }> => {
+  const provider = createPipelineProvider(options);
+  const prompt = renderPrompt(OUTPAINT_PROMPT, {});
+  const response = await provider.generate({
+    task: 'imageGeneration',
+    parts: [fileToGenerativePart(paddedImage), { text: prompt.text }],
+    prompt,
+  });
+  const log: LogEntry = {
+    step,
+    title: `Outpainting for ${label}`,
+    model: provider.modelFor('imageGeneration'),
+    template: prompt.template,
+    retries: response.retries,
+    usage: response.usage,
+    input: { prompt: prompt.text, images: [{ label: 'Padded Image', base64: paddedImage.base64 }] },
+    output: { text: response.text, image: response.image ? `data:image/png;base64,${response.image.data}` : null },
+  };
+  if (!response.image) {
+    const failure: FailureInfo = describeResponseFailure(response, 'image') ?? { category: 'empty', reason: 'NO_IMAGE' };
+    const message = failure.category === 'blocked'
+      ? blockedMessage(failure)
+      : response.text
+        ? `The AI model failed to extend the image and responded with: "${response.text}"`
+        : 'The AI model did not return an extended image. Please try again.';
+    throw new GenerationError(message, failure, [{ ...log, failure }]);
+  }
+  return { image: response.image.data, log };
+};
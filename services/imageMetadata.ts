@@ -0,0 +1,144 @@
+import { crc32 } from './crc32';
+
+export type ExportFormat = 'png' | 'jpeg' | 'webp';
+
+// Where an exported image came from. Embedded as XMP, which image viewers, DAMs and ad
+// platforms can read without knowing this app.
+export interface ProvenanceMetadata {
+  jobId: string;
+  attemptId: string | null;
+  variant: number | null;
+  models: string[]; // every model that contributed to the image
+  aiGenerated: boolean;
+  preset: string;
+  createdAt: number; // epoch milliseconds
+}
+
+export const CREATOR_TOOL = 'AI Product Replacer';
+const APP_NAMESPACE = 'https://ai-product-replacer.app/ns/provenance/1.0/';
+// IPTC's term for media created by a generative model.
+const AI_SOURCE_TYPE = 'http://cv.iptc.org/newscodes/digitalsourcetype/trainedAlgorithmicMedia';
+const XMP_PNG_KEYWORD = 'XML:com.adobe.xmp';
+const XMP_JPEG_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+
+const escapeXml = (text: string): string =>
+  text.replace(/[<>&"']/g, char => `&#${char.charCodeAt(0)};`);
+
+export const buildXmpPacket = (metadata: ProvenanceMetadata): string => `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+ <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+  <rdf:Description rdf:about=""
+    xmlns:xmp="http://ns.adobe.com/xap/1.0/"
+    xmlns:Iptc4xmpExt="http://iptc.org/std/Iptc4xmpExt/2008-02-29/"
+    xmlns:apr="${APP_NAMESPACE}"
+    xmp:CreatorTool="${escapeXml(CREATOR_TOOL)}"
+    xmp:CreateDate="${new Date(metadata.createdAt).toISOString()}"
+    ${metadata.aiGenerated ? `Iptc4xmpExt:DigitalSourceType="${AI_SOURCE_TYPE}"` : ''}
+    apr:AIGenerated="${metadata.aiGenerated ? 'True' : 'False'}"
+    apr:JobId="${escapeXml(metadata.jobId)}"
+    ${metadata.attemptId ? `apr:AttemptId="${escapeXml(metadata.attemptId)}"` : ''}
+    ${metadata.variant !== null ? `apr:Variant="${metadata.variant}"` : ''}
+    apr:Preset="${escapeXml(metadata.preset)}">
+   <apr:Models>
+    <rdf:Bag>
+${metadata.models.map(model => `     <rdf:li>${escapeXml(model)}</rdf:li>`).join('\n')}
+    </rdf:Bag>
+   </apr:Models>
+  </rdf:Description>
+ </rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="r"?>`;
+
+const concat = (parts: Uint8Array<ArrayBuffer>[]): Uint8Array<ArrayBuffer> => {
+  const out = new Uint8Array(parts.reduce((size, part) => size + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+// PNG: an uncompressed iTXt chunk with the XMP keyword, placed right after IHDR.
+const embedInPng = (png: Uint8Array<ArrayBuffer>, xmp: Uint8Array<ArrayBuffer>): Uint8Array<ArrayBuffer> => {
+  const keyword = new TextEncoder().encode(XMP_PNG_KEYWORD);
+  // keyword, null separator, compression flag and method, empty language tag and translated keyword
+  const data = concat([keyword, new Uint8Array([0, 0, 0, 0, 0]), xmp]);
+  const type = new TextEncoder().encode('iTXt');
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(type, 4);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(data, crc32(type)));
+
+  const ihdrEnd = 8 + 12 + new DataView(png.buffer, png.byteOffset).getUint32(8); // signature, then IHDR
+  return concat([png.subarray(0, ihdrEnd), chunk, png.subarray(ihdrEnd)]);
+};
+
+// JPEG: an APP1 segment with the XMP namespace header, after the SOI marker and any APP0 (JFIF).
+const embedInJpeg = (jpeg: Uint8Array<ArrayBuffer>, xmp: Uint8Array<ArrayBuffer>): Uint8Array<ArrayBuffer> => {
+  const payload = concat([new TextEncoder().encode(XMP_JPEG_HEADER), xmp]);
+  if (payload.length + 2 > 0xffff) {
+    throw new Error('The metadata is too large for a JPEG segment.');
+  }
+  const segment = new Uint8Array(4 + payload.length);
+  segment.set([0xff, 0xe1, (payload.length + 2) >> 8, (payload.length + 2) & 0xff]);
+  segment.set(payload, 4);
+
+  let insertAt = 2;
+  if (jpeg[2] === 0xff && jpeg[3] === 0xe0) {
+    insertAt = 4 + ((jpeg[4] << 8) | jpeg[5]);
+  }
+  return concat([jpeg.subarray(0, insertAt), segment, jpeg.subarray(insertAt)]);
+};
+
+const fourCC = (bytes: Uint8Array<ArrayBuffer>, offset: number): string =>
+  String.fromCharCode(...bytes.subarray(offset, offset + 4));
+
+const riffChunk = (type: string, data: Uint8Array<ArrayBuffer>): Uint8Array<ArrayBuffer> => {
+  const padded = data.length % 2;
+  const chunk = new Uint8Array(8 + data.length + padded);
+  chunk.set(new TextEncoder().encode(type), 0);
+  new DataView(chunk.buffer).setUint32(4, data.length, true);
+  chunk.set(data, 8);
+  return chunk;
+};
+
+// WebP: an "XMP " chunk, which needs the extended (VP8X) layout with its XMP flag set.
+// Browsers encode the simple layout, so a VP8X header is added with the canvas size.
+const embedInWebp = (webp: Uint8Array<ArrayBuffer>, xmp: Uint8Array<ArrayBuffer>, width: number, height: number): Uint8Array<ArrayBuffer> => {
+  let body = webp.subarray(12); // after "RIFF", size, "WEBP"
+  if (fourCC(body, 0) === 'VP8X') {
+    body = body.slice();
+    body[8] |= 0x04;
+  } else {
+    const header = new Uint8Array(10);
+    header[0] = fourCC(body, 0) === 'VP8L' ? 0x04 | 0x10 : 0x04; // XMP, plus alpha for lossless
+    header.set([(width - 1) & 0xff, ((width - 1) >> 8) & 0xff, ((width - 1) >> 16) & 0xff], 4);
+    header.set([(height - 1) & 0xff, ((height - 1) >> 8) & 0xff, ((height - 1) >> 16) & 0xff], 7);
+    body = concat([riffChunk('VP8X', header), body]);
+  }
+  const content = concat([new TextEncoder().encode('WEBP'), body, riffChunk('XMP ', xmp)]);
+  const out = concat([new TextEncoder().encode('RIFF'), new Uint8Array(4), content]);
+  new DataView(out.buffer).setUint32(4, content.length, true);
+  return out;
+};
+
+// Adds the provenance metadata to an encoded image. Width and height are only needed for WebP.
+export const embedProvenance = (
+  bytes: Uint8Array<ArrayBuffer>,
+  format: ExportFormat,
+  metadata: ProvenanceMetadata,
+  size: { width: number; height: number }
+): Uint8Array<ArrayBuffer> => {
+  const xmp = new TextEncoder().encode(buildXmpPacket(metadata));
+  switch (format) {
+    case 'png':
+      return embedInPng(bytes, xmp);
+    case 'jpeg':
+      return embedInJpeg(bytes, xmp);
+    case 'webp':
+      return embedInWebp(bytes, xmp, size.width, size.height);
+  }
+};
@@ -0,0 +1,162 @@
+import { ImageFile } from '../types';
+
+// Uploads are validated, re-oriented, downscaled and re-encoded before they are inlined into
+// model requests. Re-encoding through a canvas also drops EXIF and other metadata.
+
+export const ACCEPTED_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+export const DEFAULT_MAX_FILE_SIZE_BYTES = 10 * 1024 * 1024;
+export const DEFAULT_MAX_DIMENSION = 2048;
+
+export interface PreprocessOptions {
+  maxFileSizeBytes: number;
+  maxDimension: number; // longest side, in pixels, after downscaling
+}
+
+export const DEFAULT_PREPROCESS_OPTIONS: PreprocessOptions = {
+  maxFileSizeBytes: DEFAULT_MAX_FILE_SIZE_BYTES,
+  maxDimension: DEFAULT_MAX_DIMENSION,
+};
+
+export interface PreprocessFailure {
+  fileName: string;
+  message: string;
+}
+
+export interface PreprocessResult {
+  images: ImageFile[];
+  failures: PreprocessFailure[];
+}
+
+// Messages exchanged with the preprocessing worker.
+export interface PreprocessRequest {
+  id: number;
+  file: File;
+  maxDimension: number;
+}
+
+export type PreprocessResponse =
+  | { id: number; blob: Blob }
+  | { id: number; error: string };
+
+const formatMegabytes = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)}MB`;
+
+// Returns a user-facing reason the file can't be used, or null when it is acceptable.
+export const validateImageFile = (file: File, options: PreprocessOptions): string | null => {
+  if (!ACCEPTED_IMAGE_TYPES.includes(file.type)) {
+    return `Unsupported file type${file.type ? ` (${file.type})` : ''}. Use PNG, JPG, GIF or WebP.`;
+  }
+  if (file.size > options.maxFileSizeBytes) {
+    return `File is ${formatMegabytes(file.size)}, larger than the ${formatMegabytes(options.maxFileSizeBytes)} limit.`;
+  }
+  return null;
+};
+
+// GIFs are flattened to their first frame, so they are re-encoded as PNG.
+const outputTypeFor = (inputType: string) => (inputType === 'image/gif' ? 'image/png' : inputType);
+
+// Decodes the image honouring its EXIF orientation, scales it to fit `maxDimension` and
+// re-encodes it. Works both in a worker (OffscreenCanvas) and on the main thread.
+export const normalizeImage = async (file: Blob, maxDimension: number): Promise<Blob> => {
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  const scale = Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height));
+  const width = Math.max(1, Math.round(bitmap.width * scale));
+  const height = Math.max(1, Math.round(bitmap.height * scale));
+  const type = outputTypeFor(file.type);
+  const quality = type === 'image/png' ? undefined : 0.92;
+
+  try {
+    if (typeof OffscreenCanvas !== 'undefined') {
+      const canvas = new OffscreenCanvas(width, height);
+      canvas.getContext('2d')!.drawImage(bitmap, 0, 0, width, height);
+      return await canvas.convertToBlob({ type, quality });
+    }
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    canvas.getContext('2d')!.drawImage(bitmap, 0, 0, width, height);
+    return await new Promise<Blob>((resolve, reject) =>
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('The image could not be encoded.'))), type, quality)
+    );
+  } finally {
+    bitmap.close();
+  }
+};
+
+let worker: Worker | null = null;
+let nextRequestId = 0;
+const pendingRequests = new Map<number, { resolve: (blob: Blob) => void; reject: (error: Error) => void }>();
+
+// Lazily starts the shared worker; returns null where workers or OffscreenCanvas are unavailable.
+const getWorker = (): Worker | null => {
+  if (worker || typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined') {
+    return worker;
+  }
+  worker = new Worker(new URL('./imagePreprocessing.worker.ts', import.meta.url), { type: 'module' });
+  worker.onmessage = (event: MessageEvent<PreprocessResponse>) => {
+    const response = event.data;
+    const pending = pendingRequests.get(response.id);
+    if (!pending) return;
+    pendingRequests.delete(response.id);
+    if ('blob' in response) {
+      pending.resolve(response.blob);
+    } else {
+      pending.reject(new Error(response.error));
+    }
+  };
+  worker.onerror = event => {
+    console.warn('Image preprocessing worker failed:', event.message);
+    pendingRequests.forEach(pending => pending.reject(new Error('The image preprocessing worker failed.')));
+    pendingRequests.clear();
+    worker = null;
+  };
+  return worker;
+};
+
+const normalizeInWorker = (file: File, maxDimension: number): Promise<Blob> => {
+  const activeWorker = getWorker();
+  if (!activeWorker) {
+    return normalizeImage(file, maxDimension);
+  }
+  const id = nextRequestId++;
+  return new Promise((resolve, reject) => {
+    pendingRequests.set(id, { resolve, reject });
+    activeWorker.postMessage({ id, file, maxDimension } satisfies PreprocessRequest);
+  });
+};
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+const preprocessImageFile = async (file: File, options: PreprocessOptions): Promise<ImageFile> => {
+  const blob = await normalizeInWorker(file, options.maxDimension);
+  // The stored File is the cleaned one, so no original metadata survives anywhere.
+  const cleanFile = new File([blob], file.name, { type: blob.type, lastModified: file.lastModified });
+  return { file: cleanFile, base64: await blobToDataUrl(blob) };
+};
+
+// Preprocesses every file independently so one bad file doesn't reject the others.
+export const preprocessImageFiles = async (
+  files: File[],
+  options: PreprocessOptions = DEFAULT_PREPROCESS_OPTIONS
+): Promise<PreprocessResult> => {
+  const images: ImageFile[] = [];
+  const failures: PreprocessFailure[] = [];
+  const outcomes = await Promise.allSettled(files.map(file => {
+    const validationError = validateImageFile(file, options);
+    return validationError ? Promise.reject(new Error(validationError)) : preprocessImageFile(file, options);
+  }));
+  outcomes.forEach((outcome, index) => {
+    if (outcome.status === 'fulfilled') {
+      images.push(outcome.value);
+    } else {
+      const reason = outcome.reason instanceof Error ? outcome.reason.message : 'The image could not be read.';
+      failures.push({ fileName: files[index].name, message: reason });
+    }
+  });
+  return { images, failures };
+};
@@ -0,0 +1,13 @@
+import { normalizeImage, PreprocessRequest, PreprocessResponse } from './imagePreprocessing';
+
+// Runs decoding, resizing and re-encoding off the main thread.
+self.onmessage = async (event: MessageEvent<PreprocessRequest>) => {
+  const { id, file, maxDimension } = event.data;
+  let response: PreprocessResponse;
+  try {
+    response = { id, blob: await normalizeImage(file, maxDimension) };
+  } catch (error) {
+    response = { id, error: error instanceof Error ? error.message : 'The image could not be decoded.' };
+  }
+  self.postMessage(response);
+};
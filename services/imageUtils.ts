@@ -0,0 +1,72 @@
+// Canvas helpers for local (non-AI) image processing. These need a browser DOM.
+
+export const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Failed to decode image.'));
+    image.src = src;
+  });
+
+// Draws `image` stretched to width x height and returns its pixels.
+export const getPixels = (image: CanvasImageSource, width: number, height: number, filter = 'none'): ImageData => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.filter = filter;
+  ctx.drawImage(image, 0, 0, width, height);
+  return ctx.getImageData(0, 0, width, height);
+};
+
+export const pixelsToDataUrl = (pixels: ImageData): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = pixels.width;
+  canvas.height = pixels.height;
+  canvas.getContext('2d')!.putImageData(pixels, 0, 0);
+  return canvas.toDataURL('image/png');
+};
+
+// Keeps the generated pixels inside the mask (white) and restores everything
+// outside it (black) from the original. The generated image is resized to the
+// original's dimensions first, and the mask edge is feathered to hide the seam.
+export const compositeOutsideMask = async (
+  originalSrc: string,
+  generatedSrc: string,
+  maskSrc: string,
+  featherPx = 4
+): Promise<string> => {
+  const [original, generated, mask] = await Promise.all([originalSrc, generatedSrc, maskSrc].map(loadImage));
+  const width = original.naturalWidth;
+  const height = original.naturalHeight;
+
+  const originalPixels = getPixels(original, width, height);
+  const generatedPixels = getPixels(generated, width, height);
+  const maskPixels = getPixels(mask, width, height, featherPx > 0 ? `blur(${featherPx}px)` : 'none');
+
+  const out = originalPixels.data;
+  for (let i = 0; i < out.length; i += 4) {
+    const weight = maskPixels.data[i] / 255; // the mask is grayscale, so red is enough
+    for (let c = 0; c < 3; c++) {
+      out[i + c] = Math.round(generatedPixels.data[i + c] * weight + out[i + c] * (1 - weight));
+    }
+  }
+  return pixelsToDataUrl(originalPixels);
+};
+
+// Merges black-and-white masks into one whose white area covers all of theirs, at the
+// size of the first mask.
+export const unionMasks = async (maskSrcs: string[]): Promise<string> => {
+  const masks = await Promise.all(maskSrcs.map(loadImage));
+  const width = masks[0].naturalWidth;
+  const height = masks[0].naturalHeight;
+  const union = getPixels(masks[0], width, height);
+  for (const mask of masks.slice(1)) {
+    const pixels = getPixels(mask, width, height).data;
+    for (let i = 0; i < union.data.length; i += 4) {
+      const value = Math.max(union.data[i], pixels[i]);
+      union.data[i] = union.data[i + 1] = union.data[i + 2] = value;
+    }
+  }
+  return pixelsToDataUrl(union);
+};
@@ -0,0 +1,34 @@
+import { JobRecord } from '../types';
+import { JOB_STORE, withStore } from './database';
+
+export const createId = (prefix: string): string =>
+  `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createJobId = (): string => createId('job');
+
+export const createAttemptId = (): string => createId('attempt');
+
+export const saveJob = async (job: JobRecord): Promise<void> => {
+  await withStore(JOB_STORE, 'readwrite', store => store.put(job));
+};
+
+// Newest first.
+export const listJobs = async (): Promise<JobRecord[]> => {
+  const jobs = await withStore<JobRecord[]>(JOB_STORE, 'readonly', store => store.getAll());
+  return jobs.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const INTERRUPTED_JOB_ERROR = 'The job was interrupted: the page was closed or reloaded while it ran.';
+
+// Jobs still in progress when the app starts were cut off by a reload or a closed tab, and
+// are marked failed. A job running in another tab is saved again with its real status as
+// soon as that tab updates it. Returns the number of jobs marked.
+export const markInterruptedJobs = async (): Promise<number> => {
+  const stale = (await listJobs()).filter(job => job.status === 'in-progress');
+  await Promise.all(stale.map(job => saveJob({ ...job, status: 'failed', error: INTERRUPTED_JOB_ERROR, updatedAt: Date.now() })));
+  return stale.length;
+};
+
+export const deleteJob = async (id: string): Promise<void> => {
+  await withStore(JOB_STORE, 'readwrite', store => store.delete(id));
+};
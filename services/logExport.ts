@@ -0,0 +1,216 @@
+import { LogEntry } from '../types';
+import { formatUsage, sumUsage } from './costs';
+import { FAILURE_GUIDANCE, formatFailure } from './failures';
+
+// Exported process logs. Images stay embedded as data URLs, so a bundle is self-contained.
+export const LOG_BUNDLE_FORMAT = 'ai-product-replacer.logs';
+export const LOG_BUNDLE_VERSION = 1;
+
+export interface LogBundle {
+  format: typeof LOG_BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string; // ISO 8601
+  logs: LogEntry[];
+}
+
+export const createLogBundle = (logs: LogEntry[]): LogBundle => ({
+  format: LOG_BUNDLE_FORMAT,
+  version: LOG_BUNDLE_VERSION,
+  exportedAt: new Date().toISOString(),
+  logs,
+});
+
+export const serializeLogBundle = (logs: LogEntry[]): string =>
+  JSON.stringify(createLogBundle(logs), null, 2);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Imported logs are untrusted, so every field the log views render is checked, not just the
+// required ones: a string where a number is expected would break them.
+const isOptional = (value: unknown, check: (value: unknown) => boolean): boolean =>
+  value === undefined || check(value);
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isNullableString = (value: unknown): boolean => value === null || isString(value);
+
+const isArrayOf = (check: (value: unknown) => boolean) => (value: unknown): boolean =>
+  Array.isArray(value) && value.every(check);
+
+const isImage = (value: unknown): boolean =>
+  isRecord(value) && isString(value.label) && isString(value.base64);
+
+const isRetry = (value: unknown): boolean =>
+  isRecord(value) && isNumber(value.attempt) && isString(value.error) && isNumber(value.delayMs);
+
+const isUsage = (value: unknown): boolean =>
+  isRecord(value) && isNumber(value.inputTokens) && isNumber(value.outputTokens) && (value.cost === null || isNumber(value.cost));
+
+const isTemplateRef = (value: unknown): boolean =>
+  value === null || (isRecord(value) && isString(value.id) && isNumber(value.version));
+
+const isFailure = (value: unknown): boolean =>
+  isRecord(value) &&
+  isString(value.category) && Object.keys(FAILURE_GUIDANCE).includes(value.category) &&
+  isString(value.reason) &&
+  isOptional(value.safetyCategories, isArrayOf(isString));
+
+const isMetrics = (value: unknown): boolean => isRecord(value) && Object.values(value).every(isNumber);
+
+const isLogEntry = (value: unknown): value is LogEntry =>
+  isRecord(value) &&
+  isNumber(value.step) &&
+  isString(value.title) &&
+  isString(value.model) &&
+  isOptional(value.template, isTemplateRef) &&
+  isOptional(value.attempt, isNumber) &&
+  isOptional(value.variant, isNumber) &&
+  isOptional(value.product, isString) &&
+  isOptional(value.retries, isArrayOf(isRetry)) &&
+  isOptional(value.usage, isUsage) &&
+  isOptional(value.failure, isFailure) &&
+  isOptional(value.humanEdited, flag => typeof flag === 'boolean') &&
+  isRecord(value.input) &&
+  isString(value.input.prompt) &&
+  isOptional(value.input.images, isArrayOf(isImage)) &&
+  isRecord(value.output) &&
+  isOptional(value.output.text, isNullableString) &&
+  isOptional(value.output.image, isNullableString) &&
+  isOptional(value.output.metrics, isMetrics);
+
+// Parses an exported bundle. A bare LogEntry[] is accepted too, so older CLI log files still load.
+export const parseLogBundle = (json: string): LogBundle => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+
+  const bundle: unknown = Array.isArray(data)
+    ? { format: LOG_BUNDLE_FORMAT, version: LOG_BUNDLE_VERSION, exportedAt: '', logs: data }
+    : data;
+  if (!isRecord(bundle) || bundle.format !== LOG_BUNDLE_FORMAT) {
+    throw new Error('The file is not an exported process log.');
+  }
+  if (typeof bundle.version !== 'number' || bundle.version > LOG_BUNDLE_VERSION) {
+    throw new Error(`Unsupported process log version: ${String(bundle.version)}.`);
+  }
+  if (!Array.isArray(bundle.logs)) {
+    throw new Error('The process log has no entries.');
+  }
+  const invalidIndex = bundle.logs.findIndex(entry => !isLogEntry(entry));
+  if (invalidIndex !== -1) {
+    throw new Error(`Log entry ${invalidIndex + 1} is malformed.`);
+  }
+  // Logs exported before prompt templates were versioned have no template reference
+  const logs = (bundle.logs as LogEntry[]).map(entry => ({ ...entry, template: entry.template ?? null }));
+  return { ...(bundle as unknown as LogBundle), logs };
+};
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+// Only data URLs are embedded; anything else would make the report depend on external files.
+const renderImage = (src: string, label: string): string =>
+  src.startsWith('data:image/')
+    ? `<figure><img src="${escapeHtml(src)}" alt="${escapeHtml(label)}"><figcaption>${escapeHtml(label)}</figcaption></figure>`
+    : '';
+
+const renderEntry = (log: LogEntry): string => {
+  const badges = [
+    log.attempt ? `Attempt ${log.attempt}` : null,
+    log.variant ? `Variant ${log.variant}` : null,
+    log.product ?? null,
+    log.model,
+    log.usage ? formatUsage(log.usage) : null,
+    log.retries?.length ? `Retried ${log.retries.length}×` : null,
+    log.failure ? `Failed: ${formatFailure(log.failure)}` : null,
+    log.humanEdited === undefined ? null : log.humanEdited ? 'Edited by user' : 'Approved as proposed',
+    log.template ? `${log.template.id} v${log.template.version}` : null,
+  ].filter((badge): badge is string => badge !== null);
+  const inputImages = (log.input.images ?? []).map(img => renderImage(img.base64, img.label)).join('');
+  const metrics = log.output.metrics
+    ? `<h4>Metrics</h4><dl>${Object.entries(log.output.metrics)
+        .map(([name, value]) => `<dt>${escapeHtml(name)}</dt><dd>${Number.isInteger(value) ? value : value.toFixed(2)}</dd>`)
+        .join('')}</dl>`
+    : '';
+  const retries = log.retries?.length
+    ? `<h4>Retries</h4><ul>${log.retries
+        .map(retry => `<li>Try ${retry.attempt} failed: ${escapeHtml(retry.error)} (retried after ${(retry.delayMs / 1000).toFixed(1)}s)</li>`)
+        .join('')}</ul>`
+    : '';
+
+  return `
+<section>
+  <h2>Step ${log.step}: ${escapeHtml(log.title)}</h2>
+  <p class="badges">${badges.map(badge => `<span>${escapeHtml(badge)}</span>`).join('')}</p>
+  <div class="columns">
+    <div>
+      <h3>Input</h3>
+      <h4>Prompt</h4>
+      <pre>${escapeHtml(log.input.prompt.trim())}</pre>
+      ${inputImages ? `<h4>Images</h4><div class="images">${inputImages}</div>` : ''}
+    </div>
+    <div>
+      <h3>Output</h3>
+      ${log.output.text ? `<h4>Text Response</h4><blockquote>${escapeHtml(log.output.text)}</blockquote>` : ''}
+      ${log.output.image ? `<h4>Generated Image</h4>${renderImage(log.output.image, 'Generated output')}` : ''}
+      ${metrics}
+      ${retries}
+      ${!log.output.text && !log.output.image ? '<p class="empty">No output was generated in this step.</p>' : ''}
+    </div>
+  </div>
+</section>`;
+};
+
+const REPORT_STYLES = `
+body { font-family: system-ui, sans-serif; background: #111827; color: #e5e7eb; margin: 0; padding: 2rem; }
+h1 { color: #22d3ee; margin: 0; }
+header p { color: #9ca3af; }
+section { background: #1f2937; border: 1px solid #374151; border-radius: 0.5rem; padding: 1rem 1.5rem; margin-top: 1.5rem; }
+h2 { margin: 0; font-size: 1.125rem; }
+h3 { color: #22d3ee; border-bottom: 1px solid #155e75; padding-bottom: 0.25rem; }
+h4 { color: #9ca3af; text-transform: uppercase; font-size: 0.75rem; letter-spacing: 0.05em; }
+.badges span { display: inline-block; font-size: 0.75rem; background: #374151; border-radius: 9999px; padding: 0.125rem 0.5rem; margin-right: 0.5rem; }
+.columns { display: grid; grid-template-columns: 1fr 1fr; gap: 1.5rem; }
+pre { white-space: pre-wrap; font-size: 0.75rem; background: #111827; padding: 0.75rem; border-radius: 0.375rem; }
+blockquote { margin: 0; border-left: 4px solid #4b5563; padding-left: 0.75rem; font-style: italic; }
+.images { display: grid; grid-template-columns: repeat(3, 1fr); gap: 0.5rem; }
+figure { margin: 0; }
+img { width: 100%; height: auto; border-radius: 0.375rem; border: 2px solid #4b5563; }
+figcaption { font-size: 0.75rem; color: #9ca3af; text-align: center; }
+dl { display: grid; grid-template-columns: auto 1fr; gap: 0.25rem 1rem; font-size: 0.75rem; }
+dt { color: #9ca3af; }
+dd { margin: 0; font-family: monospace; }
+.empty { color: #6b7280; }
+@media (max-width: 768px) { .columns { grid-template-columns: 1fr; } }
+`;
+
+// Renders the logs as a standalone HTML page with every image embedded.
+export const renderLogReport = (logs: LogEntry[], exportedAt: Date = new Date()): string => `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<title>Process Log Report</title>
+<style>${REPORT_STYLES}</style>
+</head>
+<body>
+<header>
+  <h1>Process Log Report</h1>
+  <p>${logs.length} step${logs.length === 1 ? '' : 's'} · exported ${escapeHtml(exportedAt.toLocaleString())}${
+    logs.some(log => log.usage) ? ` · ${escapeHtml(formatUsage(sumUsage(logs)))}` : ''
+  }</p>
+</header>
+${logs.map(renderEntry).join('\n')}
+</body>
+</html>
+`;
@@ -0,0 +1,151 @@
+import { ModelCallRetry } from '../types';
+import { CancelledError, ModelCallError, NetworkError, TimeoutError } from './errors';
+import type { ModelProvider, ModelRequest, ModelResponse } from './modelProvider';
+import type { CostLedger } from './costs';
+
+// How each model call is bounded and retried.
+export interface CallPolicy {
+  timeoutMs: number;   // per try, not for the whole call
+  maxRetries: number;  // retries after the first try, for retryable errors only
+  baseDelayMs: number; // backoff before the first retry; doubles for each further retry
+  maxDelayMs: number;
+}
+
+export const DEFAULT_CALL_POLICY: CallPolicy = {
+  timeoutMs: 120_000,
+  maxRetries: 2,
+  baseDelayMs: 1_000,
+  maxDelayMs: 16_000,
+};
+
+// Options shared by every pipeline entry point that calls a model.
+export interface CallOptions {
+  signal?: AbortSignal;
+  callPolicy?: Partial<CallPolicy>;
+  // Every call is charged to these, and refused once one of them is at its limit.
+  ledgers?: CostLedger[];
+}
+
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+// Timeouts, rate limits, server errors and network failures are worth retrying; invalid
+// requests, blocked content and cancellations are not.
+export const isRetryableError = (error: unknown): boolean =>
+  error instanceof TimeoutError ||
+  error instanceof NetworkError ||
+  (error instanceof ModelCallError && error.status !== undefined && RETRYABLE_STATUSES.has(error.status));
+
+export const throwIfAborted = (signal?: AbortSignal): void => {
+  if (signal?.aborted) {
+    throw new CancelledError();
+  }
+};
+
+// Resolves after `ms`, or rejects with a CancelledError as soon as `signal` aborts.
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CancelledError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Settles like `promise`, or rejects with a CancelledError as soon as `signal` aborts. For
+// waits the signal can't reach on its own, such as a user's answer.
+export const untilAborted = <T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CancelledError());
+      return;
+    }
+    const onAbort = () => reject(new CancelledError());
+    signal?.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      value => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      error => {
+        signal?.removeEventListener('abort', onAbort);
+        reject(error);
+      },
+    );
+  });
+
+// Full jitter keeps parallel candidates from retrying in lockstep.
+const backoffDelay = (retry: number, policy: CallPolicy): number =>
+  Math.round(Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (retry - 1)) * (0.5 + Math.random() / 2));
+
+// One try, bounded by the timeout. The race also covers providers that ignore the signal.
+const tryOnce = async (
+  provider: ModelProvider,
+  request: ModelRequest,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<ModelResponse> => {
+  throwIfAborted(signal);
+  const controller = new AbortController();
+  let rejectAbort: (error: Error) => void = () => {};
+  const aborted = new Promise<never>((_, reject) => { rejectAbort = reject; });
+  const onAbort = () => {
+    controller.abort();
+    rejectAbort(new CancelledError());
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+  const timer = setTimeout(() => {
+    controller.abort();
+    rejectAbort(new TimeoutError(`The ${request.task} call timed out after ${Math.round(timeoutMs / 1000)}s.`));
+  }, timeoutMs);
+
+  try {
+    return await Promise.race([provider.generate({ ...request, signal: controller.signal }), aborted]);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+};
+
+// Wraps a provider so every call gets the policy's timeout and retries, and stops on `signal`.
+// Responses that needed retries report them in `retries`, so they can be logged.
+export const withCallPolicy = (
+  provider: ModelProvider,
+  policy: Partial<CallPolicy> = {},
+  signal?: AbortSignal
+): ModelProvider => {
+  const resolved = { ...DEFAULT_CALL_POLICY, ...policy };
+  return {
+    ...provider,
+    generate: async (request) => {
+      const retries: ModelCallRetry[] = [];
+      for (let attempt = 1; ; attempt++) {
+        try {
+          const response = await tryOnce(provider, request, resolved.timeoutMs, signal);
+          return retries.length > 0 ? { ...response, retries } : response;
+        } catch (error) {
+          if (signal?.aborted) {
+            throw new CancelledError();
+          }
+          if (attempt > resolved.maxRetries || !isRetryableError(error)) {
+            throw error;
+          }
+          // A server that says when to come back is taken at its word
+          const retryAfterMs = error instanceof ModelCallError ? error.retryAfterMs ?? 0 : 0;
+          const delayMs = Math.max(backoffDelay(attempt, resolved), retryAfterMs);
+          const message = error instanceof Error ? error.message : String(error);
+          console.warn(`Retrying ${request.task} call in ${delayMs}ms after: ${message}`);
+          retries.push({ attempt, error: message, delayMs });
+          await sleep(delayMs, signal);
+        }
+      }
+    },
+  };
+};
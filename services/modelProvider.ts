@@ -0,0 +1,89 @@
+import type { ModelCallRetry, TokenUsage } from '../types';
+import type { RenderedPrompt } from './prompts';
+import { createHttpProvider } from './providers/httpProvider';
+import { createMockProvider } from './providers/mockProvider';
+
+// The distinct model calls made by the replacement pipeline. Providers map each
+// task to a concrete model, so the pipeline never hard-codes model names.
+export type ModelTask = 'referenceAnalysis' | 'instruction' | 'imageGeneration' | 'qualityCheck' | 'brandCheck';
+
+export interface InlineImage {
+  mimeType: string; // e.g., "image/png"
+  data: string;     // raw base64, without the data URL prefix
+}
+
+export type ModelPart = { text: string } | { inlineData: InlineImage };
+
+// A provider-neutral subset of JSON schema, used for structured (JSON) responses.
+export interface ResponseSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, ResponseSchema>;
+  items?: ResponseSchema;
+  required?: string[];
+  enum?: string[];
+}
+
+export interface ModelRequest {
+  task: ModelTask;
+  parts: ModelPart[];
+  // The prompt of the request's text part, so the proxy server can render it again itself.
+  prompt: RenderedPrompt;
+  // When set, the model must answer with JSON matching this schema.
+  responseSchema?: ResponseSchema;
+  // Providers should abandon the call when this aborts.
+  signal?: AbortSignal;
+}
+
+export type TokenCounts = Omit<TokenUsage, 'cost'>;
+
+export interface SafetyRating {
+  category: string; // e.g. "HARM_CATEGORY_DANGEROUS_CONTENT"
+  probability?: string; // e.g. "MEDIUM"
+  blocked?: boolean;
+}
+
+// How the model's answer ended, as far as the provider reports it, so safety blocks, refusals
+// and empty answers can be told apart. The values follow the Gemini API's names.
+export interface ResponseSignals {
+  finishReason?: string; // e.g. "STOP", "SAFETY", "IMAGE_SAFETY", "MAX_TOKENS"
+  blockReason?: string; // set when the prompt itself was blocked, e.g. "PROHIBITED_CONTENT"
+  safetyRatings?: SafetyRating[];
+}
+
+export interface ModelResponse {
+  text: string | null;
+  image: InlineImage | null;
+  tokens?: TokenCounts; // reported by the provider, when it counts tokens
+  signals?: ResponseSignals;
+  retries?: ModelCallRetry[]; // set by withCallPolicy when the call needed retries
+  usage?: TokenUsage; // `tokens` priced by withCostTracking
+}
+
+export interface ModelProvider {
+  name: string;
+  modelFor: (task: ModelTask) => string;
+  generate: (request: ModelRequest) => Promise<ModelResponse>;
+}
+
+let activeProvider: ModelProvider | null = null;
+
+// Overrides the provider used by the pipeline, e.g. from the CLI or tests.
+// Passing null restores the environment-based default: the mock provider when
+// MODEL_PROVIDER=mock, otherwise the proxy server at MODEL_PROXY_URL (default "/api").
+// The API key only lives in the proxy server, never in the app.
+export const setModelProvider = (provider: ModelProvider | null): void => {
+  activeProvider = provider;
+};
+
+export const getModelProvider = (): ModelProvider => {
+  if (activeProvider) {
+    return activeProvider;
+  }
+  if (process.env.MODEL_PROVIDER === 'mock') {
+    activeProvider = createMockProvider({ delayMs: 500 });
+    return activeProvider;
+  }
+  activeProvider = createHttpProvider(process.env.MODEL_PROXY_URL || '/api');
+  return activeProvider;
+};
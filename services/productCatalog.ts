@@ -0,0 +1,163 @@
+import { CatalogProduct, ImageFile, ImageSource, ReferenceAnalysis, ReferenceVerdict } from '../types';
+import { CATALOG_STORE, withStore } from './database';
+import { createId } from './jobHistory';
+import { crc32 } from './crc32';
+
+// The local library of products and their reference sets, kept in IndexedDB.
+
+export const createProductId = (): string => createId('product');
+
+export const saveCatalogProduct = async (product: CatalogProduct): Promise<void> => {
+  await withStore(CATALOG_STORE, 'readwrite', store => store.put(product));
+};
+
+// Alphabetical by name.
+export const listCatalogProducts = async (): Promise<CatalogProduct[]> => {
+  const products = await withStore<CatalogProduct[]>(CATALOG_STORE, 'readonly', store => store.getAll());
+  return products.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const deleteCatalogProduct = async (id: string): Promise<void> => {
+  await withStore(CATALOG_STORE, 'readwrite', store => store.delete(id));
+};
+
+const imageFingerprints = new WeakMap<ImageSource, string>();
+
+// Identifies an image by content. Hashes are cached per image object since the data URLs are large.
+export const imageFingerprint = (image: ImageSource): string => {
+  let fingerprint = imageFingerprints.get(image);
+  if (!fingerprint) {
+    fingerprint = `${crc32(new TextEncoder().encode(image.base64)).toString(16)}.${image.base64.length}`;
+    imageFingerprints.set(image, fingerprint);
+  }
+  return fingerprint;
+};
+
+// Identifies a set of reference images, ignoring their order, which doesn't affect the check.
+export const referenceFingerprint = (images: ImageSource[]): string =>
+  images.map(imageFingerprint).sort().join('-');
+
+// Stores a reference analysis so it can be matched to the same images in any order.
+export const createReferenceVerdict = (images: ImageSource[], analysis: ReferenceAnalysis): ReferenceVerdict => ({
+  areImagesSuitable: analysis.areImagesSuitable,
+  reasoning: analysis.reasoning,
+  images: analysis.images.map((assessment, i) => ({ ...assessment, fingerprint: imageFingerprint(images[i]) })),
+  missingViewpoints: analysis.missingViewpoints,
+  checkedAt: Date.now(),
+  fingerprint: referenceFingerprint(images),
+});
+
+// Turns a stored verdict back into the analysis of `images`, in their current order. Verdicts
+// stored before images were assessed one by one can't be, and have to be checked again.
+export const verdictToAnalysis = (verdict: ReferenceVerdict, images: ImageSource[]): ReferenceAnalysis | null => {
+  if (!verdict.images || verdict.fingerprint !== referenceFingerprint(images)) return null;
+  const stored = verdict.images;
+  const assessments = images.map(image => stored.find(assessment => assessment.fingerprint === imageFingerprint(image)));
+  if (assessments.some(assessment => !assessment)) return null;
+  return {
+    areImagesSuitable: verdict.areImagesSuitable,
+    reasoning: verdict.reasoning,
+    images: assessments.map(assessment => {
+      const { isSuitable, problem, detail, viewpoint } = assessment!;
+      return { isSuitable, problem, detail, viewpoint };
+    }),
+    missingViewpoints: verdict.missingViewpoints ?? [],
+  };
+};
+
+// The stored reference check of exactly these images, if any catalog product has one.
+export const findStoredVerdict = (
+  catalog: CatalogProduct[],
+  images: ImageSource[]
+): { product: CatalogProduct; analysis: ReferenceAnalysis; checkedAt: number } | null => {
+  if (catalog.length === 0 || images.length === 0) return null;
+  for (const product of catalog) {
+    const analysis = product.verdict && verdictToAnalysis(product.verdict, images);
+    if (analysis) return { product, analysis, checkedAt: product.verdict!.checkedAt };
+  }
+  return null;
+};
+
+// Exported catalogs embed the images as data URLs, so a file is self-contained.
+export const CATALOG_FORMAT = 'ai-product-replacer.catalog';
+export const CATALOG_VERSION = 1;
+
+interface CatalogFile {
+  format: typeof CATALOG_FORMAT;
+  version: number;
+  exportedAt: string; // ISO 8601
+  products: (Omit<CatalogProduct, 'images'> & { images: { name: string; base64: string }[] })[];
+}
+
+export const serializeCatalog = (products: CatalogProduct[]): string => {
+  const file: CatalogFile = {
+    format: CATALOG_FORMAT,
+    version: CATALOG_VERSION,
+    exportedAt: new Date().toISOString(),
+    products: products.map(product => ({
+      ...product,
+      images: product.images.map(image => ({ name: image.file.name, base64: image.base64 })),
+    })),
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const dataUrlToImageFile = (base64: string, name: string): ImageFile => {
+  const matches = base64.match(/^data:(image\/[\w.+-]+);base64,(.+)$/);
+  if (!matches) {
+    throw new Error(`"${name}" is not an embedded image.`);
+  }
+  const binary = atob(matches[2]);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return { base64, file: new File([bytes], name, { type: matches[1] }) };
+};
+
+// Parses an exported catalog back into products, ready to be saved.
+export const parseCatalog = (json: string): CatalogProduct[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  if (!isRecord(data) || data.format !== CATALOG_FORMAT) {
+    throw new Error('The file is not an exported product catalog.');
+  }
+  if (typeof data.version !== 'number' || data.version > CATALOG_VERSION) {
+    throw new Error(`Unsupported product catalog version: ${String(data.version)}.`);
+  }
+  if (!Array.isArray(data.products)) {
+    throw new Error('The product catalog has no products.');
+  }
+  return data.products.map((entry: unknown, index: number): CatalogProduct => {
+    if (
+      !isRecord(entry) || typeof entry.id !== 'string' || typeof entry.name !== 'string' ||
+      !Array.isArray(entry.images) || entry.images.length === 0 ||
+      !entry.images.every(image => isRecord(image) && typeof image.name === 'string' && typeof image.base64 === 'string')
+    ) {
+      throw new Error(`Product ${index + 1} is malformed.`);
+    }
+    const images = (entry.images as { name: string; base64: string }[]).map(image => dataUrlToImageFile(image.base64, image.name));
+    const verdict = isRecord(entry.verdict) && typeof entry.verdict.areImagesSuitable === 'boolean' && typeof entry.verdict.fingerprint === 'string'
+      ? entry.verdict as unknown as ReferenceVerdict
+      : null;
+    return {
+      id: entry.id,
+      name: entry.name,
+      sku: typeof entry.sku === 'string' ? entry.sku : '',
+      category: typeof entry.category === 'string' ? entry.category : '',
+      notes: typeof entry.notes === 'string' ? entry.notes : '',
+      images,
+      primaryIndex: typeof entry.primaryIndex === 'number' ? Math.min(Math.max(0, entry.primaryIndex), images.length - 1) : 0,
+      verdict,
+      createdAt: typeof entry.createdAt === 'number' ? entry.createdAt : Date.now(),
+      updatedAt: typeof entry.updatedAt === 'number' ? entry.updatedAt : Date.now(),
+    };
+  });
+};
@@ -0,0 +1,157 @@
+import { PipelinePhase, PipelineStepId, ProgressEvent, StepStatus } from '../types';
+import { CancelledError } from './errors';
+
+export type ProgressListener = (event: ProgressEvent) => void;
+
+export const PIPELINE_STEPS: Record<PipelineStepId, { title: string; phase: PipelinePhase }> = {
+  referenceCheck: { title: 'Checking reference image quality', phase: 'preflight' },
+  feedbackAnalysis: { title: 'Analyzing user feedback', phase: 'planning' },
+  consistencyAnalysis: { title: 'Analyzing for logical consistency', phase: 'planning' },
+  planReview: { title: 'Waiting for plan approval', phase: 'planning' },
+  imageGeneration: { title: 'Generating new image', phase: 'generation' },
+  qualityCheck: { title: 'Performing quality check', phase: 'review' },
+  brandCheck: { title: 'Checking brand compliance', phase: 'review' },
+};
+
+// The one place the order of a run's steps is defined. Progress indices and LogEntry.step
+// numbers are both derived from it. A revision skips the reference check, since the
+// references were already checked when the job started. A reviewed plan waits for approval
+// before generating, and jobs with a brand profile end with the brand check.
+export interface RunPlanOptions {
+  planReview?: boolean;
+  brandCheck?: boolean;
+}
+
+export const planRun = (isRevision: boolean, { planReview = false, brandCheck = false }: RunPlanOptions = {}): PipelineStepId[] => [
+  ...(isRevision ? ['feedbackAnalysis' as const] : ['referenceCheck' as const, 'consistencyAnalysis' as const]),
+  ...(planReview ? ['planReview' as const] : []),
+  'imageGeneration',
+  'qualityCheck',
+  ...(brandCheck ? ['brandCheck' as const] : []),
+];
+
+export interface AttemptInfo {
+  attempt: number;
+  maxAttempts: number;
+}
+
+export interface ProgressTracker {
+  plan: PipelineStepId[];
+  stepNumber: (stepId: PipelineStepId) => number;
+  // Runs `work` as (part of) a step. Candidates generated in parallel share a step: it is
+  // running until the last of them settles, and fails only if all of them failed.
+  track: <T>(stepId: PipelineStepId, work: () => Promise<T>) => Promise<T>;
+}
+
+interface StepState {
+  startedAt: number | null;
+  finishedAt: number | null;
+  active: number;
+  runs: number;
+  failures: number;
+  cancelled: boolean;
+}
+
+export const createProgressTracker = (
+  plan: PipelineStepId[],
+  onProgress?: ProgressListener,
+  attemptInfo?: AttemptInfo
+): ProgressTracker => {
+  const states = new Map<PipelineStepId, StepState>();
+  const stepNumber = (stepId: PipelineStepId) => plan.indexOf(stepId) + 1;
+
+  const emit = (stepId: PipelineStepId, state: StepState, status: StepStatus) => {
+    onProgress?.({
+      stepId,
+      ...PIPELINE_STEPS[stepId],
+      index: stepNumber(stepId),
+      total: plan.length,
+      plan,
+      status,
+      startedAt: state.startedAt,
+      finishedAt: state.finishedAt,
+      ...attemptInfo,
+    });
+  };
+
+  const settle = (stepId: PipelineStepId, state: StepState) => {
+    state.active -= 1;
+    if (state.active > 0) return;
+    state.finishedAt = Date.now();
+    emit(stepId, state, state.cancelled ? 'cancelled' : state.failures === state.runs ? 'failed' : 'completed');
+  };
+
+  const track = async <T>(stepId: PipelineStepId, work: () => Promise<T>): Promise<T> => {
+    let state = states.get(stepId);
+    if (!state || (state.active === 0 && state.finishedAt !== null)) {
+      state = { startedAt: Date.now(), finishedAt: null, active: 0, runs: 0, failures: 0, cancelled: false };
+      states.set(stepId, state);
+    }
+    state.active += 1;
+    state.runs += 1;
+    if (state.active === 1) {
+      emit(stepId, state, 'running');
+    }
+    try {
+      const result = await work();
+      settle(stepId, state);
+      return result;
+    } catch (error) {
+      state.failures += 1;
+      state.cancelled ||= error instanceof CancelledError;
+      settle(stepId, state);
+      throw error;
+    }
+  };
+
+  return { plan, stepNumber, track };
+};
+
+// Folds an event into the list of steps shown to the user, with a pending entry for every
+// step that hasn't started yet. A different plan (e.g. a self-correction attempt) starts over,
+// except that steps ahead of the event's step which are also in the old plan keep their
+// status: a plan that gained steps partway through a run has still done those.
+export const applyProgressEvent = (steps: ProgressEvent[], event: ProgressEvent): ProgressEvent[] => {
+  const samePlan = steps.length === event.plan.length && steps.every((step, i) => step.stepId === event.plan[i]);
+  const base = samePlan
+    ? steps
+    : event.plan.map((stepId, i) => {
+        const earlier = i + 1 < event.index ? steps.find(step => step.stepId === stepId) : undefined;
+        return {
+          stepId,
+          ...PIPELINE_STEPS[stepId],
+          index: i + 1,
+          total: event.plan.length,
+          plan: event.plan,
+          status: earlier?.status ?? 'pending',
+          startedAt: earlier?.startedAt ?? null,
+          finishedAt: earlier?.finishedAt ?? null,
+        };
+      });
+  return base.map(step => ({
+    ...(step.index === event.index ? event : step),
+    attempt: event.attempt,
+    maxAttempts: event.maxAttempts,
+  }));
+};
+
+export const formatDuration = (ms: number): string =>
+  ms < 60_000 ? `${(ms / 1000).toFixed(1)}s` : `${Math.floor(ms / 60_000)}m ${Math.round((ms % 60_000) / 1000)}s`;
+
+// One-line description for plain-text progress, e.g. "Attempt 2/3 · Step 1/3: Analyzing user feedback...".
+export const formatProgressEvent = (event: ProgressEvent): string => {
+  const prefix = event.attempt ? `Attempt ${event.attempt}/${event.maxAttempts} · ` : '';
+  const step = `Step ${event.index}/${event.total}: ${event.title}`;
+  switch (event.status) {
+    case 'running':
+      return `${prefix}${step}...`;
+    case 'pending':
+      return `${prefix}${step}`;
+    default: {
+      const duration = event.startedAt !== null && event.finishedAt !== null
+        ? ` in ${formatDuration(event.finishedAt - event.startedAt)}`
+        : '';
+      return `${prefix}${step} ${event.status}${duration}.`;
+    }
+  }
+};
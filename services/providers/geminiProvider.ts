@@ -0,0 +1,101 @@
+import { ApiError, GenerateContentResponse, GoogleGenAI, Modality, Schema, Type } from "@google/genai";
+import type { InlineImage, ModelProvider, ModelTask, ResponseSchema, ResponseSignals, TokenCounts } from '../modelProvider';
+import { ModelCallError, NetworkError } from '../errors';
+
+const GEMINI_MODELS: Record<ModelTask, string> = {
+  referenceAnalysis: 'gemini-2.5-flash',
+  instruction: 'gemini-2.5-flash',
+  imageGeneration: 'gemini-2.5-flash-image-preview',
+  qualityCheck: 'gemini-2.5-flash',
+  brandCheck: 'gemini-2.5-flash',
+};
+
+const toGeminiSchema = (schema: ResponseSchema): Schema => ({
+  type: schema.type.toUpperCase() as Type,
+  description: schema.description,
+  properties: schema.properties
+    ? Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)]))
+    : undefined,
+  items: schema.items ? toGeminiSchema(schema.items) : undefined,
+  required: schema.required,
+  enum: schema.enum,
+});
+
+const toTokenCounts = (response: GenerateContentResponse): TokenCounts | undefined => {
+  const usage = response.usageMetadata;
+  if (!usage) return undefined;
+  return {
+    inputTokens: usage.promptTokenCount ?? 0,
+    // Thinking tokens are billed as output
+    outputTokens: (usage.candidatesTokenCount ?? 0) + (usage.thoughtsTokenCount ?? 0),
+  };
+};
+
+const toSignals = (response: GenerateContentResponse): ResponseSignals => {
+  const candidate = response.candidates?.[0];
+  return {
+    finishReason: candidate?.finishReason,
+    blockReason: response.promptFeedback?.blockReason,
+    safetyRatings: (candidate?.safetyRatings ?? response.promptFeedback?.safetyRatings)?.map(rating => ({
+      category: rating.category ?? 'HARM_CATEGORY_UNSPECIFIED',
+      probability: rating.probability,
+      blocked: rating.blocked,
+    })),
+  };
+};
+
+export const createGeminiProvider = (apiKey: string, models: Partial<Record<ModelTask, string>> = {}): ModelProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+  const resolvedModels = { ...GEMINI_MODELS, ...models };
+
+  return {
+    name: 'gemini',
+    modelFor: (task) => resolvedModels[task],
+    generate: async ({ task, parts, responseSchema, signal }) => {
+      let response: GenerateContentResponse;
+      try {
+        response = await ai.models.generateContent({
+          model: resolvedModels[task],
+          contents: { parts },
+          config: {
+            ...(task === 'imageGeneration'
+              ? { responseModalities: [Modality.IMAGE, Modality.TEXT] }
+              : responseSchema
+                ? { responseMimeType: 'application/json', responseSchema: toGeminiSchema(responseSchema) }
+                : {}),
+            abortSignal: signal,
+          },
+        });
+      } catch (error) {
+        // Normalized so retry decisions don't depend on the SDK's error types
+        if (error instanceof ApiError) {
+          throw new ModelCallError(error.message, error.status);
+        }
+        // The SDK's fetch() rejects with a TypeError when the request itself fails
+        if (error instanceof TypeError) {
+          throw new NetworkError(error.message);
+        }
+        throw error;
+      }
+
+      if (task !== 'imageGeneration') {
+        return { text: response.text?.trim() ?? null, image: null, tokens: toTokenCounts(response), signals: toSignals(response) };
+      }
+
+      // The image model interleaves text and image parts; keep the last of each.
+      let image: InlineImage | null = null;
+      let text: string | null = null;
+      for (const part of response.candidates?.[0]?.content?.parts ?? []) {
+        if (part.inlineData?.data) {
+          image = { mimeType: part.inlineData.mimeType ?? 'image/png', data: part.inlineData.data };
+        } else if (part.text) {
+          text = part.text;
+        }
+      }
+      if (!image) {
+        console.warn("Model did not return an image.", response);
+      }
+      return { text, image, tokens: toTokenCounts(response), signals: toSignals(response) };
+    },
+  };
+};
@@ -0,0 +1,78 @@
+import type { PromptTemplateRef } from '../../types';
+import type { InlineImage, ModelProvider, ModelResponse, ModelTask, ResponseSchema } from '../modelProvider';
+import { ModelCallError, NetworkError } from '../errors';
+
+// The proxy server's route for each task, relative to its base URL. Shared with server/proxyServer.ts.
+export const PROXY_ROUTES: Record<ModelTask, string> = {
+  referenceAnalysis: '/reference-analysis',
+  instruction: '/replacement/instruction',
+  imageGeneration: '/replacement/image',
+  qualityCheck: '/quality-check',
+  brandCheck: '/brand-check',
+};
+
+// No prompt text is sent: the server renders the prompt from its own copy of the template and
+// attaches it after the images, so the API key can't be spent on prompts of the client's choosing.
+export interface ProxyRequestBody {
+  images: InlineImage[];
+  template: PromptTemplateRef;
+  vars: unknown;
+  responseSchema?: ResponseSchema;
+}
+
+export interface ProxyResponseBody extends Pick<ModelResponse, 'text' | 'image' | 'tokens' | 'signals'> {
+  model: string;
+}
+
+// Retry-After is either a number of seconds or an HTTP date.
+const parseRetryAfter = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+  const ms = /^\d+$/.test(value.trim()) ? Number(value) * 1000 : Date.parse(value) - Date.now();
+  return Number.isFinite(ms) ? Math.max(0, ms) : undefined;
+};
+
+// Calls the model through the local proxy server, which holds the API key. Model names are
+// only known once the server has answered, so until then they read "proxy-<task>".
+export const createHttpProvider = (baseUrl: string): ModelProvider => {
+  const root = baseUrl.replace(/\/+$/, '');
+  const models: Partial<Record<ModelTask, string>> = {};
+
+  return {
+    name: 'proxy',
+    modelFor: (task) => models[task] ?? `proxy-${task}`,
+    generate: async ({ task, parts, prompt, responseSchema, signal }) => {
+      const body: ProxyRequestBody = {
+        images: parts.flatMap(part => ('inlineData' in part ? [part.inlineData] : [])),
+        template: prompt.template,
+        vars: prompt.vars,
+        responseSchema,
+      };
+      let response: Response;
+      try {
+        response = await fetch(`${root}${PROXY_ROUTES[task]}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+          signal,
+        });
+      } catch (error) {
+        // fetch() rejects with a TypeError when the request itself fails; aborts pass through
+        if (error instanceof TypeError) {
+          throw new NetworkError(`The proxy server could not be reached: ${error.message}`);
+        }
+        throw error;
+      }
+      if (!response.ok) {
+        const error = await response.json().catch(() => null) as { error?: string } | null;
+        throw new ModelCallError(
+          error?.error ?? `The proxy server responded with ${response.status}.`,
+          response.status,
+          parseRetryAfter(response.headers.get('Retry-After'))
+        );
+      }
+      const { model, text, image, tokens, signals } = await response.json() as ProxyResponseBody;
+      models[task] = model;
+      return { text, image, tokens, signals };
+    },
+  };
+};
@@ -0,0 +1,90 @@
+import type { ModelProvider, ModelRequest, ModelResponse, ModelTask, TokenCounts } from '../modelProvider';
+import { sleep } from '../modelCall';
+
+// A 128x96 PNG placeholder: a cyan "product" block on a dark background.
+export const MOCK_IMAGE_PNG_BASE64 =
+  'iVBORw0KGgoAAAANSUhEUgAAAIAAAABgCAIAAABaGO0eAAAAuElEQVR42u3RUQkAIBAFwWty4J8Jrn8Ge5jBGA9kYBPsVO9RsLIAAAABACAAAAQAgAAAEAAAAgBAAAAIAAABACAAAPQpwDo3EgAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAABAAAAIAAABACAAAAQAgAAAEAAAAgBAAAAIAAAAAgBAoR5ILT//HUwapQAAAABJRU5ErkJggg==';
+
+const MOCK_VIEWPOINTS = ['front', 'side', 'back', 'three-quarter'];
+
+export type MockResponder = ModelResponse | ((request: ModelRequest) => ModelResponse);
+
+const MOCK_RESPONSES: Record<ModelTask, MockResponder> = {
+  // One suitable assessment per attached image, cycling through the key viewpoints.
+  referenceAnalysis: (request) => ({
+    text: JSON.stringify({
+      images: request.parts.filter(part => 'inlineData' in part).map((_, i) => ({
+        imageNumber: i + 1,
+        isSuitable: true,
+        problem: 'none',
+        detail: 'Mock analysis: the product is clear, well-lit and on a plain background.',
+        viewpoint: MOCK_VIEWPOINTS[i % MOCK_VIEWPOINTS.length],
+      })),
+      reasoning: 'Mock analysis: the reference images are clear, well-lit and show a single product.',
+    }),
+    image: null,
+  }),
+  instruction: {
+    text: 'Replace the single product in the target image with a single product from the reference images, keeping the background unchanged.',
+    image: null,
+  },
+  imageGeneration: {
+    text: 'Mock edit: the product was replaced with a placeholder image.',
+    image: { mimeType: 'image/png', data: MOCK_IMAGE_PNG_BASE64 },
+  },
+  qualityCheck: {
+    text: JSON.stringify({
+      scores: { productAccuracy: 9, logicalConsistency: 9, instructionAdherence: 8, integration: 8, realism: 8 },
+      defects: [],
+      summary: 'Mock quality check: the product matches the references, the edit follows the critical instruction and the lighting is consistent with the original scene.',
+    }),
+    image: null,
+  },
+  // Passes every part of the guidelines the request asks about.
+  brandCheck: (request) => {
+    const prompt = request.parts.map(part => ('text' in part ? part.text : '')).join('\n');
+    const listed = (tag: string) => (prompt.match(new RegExp(`<${tag}>\\n([\\s\\S]*?)\\n</${tag}>`))?.[1] ?? '')
+      .split('\n')
+      .filter(line => /^\s*\d+\./.test(line))
+      .map((_, i) => ({ number: i + 1, passed: true, detail: 'Mock brand check: compliant.' }));
+    const asked = request.responseSchema?.properties ?? {};
+    return {
+      text: JSON.stringify({
+        ...('logo' in asked ? { logo: { passed: true, detail: 'Mock brand check: the logo matches the references.' } } : {}),
+        ...('palette' in asked ? { palette: { passed: true, detail: 'Mock brand check: the colors are on the palette.' } } : {}),
+        forbiddenElements: listed('forbidden_elements'),
+        requiredText: listed('required_text'),
+        summary: 'Mock brand check: the image meets the brand guidelines.',
+      }),
+      image: null,
+    };
+  },
+};
+
+// Rough Gemini-like counts: ~4 characters per text token, 258 tokens per input image and
+// 1290 per generated image. Enough to exercise cost accounting and budgets offline.
+const estimateTokens = (request: ModelRequest, response: ModelResponse): TokenCounts => ({
+  inputTokens: request.parts.reduce((sum, part) => sum + ('text' in part ? Math.ceil(part.text.length / 4) : 258), 0),
+  outputTokens: Math.ceil((response.text?.length ?? 0) / 4) + (response.image ? 1290 : 0),
+});
+
+export interface MockProviderOptions {
+  // Replaces the canned response for individual tasks.
+  responses?: Partial<Record<ModelTask, MockResponder>>;
+  // Simulated latency per call, so progress states are visible in the UI.
+  delayMs?: number;
+}
+
+// A deterministic, offline provider that returns canned responses for every task.
+export const createMockProvider = ({ responses = {}, delayMs = 0 }: MockProviderOptions = {}): ModelProvider => ({
+  name: 'mock',
+  modelFor: (task) => `mock-${task}`,
+  generate: async (request) => {
+    if (delayMs > 0) {
+      await sleep(delayMs, request.signal);
+    }
+    const responder = responses[request.task] ?? MOCK_RESPONSES[request.task];
+    const response = typeof responder === 'function' ? responder(request) : responder;
+    return { ...response, tokens: response.tokens ?? estimateTokens(request, response) };
+  },
+});
@@ -0,0 +1,124 @@
+import type { InlineImage, ModelPart, ModelProvider, ModelRequest, ModelResponse, ModelTask } from '../modelProvider';
+import { crc32 } from '../crc32';
+import { ModelCallError } from '../errors';
+
+// Record-and-replay of model calls, so pipeline runs can be repeated offline and
+// deterministically. A fixture holds each call's request, with images reduced to a hash,
+// and its full response, including returned images.
+
+export const FIXTURE_FORMAT = 'ai-product-replacer.fixture';
+export const FIXTURE_VERSION = 1;
+
+export type RecordedPart = { text: string } | { image: { mimeType: string; hash: string } };
+
+export interface RecordedCall {
+  task: ModelTask;
+  model: string;
+  request: { parts: RecordedPart[]; structured: boolean };
+  response: Pick<ModelResponse, 'text' | 'image' | 'tokens' | 'signals'>;
+}
+
+export interface Fixture {
+  format: typeof FIXTURE_FORMAT;
+  version: number;
+  provider: string; // the provider the calls were recorded from
+  recordedAt: string; // ISO 8601
+  calls: RecordedCall[];
+}
+
+const hashImage = ({ data }: InlineImage): string =>
+  `${crc32(new TextEncoder().encode(data)).toString(16).padStart(8, '0')}.${data.length}`;
+
+const recordParts = (parts: ModelPart[]): RecordedPart[] =>
+  parts.map(part => 'text' in part
+    ? { text: part.text }
+    : { image: { mimeType: part.inlineData.mimeType, hash: hashImage(part.inlineData) } });
+
+// Two requests match when they are for the same task, carry the same prompts and images
+// in the same order, and both do or don't ask for JSON.
+const requestKey = (task: ModelTask, parts: RecordedPart[], structured: boolean): string =>
+  JSON.stringify([task, structured, parts]);
+
+// Passes every call through to `provider` and hands each successful one to `onRecord`,
+// e.g. to append it to a fixture. Failed calls are not recorded.
+export const withRecording = (
+  provider: ModelProvider,
+  onRecord: (call: RecordedCall) => void | Promise<void>
+): ModelProvider => ({
+  ...provider,
+  generate: async (request: ModelRequest) => {
+    const response = await provider.generate(request);
+    await onRecord({
+      task: request.task,
+      model: provider.modelFor(request.task),
+      request: { parts: recordParts(request.parts), structured: Boolean(request.responseSchema) },
+      response: { text: response.text, image: response.image, tokens: response.tokens, signals: response.signals },
+    });
+    return response;
+  },
+});
+
+// Serves the recorded responses back. Identical requests (e.g. parallel variants) get their
+// responses in recording order; a request that wasn't recorded fails, so a changed prompt
+// can't silently pass against a stale fixture.
+export const createReplayProvider = (fixture: Fixture): ModelProvider => {
+  const queues = new Map<string, RecordedCall[]>();
+  for (const call of fixture.calls) {
+    const key = requestKey(call.task, call.request.parts, call.request.structured);
+    queues.set(key, [...(queues.get(key) ?? []), call]);
+  }
+  const models: Partial<Record<ModelTask, string>> = {};
+  fixture.calls.forEach(call => { models[call.task] ??= call.model; });
+
+  return {
+    name: 'replay',
+    modelFor: (task) => models[task] ?? `replay-${task}`,
+    generate: async ({ task, parts, responseSchema }) => {
+      const recordedParts = recordParts(parts);
+      const call = queues.get(requestKey(task, recordedParts, Boolean(responseSchema)))?.shift();
+      if (!call) {
+        const prompt = recordedParts.find((part): part is { text: string } => 'text' in part)?.text.trim() ?? '';
+        throw new ModelCallError(`No recorded ${task} call matches this request (prompt: "${prompt.slice(0, 80)}…"). Record the fixture again.`);
+      }
+      return { ...call.response };
+    },
+  };
+};
+
+export const createFixture = (provider: string, calls: RecordedCall[]): Fixture => ({
+  format: FIXTURE_FORMAT,
+  version: FIXTURE_VERSION,
+  provider,
+  recordedAt: new Date().toISOString(),
+  calls,
+});
+
+export const serializeFixture = (fixture: Fixture): string => JSON.stringify(fixture, null, 2);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const parseFixture = (json: string): Fixture => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('The fixture is not valid JSON.');
+  }
+  if (!isRecord(data) || data.format !== FIXTURE_FORMAT) {
+    throw new Error('The file is not a recorded model fixture.');
+  }
+  if (typeof data.version !== 'number' || data.version > FIXTURE_VERSION) {
+    throw new Error(`Unsupported fixture version: ${String(data.version)}.`);
+  }
+  if (!Array.isArray(data.calls)) {
+    throw new Error('The fixture has no recorded calls.');
+  }
+  data.calls.forEach((call: unknown, index: number) => {
+    if (!isRecord(call) || typeof call.task !== 'string' || !isRecord(call.request) ||
+        !Array.isArray(call.request.parts) || !isRecord(call.response)) {
+      throw new Error(`Recorded call ${index + 1} is malformed.`);
+    }
+  });
+  return data as unknown as Fixture;
+};
@@ -0,0 +1,23 @@
+import type { ModelProvider } from '../modelProvider';
+import { createGeminiProvider } from './geminiProvider';
+import { createMockProvider } from './mockProvider';
+
+export const SERVER_PROVIDERS = ['gemini', 'mock'] as const;
+
+export type ServerProviderName = typeof SERVER_PROVIDERS[number];
+
+export const isServerProviderName = (name: string): name is ServerProviderName =>
+  (SERVER_PROVIDERS as readonly string[]).includes(name);
+
+// Node only: the provider that talks to the model directly, for the CLI and the proxy server.
+// The API key is read from the environment here and never reaches the browser bundle.
+export const createServerProvider = (name: ServerProviderName = 'gemini'): ModelProvider => {
+  if (name === 'mock') {
+    return createMockProvider();
+  }
+  const apiKey = process.env.API_KEY ?? process.env.GEMINI_API_KEY;
+  if (!apiKey) {
+    throw new Error("API_KEY environment variable not set. Set it, or use the mock provider to run offline.");
+  }
+  return createGeminiProvider(apiKey);
+};
@@ -0,0 +1,88 @@
+import { QualityCheckResult, QualityCriterion } from '../types';
+import { ResponseSchema } from './modelProvider';
+
+export const MIN_SCORE = 1;
+export const MAX_SCORE = 10;
+
+// Display labels, in the order the criteria are presented to the judge.
+export const QUALITY_CRITERIA: Record<QualityCriterion, string> = {
+  productAccuracy: 'Product Accuracy',
+  logicalConsistency: 'Logical Consistency',
+  instructionAdherence: 'Instruction Adherence',
+  integration: 'Integration Quality',
+  realism: 'Overall Realism',
+};
+
+const CRITERIA = Object.keys(QUALITY_CRITERIA) as QualityCriterion[];
+
+export const qualityCheckSchema: ResponseSchema = {
+  type: 'object',
+  properties: {
+    scores: {
+      type: 'object',
+      properties: Object.fromEntries(CRITERIA.map(criterion => [criterion, {
+        type: 'integer',
+        description: `${QUALITY_CRITERIA[criterion]} score from ${MIN_SCORE} (unusable) to ${MAX_SCORE} (flawless).`,
+      }])),
+      required: CRITERIA,
+    },
+    defects: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Concrete, fixable defects in the generated image, one per item. Empty if there are none.',
+    },
+    summary: {
+      type: 'string',
+      description: 'A concise, one-paragraph critique of the generated image without markdown formatting.',
+    },
+  },
+  required: ['scores', 'defects', 'summary'],
+};
+
+// Parses the judge's JSON answer and checks it against qualityCheckSchema.
+export const parseQualityCheck = (jsonText: string): QualityCheckResult => {
+  const json = JSON.parse(jsonText);
+  const scores = {} as Record<QualityCriterion, number>;
+  for (const criterion of CRITERIA) {
+    const score = json?.scores?.[criterion];
+    if (typeof score !== 'number' || score < MIN_SCORE || score > MAX_SCORE) {
+      throw new Error(`Quality check returned an invalid "${criterion}" score: ${JSON.stringify(score)}`);
+    }
+    scores[criterion] = score;
+  }
+  if (!Array.isArray(json.defects) || !json.defects.every((defect: unknown) => typeof defect === 'string')) {
+    throw new Error('Quality check returned an invalid defect list.');
+  }
+  if (typeof json.summary !== 'string') {
+    throw new Error('Quality check returned no summary.');
+  }
+  return { scores, defects: json.defects, summary: json.summary };
+};
+
+export const averageScore = (result: QualityCheckResult): number =>
+  CRITERIA.reduce((sum, criterion) => sum + result.scores[criterion], 0) / CRITERIA.length;
+
+// Returns the criteria scoring below their threshold; criteria without a threshold always pass.
+export const findFailingCriteria = (
+  result: QualityCheckResult,
+  thresholds: Partial<Record<QualityCriterion, number>>
+): QualityCriterion[] =>
+  CRITERIA.filter(criterion => result.scores[criterion] < (thresholds[criterion] ?? MIN_SCORE));
+
+// Folds per-product checks into one result for a multi-product image: each criterion takes
+// the lowest product score, so the image only passes when every product does.
+export const combineQualityChecks = (checks: { product: string; qualityCheck: QualityCheckResult }[]): QualityCheckResult => ({
+  scores: Object.fromEntries(CRITERIA.map(criterion => [
+    criterion,
+    Math.min(...checks.map(({ qualityCheck }) => qualityCheck.scores[criterion])),
+  ])) as Record<QualityCriterion, number>,
+  defects: checks.flatMap(({ product, qualityCheck }) => qualityCheck.defects.map(defect => `${product}: ${defect}`)),
+  summary: checks.map(({ product, qualityCheck }) => `${product}: ${qualityCheck.summary}`).join('\n\n'),
+});
+
+export const formatQualityCheck = (result: QualityCheckResult): string => [
+  result.summary,
+  '',
+  ...CRITERIA.map(criterion => `${QUALITY_CRITERIA[criterion]}: ${result.scores[criterion]}/${MAX_SCORE}`),
+  ...(result.defects.length > 0 ? ['', 'Defects:', ...result.defects.map(defect => `- ${defect}`)] : []),
+].join('\n');
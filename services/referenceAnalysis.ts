@@ -0,0 +1,117 @@
+import { ReferenceAnalysis, ReferenceImageAssessment, ReferenceProblem, ReferenceViewpoint } from '../types';
+import { ResponseSchema } from './modelProvider';
+
+// Display labels for the problems the reference check can report.
+export const REFERENCE_PROBLEMS: Record<ReferenceProblem, string> = {
+  none: 'No problem',
+  blur: 'Blurry',
+  'poor-lighting': 'Poor lighting',
+  'busy-background': 'Busy background',
+  'multiple-products': 'Multiple products',
+  people: 'People in the image',
+  cropped: 'Product cut off',
+  'low-resolution': 'Low resolution',
+  other: 'Other problem',
+};
+
+export const REFERENCE_VIEWPOINTS: Record<ReferenceViewpoint, string> = {
+  front: 'Front',
+  back: 'Back',
+  side: 'Side',
+  top: 'Top',
+  bottom: 'Bottom',
+  'three-quarter': 'Three-quarter',
+  detail: 'Close-up detail',
+  unknown: 'Unknown',
+};
+
+// The views a reference set should cover; missing ones are flagged but don't fail the set.
+// A three-quarter view shows both the front and a side.
+const KEY_VIEWPOINTS: ReferenceViewpoint[] = ['front', 'side', 'back'];
+const VIEWPOINT_COVERAGE: Partial<Record<ReferenceViewpoint, ReferenceViewpoint[]>> = {
+  'three-quarter': ['front', 'side'],
+};
+
+const PROBLEMS = Object.keys(REFERENCE_PROBLEMS) as ReferenceProblem[];
+const VIEWPOINTS = Object.keys(REFERENCE_VIEWPOINTS) as ReferenceViewpoint[];
+
+export const referenceAnalysisSchema: ResponseSchema = {
+  type: 'object',
+  properties: {
+    images: {
+      type: 'array',
+      description: 'One assessment per product image, in the order the images were attached.',
+      items: {
+        type: 'object',
+        properties: {
+          imageNumber: { type: 'integer', description: 'The number of the assessed image, starting at 1.' },
+          isSuitable: { type: 'boolean', description: 'Whether this image is suitable as a product reference.' },
+          problem: { type: 'string', enum: PROBLEMS, description: 'The main problem of the image, or "none" if it is suitable.' },
+          detail: { type: 'string', description: 'One short sentence: what is wrong with the image and how to fix it, or what it shows well.' },
+          viewpoint: { type: 'string', enum: VIEWPOINTS, description: 'The side of the product the image shows.' },
+        },
+        required: ['imageNumber', 'isSuitable', 'problem', 'detail', 'viewpoint'],
+      },
+    },
+    reasoning: {
+      type: 'string',
+      description: 'A concise, one-sentence verdict on the whole set. If some images are not suitable, explain what the user should fix.',
+    },
+  },
+  required: ['images', 'reasoning'],
+};
+
+export const findMissingViewpoints = (images: ReferenceImageAssessment[]): ReferenceViewpoint[] => {
+  const covered = new Set(images
+    .filter(image => image.isSuitable)
+    .flatMap(image => VIEWPOINT_COVERAGE[image.viewpoint] ?? [image.viewpoint]));
+  return KEY_VIEWPOINTS.filter(viewpoint => !covered.has(viewpoint));
+};
+
+// Parses the model's JSON answer for `imageCount` images and checks it against
+// referenceAnalysisSchema. The set is only suitable when every image is.
+export const parseReferenceAnalysis = (jsonText: string, imageCount: number): ReferenceAnalysis => {
+  const json = JSON.parse(jsonText);
+  if (!Array.isArray(json?.images)) {
+    throw new Error('Reference check returned no image assessments.');
+  }
+  const images: (ReferenceImageAssessment | undefined)[] = new Array(imageCount).fill(undefined);
+  for (const entry of json.images) {
+    const index = typeof entry?.imageNumber === 'number' ? entry.imageNumber - 1 : -1;
+    if (!Number.isInteger(index) || index < 0 || index >= imageCount || images[index]) {
+      throw new Error(`Reference check returned an invalid image number: ${JSON.stringify(entry?.imageNumber)}`);
+    }
+    if (typeof entry.isSuitable !== 'boolean' || !PROBLEMS.includes(entry.problem) || !VIEWPOINTS.includes(entry.viewpoint)) {
+      throw new Error(`Reference check returned an invalid assessment of image ${index + 1}.`);
+    }
+    images[index] = {
+      isSuitable: entry.isSuitable,
+      problem: entry.isSuitable ? 'none' : entry.problem,
+      detail: typeof entry.detail === 'string' ? entry.detail : '',
+      viewpoint: entry.viewpoint,
+    };
+  }
+  const missing = images.findIndex(image => !image);
+  if (missing !== -1) {
+    throw new Error(`Reference check did not assess image ${missing + 1}.`);
+  }
+  if (typeof json.reasoning !== 'string') {
+    throw new Error('Reference check returned no reasoning.');
+  }
+  const assessed = images as ReferenceImageAssessment[];
+  return {
+    areImagesSuitable: assessed.every(image => image.isSuitable),
+    reasoning: json.reasoning,
+    images: assessed,
+    missingViewpoints: findMissingViewpoints(assessed),
+  };
+};
+
+// One line per unsuitable image, e.g. "Image 2: Blurry. The label is out of focus."
+export const describeUnsuitableImages = (analysis: ReferenceAnalysis, prefix = 'Image'): string[] =>
+  analysis.images.flatMap((image, i) => image.isSuitable
+    ? []
+    : [`${prefix} ${i + 1}: ${REFERENCE_PROBLEMS[image.problem]}.${image.detail ? ` ${image.detail}` : ''}`]);
+
+export const formatMissingViewpoints = (viewpoints: ReferenceViewpoint[]): string =>
+  viewpoints.map(viewpoint => REFERENCE_VIEWPOINTS[viewpoint].toLowerCase()).join(', ');
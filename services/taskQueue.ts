@@ -0,0 +1,36 @@
+export interface TaskQueue {
+  add: <T>(task: () => Promise<T>) => Promise<T>;
+  setConcurrency: (concurrency: number) => void;
+}
+
+// A FIFO queue that runs at most `concurrency` tasks at the same time.
+export const createTaskQueue = (initialConcurrency: number): TaskQueue => {
+  let concurrency = Math.max(1, initialConcurrency);
+  let running = 0;
+  const waiting: (() => void)[] = [];
+
+  const next = () => {
+    while (running < concurrency && waiting.length > 0) {
+      running++;
+      waiting.shift()!();
+    }
+  };
+
+  return {
+    add: (task) => new Promise((resolve, reject) => {
+      waiting.push(() => {
+        task()
+          .then(resolve, reject)
+          .finally(() => {
+            running--;
+            next();
+          });
+      });
+      next();
+    }),
+    setConcurrency: (value) => {
+      concurrency = Math.max(1, value);
+      next();
+    },
+  };
+};
@@ -0,0 +1,43 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { measurePalette, normalizeHexColor, parseBrandCompliance } from '../services/brandCompliance';
+
+// RGBA pixels, one per color.
+const pixels = (...colors: [number, number, number][]): Uint8ClampedArray =>
+  new Uint8ClampedArray(colors.flatMap(([r, g, b]) => [r, g, b, 255]));
+
+describe('brand compliance', () => {
+  it('normalizes hex colors', () => {
+    assert.equal(normalizeHexColor('#0FC'), '#00ffcc');
+    assert.equal(normalizeHexColor(' e30613 '), '#e30613');
+    assert.equal(normalizeHexColor('red'), null);
+  });
+
+  it('measures the palette inside the region only', () => {
+    const image = pixels([227, 6, 19], [229, 8, 20], [0, 0, 255], [0, 0, 255]);
+
+    const [red, blue] = measurePalette(image, null, ['#e30613', '#0000ff']);
+    assert.equal(red.passed, true);
+    assert.ok(red.deltaE < 2);
+    assert.equal(red.coverage, 50);
+    assert.equal(blue.passed, true);
+
+    const [inRegion] = measurePalette(image, new Uint8Array([0, 0, 1, 1]), ['#e30613']);
+    assert.equal(inRegion.passed, false);
+    assert.equal(inRegion.closestColor, '#0000ff');
+    assert.equal(inRegion.coverage, 0);
+  });
+
+  it('requires a verdict for every listed item', () => {
+    const guidelines = { name: 'Brand', palette: [], logos: [], forbiddenElements: ['Alcohol', 'Tobacco'], requiredText: [] };
+    const verdict = (numbers: number[]) => JSON.stringify({
+      forbiddenElements: numbers.map(number => ({ number, passed: true, detail: 'Not present.' })),
+      summary: 'Compliant.',
+    });
+
+    // Matched by number, not position
+    const { items } = parseBrandCompliance(verdict([2, 1]), guidelines);
+    assert.deepEqual(items.map(item => item.label), ['No Alcohol', 'No Tobacco']);
+    assert.throws(() => parseBrandCompliance(verdict([1]), guidelines), /no verdict for "Tobacco"/);
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { classifyError, describeResponseFailure, nextAction } from '../services/failures';
+import { ModelCallError, NetworkError, TimeoutError } from '../services/errors';
+
+const IMAGE = { mimeType: 'image/png', data: 'AAAA' };
+
+describe('failure classification', () => {
+  it('tells blocks, refusals and empty answers apart', () => {
+    assert.equal(describeResponseFailure({ text: null, image: IMAGE }, 'image'), null);
+    assert.deepEqual(
+      describeResponseFailure({ text: null, image: null, signals: { blockReason: 'PROHIBITED_CONTENT' } }, 'text'),
+      { category: 'blocked', reason: 'PROHIBITED_CONTENT', safetyCategories: undefined }
+    );
+    assert.equal(describeResponseFailure({ text: 'Sorry.', image: null, signals: { finishReason: 'SAFETY' } }, 'image')?.category, 'blocked');
+    assert.deepEqual(describeResponseFailure({ text: 'I can\'t edit photos of people.', image: null }, 'image'), { category: 'refused', reason: 'NO_IMAGE' });
+    assert.deepEqual(describeResponseFailure({ text: ' ', image: null, signals: { finishReason: 'MAX_TOKENS' } }, 'text'), { category: 'empty', reason: 'MAX_TOKENS' });
+  });
+
+  it('classifies call errors', () => {
+    assert.equal(classifyError(new ModelCallError('Too many requests.', 429))?.category, 'quota');
+    assert.equal(classifyError(new ModelCallError('Bad gateway.', 502))?.category, 'network');
+    assert.equal(classifyError(new TimeoutError('Timed out.'))?.category, 'network');
+    assert.equal(classifyError(new NetworkError('Failed to fetch'))?.category, 'network');
+    // Unnormalized errors are bugs, not network failures
+    assert.equal(classifyError(new TypeError('Cannot read properties of undefined')), null);
+    assert.equal(classifyError(new ModelCallError('No recorded call matches.')), null);
+    assert.equal(classifyError(new ModelCallError('Invalid argument.', 400)), null);
+    assert.equal(classifyError(new Error('Something else.')), null);
+  });
+
+  it('suggests rephrasing only for revisions', () => {
+    const blocked = { category: 'blocked' as const, reason: 'SAFETY' };
+    assert.equal(nextAction(blocked, true), 'rephrase');
+    assert.equal(nextAction(blocked, false), 'change-input');
+    assert.equal(nextAction({ category: 'quota', reason: 'HTTP 429' }, true), 'retry');
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { LogEntry } from '../types';
+import { parseLogBundle, serializeLogBundle } from '../services/logExport';
+
+const ENTRY: LogEntry = {
+  step: 2,
+  title: 'AI Quality Check',
+  model: 'mock-qualityCheck',
+  template: { id: 'quality-check', version: 1 },
+  retries: [{ attempt: 1, error: 'HTTP 503', delayMs: 1000 }],
+  usage: { inputTokens: 120, outputTokens: 40, cost: null },
+  failure: { category: 'empty', reason: 'NO_CONTENT' },
+  input: { prompt: 'Check it.', images: [{ label: 'Generated Image', base64: 'data:image/png;base64,AAAA' }] },
+  output: { text: null, metrics: { driftScore: 1.5 } },
+};
+
+// The bundle with the first entry's fields overridden.
+const withEntry = (patch: Record<string, unknown>): string => {
+  const bundle = JSON.parse(serializeLogBundle([ENTRY]));
+  bundle.logs[0] = { ...bundle.logs[0], ...patch };
+  return JSON.stringify(bundle);
+};
+
+describe('process log import', () => {
+  it('reads back an exported bundle', () => {
+    assert.deepEqual(parseLogBundle(serializeLogBundle([ENTRY])).logs, [ENTRY]);
+  });
+
+  it('rejects entries whose optional fields are malformed', () => {
+    for (const patch of [
+      { output: { metrics: { driftScore: 'high' } } },
+      { input: { prompt: 'Check it.', images: [{ label: 'Generated Image' }] } },
+      { usage: { inputTokens: '120', outputTokens: 40, cost: null } },
+      { retries: [{ attempt: 1 }] },
+      { failure: { category: 'unknown', reason: 'X' } },
+      { template: { id: 'quality-check' } },
+    ]) {
+      assert.throws(() => parseLogBundle(withEntry(patch)), /Log entry 1 is malformed/, JSON.stringify(patch));
+    }
+  });
+});
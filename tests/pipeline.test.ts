@@ -0,0 +1,155 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFile } from 'node:fs/promises';
+import { setModelProvider } from '../services/modelProvider';
+import { createReplayProvider, parseFixture } from '../services/providers/replayProvider';
+import { MOCK_IMAGE_PNG_BASE64 } from '../services/providers/mockProvider';
+import { GenerationError } from '../services/errors';
+import { fixtureUrl, ScenarioName, SCENARIOS } from './scenarios';
+
+// Replays each scenario against its recorded fixture. A prompt change makes the replay fail
+// with "No recorded ... call matches"; re-record with `npm run test:record`.
+const replay = async <Name extends ScenarioName>(name: Name): Promise<ReturnType<(typeof SCENARIOS)[Name]['run']>> => {
+  setModelProvider(createReplayProvider(parseFixture(await readFile(fixtureUrl(name), 'utf8'))));
+  return SCENARIOS[name].run() as ReturnType<(typeof SCENARIOS)[Name]['run']>;
+};
+
+// The pipeline logs expected provider failures; keep the test output readable.
+const quietly = async <T>(run: () => Promise<T>): Promise<T> => {
+  const error = console.error;
+  const warn = console.warn;
+  console.error = () => {};
+  console.warn = () => {};
+  try {
+    return await run();
+  } finally {
+    console.error = error;
+    console.warn = warn;
+  }
+};
+
+describe('replacement pipeline (replayed)', () => {
+  afterEach(() => setModelProvider(null));
+
+  it('checks the references and replaces the product', async () => {
+    const { analysis, result } = await replay('happy-path');
+
+    assert.equal(analysis.areImagesSuitable, true);
+    assert.deepEqual(analysis.images.map(image => image.viewpoint), ['front', 'side']);
+    assert.deepEqual(analysis.missingViewpoints, ['back']);
+    assert.equal(result.image, MOCK_IMAGE_PNG_BASE64);
+    assert.match(result.instruction, /Replace the single product/);
+    assert.equal(result.attempts, 1);
+    assert.ok(result.qualityCheck);
+    assert.equal(result.qualityCheck.scores.productAccuracy, 9);
+    assert.deepEqual(result.logs.map(log => log.title), [
+      'Pre-analysis for Logical Consistency',
+      'Product Replacement Image Generation',
+      'AI Quality Check',
+    ]);
+    assert.ok(result.logs.every(log => log.usage && log.usage.inputTokens > 0));
+  });
+
+  it('revises the previous attempt from feedback', async () => {
+    const result = await replay('feedback');
+
+    const [analysisLog] = result.logs;
+    assert.equal(analysisLog.title, 'Feedback Analysis');
+    assert.equal(analysisLog.template?.id, 'feedback-analysis');
+    assert.match(analysisLog.input.prompt, /The label is upside down\./);
+    assert.match(analysisLog.input.prompt, /Replace the green box with the red bottle\./);
+    assert.equal(result.image, MOCK_IMAGE_PNG_BASE64);
+  });
+
+  it('fails when the model returns no image', async () => {
+    await quietly(() => assert.rejects(replay('no-image'), {
+      message: /failed to generate an image and responded with: "I cannot edit this image\."/,
+      failure: { category: 'refused', reason: 'NO_IMAGE' },
+    }));
+  });
+
+  it('reports a safety block with its categories and logs', async () => {
+    const error = await quietly(() => replay('blocked').then(() => null, (reason: unknown) => reason));
+
+    assert.ok(error instanceof GenerationError);
+    assert.deepEqual(error.failure, {
+      category: 'blocked',
+      reason: 'IMAGE_SAFETY',
+      safetyCategories: ['HARM_CATEGORY_DANGEROUS_CONTENT'],
+    });
+    assert.match(error.message, /blocked by the model's safety filters/);
+    const failed = error.logs.filter(log => log.failure);
+    assert.deepEqual(failed.map(log => log.title), ['Product Replacement Image Generation', 'Generation Failed']);
+  });
+
+  it('keeps an unreadable quality check in the log', async () => {
+    const result = await replay('unreadable-quality-check');
+
+    assert.equal(result.image, MOCK_IMAGE_PNG_BASE64);
+    assert.equal(result.qualityCheck, null);
+    const qualityLog = result.logs.find(log => log.title === 'AI Quality Check');
+    assert.equal(qualityLog?.output.text, 'The replacement looks convincing.');
+    assert.deepEqual(qualityLog?.failure, { category: 'invalid', reason: 'INVALID_JSON' });
+    assert.ok(qualityLog?.usage);
+  });
+
+  it('regenerates an attempt that fails the quality thresholds', async () => {
+    const result = await replay('quality-failure');
+
+    assert.equal(result.attempts, 2);
+    assert.ok(result.qualityCheck);
+    assert.equal(result.qualityCheck.scores.integration, 8);
+    const corrections = result.logs.filter(log => log.title === 'Automatic Self-Correction');
+    assert.equal(corrections.length, 2);
+    assert.match(corrections[0].output.text ?? '', /The bottle floats above the table\./);
+    assert.match(corrections[1].output.text ?? '', /Accepting attempt 2/);
+    // The retry is planned from the failed attempt's defects, like reviewer feedback
+    assert.ok(result.logs.some(log => log.attempt === 2 && log.template?.id === 'feedback-analysis'));
+  });
+
+  it('rejects a reference set with an unsuitable image', async () => {
+    const analysis = await replay('reference-rejection');
+
+    assert.equal(analysis.areImagesSuitable, false);
+    assert.deepEqual(analysis.images.map(image => image.isSuitable), [true, false]);
+    assert.equal(analysis.images[1].problem, 'blur');
+    // A blurry side view doesn't count towards the covered viewpoints
+    assert.deepEqual(analysis.missingViewpoints, ['side', 'back']);
+  });
+
+  it('checks the result against the brand guidelines', async () => {
+    const result = await replay('brand-compliance');
+
+    assert.ok(result.compliance);
+    assert.equal(result.compliance.passed, false);
+    assert.deepEqual(result.compliance.items.map(item => [item.category, item.passed]), [
+      ['logo', true],
+      ['palette', true],
+      ['forbidden', true],
+      ['text', false],
+    ]);
+    assert.equal(result.compliance.items[3].label, 'Shows "Original Recipe"');
+    const brandLog = result.logs.find(log => log.title === 'Brand Compliance Check');
+    assert.equal(brandLog?.template?.id, 'brand-compliance');
+    assert.match(brandLog?.input.prompt ?? '', /<required_text>\n1\. Original Recipe\n<\/required_text>/);
+  });
+
+  it('generates with the instruction the user approved', async () => {
+    const { proposals, result } = await replay('plan-review');
+
+    assert.equal(proposals.length, 1);
+    assert.equal(proposals[0].isRevision, false);
+    assert.match(result.instruction, /Keep the shadow under the bottle\.$/);
+    assert.deepEqual(result.logs.map(log => log.title), [
+      'Pre-analysis for Logical Consistency',
+      'Plan Review',
+      'Product Replacement Image Generation',
+      'AI Quality Check',
+    ]);
+    const [analysisLog, reviewLog, generationLog] = result.logs;
+    assert.equal(reviewLog.humanEdited, true);
+    assert.equal(reviewLog.input.prompt, analysisLog.output.text);
+    assert.equal(reviewLog.output.text, result.instruction);
+    assert.match(generationLog.input.prompt, /Keep the shadow under the bottle\./);
+  });
+});
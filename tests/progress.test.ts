@@ -0,0 +1,56 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { PipelineStepId, ProgressEvent, StepStatus } from '../types';
+import { applyProgressEvent, PIPELINE_STEPS, planRun } from '../services/progress';
+
+const event = (plan: PipelineStepId[], stepId: PipelineStepId, status: StepStatus, attempt?: number): ProgressEvent => ({
+  stepId,
+  ...PIPELINE_STEPS[stepId],
+  index: plan.indexOf(stepId) + 1,
+  total: plan.length,
+  plan,
+  status,
+  startedAt: 1,
+  finishedAt: status === 'running' ? null : 2,
+  attempt,
+});
+
+const statuses = (steps: ProgressEvent[]) => steps.map(step => [step.stepId, step.status]);
+
+describe('progress', () => {
+  it('keeps finished steps when the plan gains steps partway through a run', () => {
+    // The reference check is reported against the bare plan, the rest against the full one
+    const checkPlan = planRun(false);
+    const runPlan = planRun(false, { planReview: true, brandCheck: true });
+    let steps = applyProgressEvent([], event(checkPlan, 'referenceCheck', 'running'));
+    steps = applyProgressEvent(steps, event(checkPlan, 'referenceCheck', 'completed'));
+    steps = applyProgressEvent(steps, event(runPlan, 'consistencyAnalysis', 'running'));
+
+    assert.deepEqual(statuses(steps), [
+      ['referenceCheck', 'completed'],
+      ['consistencyAnalysis', 'running'],
+      ['planReview', 'pending'],
+      ['imageGeneration', 'pending'],
+      ['qualityCheck', 'pending'],
+      ['brandCheck', 'pending'],
+    ]);
+    assert.ok(steps.every(step => step.total === 6));
+  });
+
+  it('starts a self-correction attempt over', () => {
+    const firstPlan = planRun(false, { brandCheck: true });
+    let steps = firstPlan.reduce(
+      (current, stepId) => applyProgressEvent(current, event(firstPlan, stepId, 'completed', 1)),
+      [] as ProgressEvent[]
+    );
+    const retryPlan = planRun(true, { brandCheck: true });
+    steps = applyProgressEvent(steps, event(retryPlan, 'feedbackAnalysis', 'running', 2));
+
+    assert.deepEqual(statuses(steps), [
+      ['feedbackAnalysis', 'running'],
+      ['imageGeneration', 'pending'],
+      ['qualityCheck', 'pending'],
+      ['brandCheck', 'pending'],
+    ]);
+  });
+});
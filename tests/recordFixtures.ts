@@ -0,0 +1,23 @@
+import { writeFile } from 'node:fs/promises';
+import { setModelProvider } from '../services/modelProvider';
+import { createMockProvider } from '../services/providers/mockProvider';
+import { createFixture, RecordedCall, serializeFixture, withRecording } from '../services/providers/replayProvider';
+import { fixtureUrl, ScenarioName, SCENARIOS } from './scenarios';
+
+// Records every scenario's model calls to its fixture. Run it after changing a prompt or the
+// order of the pipeline's calls, and review the fixture diff like any other change.
+for (const [name, scenario] of Object.entries(SCENARIOS) as [ScenarioName, (typeof SCENARIOS)[ScenarioName]][]) {
+  const calls: RecordedCall[] = [];
+  setModelProvider(withRecording(createMockProvider({ responses: scenario.responses?.() }), call => {
+    calls.push(call);
+  }));
+  try {
+    await scenario.run();
+  } catch (error) {
+    // Failing runs are scenarios too; their calls up to the failure are what gets replayed.
+    console.log(`${name}: failed as recorded (${error instanceof Error ? error.message : String(error)})`);
+  }
+  await writeFile(fixtureUrl(name), `${serializeFixture(createFixture('mock', calls))}\n`);
+  console.log(`${name}: recorded ${calls.length} call${calls.length === 1 ? '' : 's'}`);
+}
+setModelProvider(null);
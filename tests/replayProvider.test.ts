@@ -0,0 +1,60 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { ModelRequest } from '../services/modelProvider';
+import { createMockProvider } from '../services/providers/mockProvider';
+import {
+  createFixture, createReplayProvider, parseFixture, RecordedCall, serializeFixture, withRecording,
+} from '../services/providers/replayProvider';
+import { ModelCallError } from '../services/errors';
+
+const request = (text: string, data = 'AAAA'): ModelRequest => ({
+  task: 'instruction',
+  parts: [{ inlineData: { mimeType: 'image/png', data } }, { text }],
+  prompt: { text, template: { id: 'test', version: 1 }, vars: {} },
+});
+
+const record = async (requests: ModelRequest[]): Promise<RecordedCall[]> => {
+  const calls: RecordedCall[] = [];
+  let count = 0;
+  const provider = withRecording(
+    createMockProvider({ responses: { instruction: () => ({ text: `answer ${++count}`, image: null }) } }),
+    call => { calls.push(call); }
+  );
+  for (const next of requests) {
+    await provider.generate(next);
+  }
+  return calls;
+};
+
+describe('record and replay', () => {
+  it('stores image hashes rather than image data', async () => {
+    const [call] = await record([request('Describe it.', 'QUJDRA==')]);
+
+    assert.deepEqual(call.request.parts[1], { text: 'Describe it.' });
+    assert.ok(!('inlineData' in call.request.parts[0]));
+    assert.equal(call.model, 'mock-instruction');
+    assert.equal(call.response.text, 'answer 1');
+  });
+
+  it('serves identical requests in recording order', async () => {
+    const calls = await record([request('Same.'), request('Same.'), request('Other.')]);
+    const replay = createReplayProvider(parseFixture(serializeFixture(createFixture('mock', calls))));
+
+    assert.equal((await replay.generate(request('Other.'))).text, 'answer 3');
+    assert.equal((await replay.generate(request('Same.'))).text, 'answer 1');
+    assert.equal((await replay.generate(request('Same.'))).text, 'answer 2');
+    assert.equal(replay.modelFor('instruction'), 'mock-instruction');
+  });
+
+  it('fails on requests that were not recorded', async () => {
+    const replay = createReplayProvider(createFixture('mock', await record([request('Recorded.')])));
+
+    await assert.rejects(replay.generate(request('Recorded.', 'QkJCQg==')), ModelCallError);
+    await assert.rejects(replay.generate(request('Changed.')), /No recorded instruction call matches/);
+  });
+
+  it('rejects files that are not fixtures', () => {
+    assert.throws(() => parseFixture('{"format":"something-else"}'), /not a recorded model fixture/);
+    assert.throws(() => parseFixture('not json'), /not valid JSON/);
+  });
+});
@@ -0,0 +1,186 @@
+import { readFile } from 'node:fs/promises';
+import { ImageSource } from '../types';
+import { analyzeReferenceImages, PlanProposal, replaceProductInImage } from '../services/geminiService';
+import { MockProviderOptions } from '../services/providers/mockProvider';
+import { CallOptions } from '../services/modelCall';
+
+// The pipeline runs the test suite replays. Each one is recorded to tests/fixtures/<name>.json
+// by `npm run test:record`, from the mock provider with the responses below in place of its
+// canned ones, so failures the real model only produces now and then are reproducible.
+
+export interface Scenario<T> {
+  // A factory, so responders that count their calls start from zero on every recording.
+  responses?: () => MockProviderOptions['responses'];
+  run: () => Promise<T>;
+}
+
+const defineScenario = <T>(scenario: Scenario<T>): Scenario<T> => scenario;
+
+// Replayed calls either match or fail for good, so retrying them only slows the suite down.
+const CALL_OPTIONS: CallOptions = { callPolicy: { maxRetries: 0 } };
+
+export const loadImage = async (name: string): Promise<ImageSource> => {
+  const data = await readFile(new URL(`./fixtures/images/${name}`, import.meta.url));
+  return { base64: `data:image/png;base64,${data.toString('base64')}` };
+};
+
+const loadInputs = async () => ({
+  productImages: [await loadImage('product-front.png'), await loadImage('product-side.png')],
+  marketingImage: await loadImage('marketing.png'),
+});
+
+const qualityCheckResponse = (score: number, defects: string[]) => ({
+  text: JSON.stringify({
+    scores: { productAccuracy: score, logicalConsistency: score, instructionAdherence: score, integration: score, realism: score },
+    defects,
+    summary: `Scripted quality check scoring ${score} on every criterion.`,
+  }),
+  image: null,
+});
+
+export const SCENARIOS = {
+  'happy-path': defineScenario({
+    run: async () => {
+      const { productImages, marketingImage } = await loadInputs();
+      const analysis = await analyzeReferenceImages(productImages, CALL_OPTIONS);
+      const result = await replaceProductInImage(productImages, marketingImage, undefined, undefined, CALL_OPTIONS);
+      return { analysis, result };
+    },
+  }),
+
+  feedback: defineScenario({
+    run: async () => {
+      const { productImages, marketingImage } = await loadInputs();
+      return replaceProductInImage(productImages, marketingImage, 'The label is upside down.', undefined, {
+        ...CALL_OPTIONS,
+        previousAttempt: { instruction: 'Replace the green box with the red bottle.', image: marketingImage },
+      });
+    },
+  }),
+
+  'no-image': defineScenario({
+    responses: () => ({
+      imageGeneration: { text: 'I cannot edit this image.', image: null },
+    }),
+    run: async () => {
+      const { productImages, marketingImage } = await loadInputs();
+      return replaceProductInImage(productImages, marketingImage, undefined, undefined, CALL_OPTIONS);
+    },
+  }),
+
+  // The image model's safety filter withholds the result.
+  blocked: defineScenario({
+    responses: () => ({
+      imageGeneration: {
+        text: null,
+        image: null,
+        signals: {
+          finishReason: 'IMAGE_SAFETY',
+          safetyRatings: [{ category: 'HARM_CATEGORY_DANGEROUS_CONTENT', probability: 'HIGH', blocked: true }],
+        },
+      },
+    }),
+    run: async () => {
+      const { productImages, marketingImage } = await loadInputs();
+      return replaceProductInImage(productImages, marketingImage, undefined, undefined, CALL_OPTIONS);
+    },
+  }),
+
+  // The quality check answers in prose instead of the requested JSON.
+  'unreadable-quality-check': defineScenario({
+    responses: () => ({
+      qualityCheck: { text: 'The replacement looks convincing.', image: null },
+    }),
+    run: async () => {
+      const { productImages, marketingImage } = await loadInputs();
+      return replaceProductInImage(productImages, marketingImage, undefined, undefined, CALL_OPTIONS);
+    },
+  }),
+
+  // The first attempt fails the quality thresholds; the automatic retry passes them.
+  'quality-failure': defineScenario({
+    responses: () => {
+      let checks = 0;
+      return {
+        qualityCheck: () => ++checks === 1
+          ? qualityCheckResponse(4, ['The bottle floats above the table.'])
+          : qualityCheckResponse(8, []),
+      };
+    },
+    run: async () => {
+      const { productImages, marketingImage } = await loadInputs();
+      return replaceProductInImage(productImages, marketingImage, undefined, undefined, {
+        ...CALL_OPTIONS,
+        autoRetry: { thresholds: { productAccuracy: 7, integration: 7 }, maxAttempts: 2 },
+      });
+    },
+  }),
+
+  'reference-rejection': defineScenario({
+    responses: () => ({
+      referenceAnalysis: {
+        text: JSON.stringify({
+          images: [
+            { imageNumber: 1, isSuitable: true, problem: 'none', detail: 'A sharp front view.', viewpoint: 'front' },
+            { imageNumber: 2, isSuitable: false, problem: 'blur', detail: 'The label is out of focus.', viewpoint: 'side' },
+          ],
+          reasoning: 'Image 2 is too blurry to show the label; replace it with a sharper photo.',
+        }),
+        image: null,
+      },
+    }),
+    run: async () => {
+      const { productImages } = await loadInputs();
+      return analyzeReferenceImages(productImages, CALL_OPTIONS);
+    },
+  }),
+
+  // The packaging text is missing from the result; everything else meets the guidelines.
+  'brand-compliance': defineScenario({
+    responses: () => ({
+      brandCheck: {
+        text: JSON.stringify({
+          logo: { passed: true, detail: 'The logo matches the reference.' },
+          palette: { passed: true, detail: 'The bottle keeps the brand cyan.' },
+          forbiddenElements: [{ number: 1, passed: true, detail: 'No competitor logos are visible.' }],
+          requiredText: [{ number: 1, passed: false, detail: 'The label text is illegible.' }],
+          summary: 'The image is on-brand except for the illegible label text.',
+        }),
+        image: null,
+      },
+    }),
+    run: async () => {
+      const { productImages, marketingImage } = await loadInputs();
+      return replaceProductInImage(productImages, marketingImage, undefined, undefined, {
+        ...CALL_OPTIONS,
+        brand: {
+          name: 'Test Brand',
+          palette: ['#00ffff'],
+          logos: [await loadImage('product-front.png')],
+          forbiddenElements: ['Competitor logos'],
+          requiredText: ['Original Recipe'],
+        },
+      });
+    },
+  }),
+
+  // The user adds a sentence to the planned instruction before approving it.
+  'plan-review': defineScenario({
+    run: async () => {
+      const { productImages, marketingImage } = await loadInputs();
+      const proposals: PlanProposal[] = [];
+      const result = await replaceProductInImage(productImages, marketingImage, undefined, undefined, {
+        ...CALL_OPTIONS,
+        reviewPlan: async proposal => {
+          proposals.push(proposal);
+          return { instruction: `${proposal.instruction}\nKeep the shadow under the bottle.` };
+        },
+      });
+      return { proposals, result };
+    },
+  }),
+};
+
+export type ScenarioName = keyof typeof SCENARIOS;
+
+export const fixtureUrl = (name: ScenarioName): URL => new URL(`./fixtures/${name}.json`, import.meta.url);
@@ -1,6 +1,10 @@
-export interface ImageFile {
+// The browser-independent part of an image: enough to send it to a model.
+export interface ImageSource {
+  base64: string; // data URL, e.g. "data:image/png;base64,..."
+}
+
+export interface ImageFile extends ImageSource {
   file: File;
-  base64: string;
 }
 
 export interface LogEntryInput {
@@ -14,12 +18,283 @@ export interface LogEntryInput {
 export interface LogEntryOutput {
   text?: string | null;
   image?: string | null; // base64
+  metrics?: Record<string, number>;
+}
+
+// Identifies the prompt template revision a model call was made with.
+export interface PromptTemplateRef {
+  id: string;
+  version: number;
+}
+
+// A model call that failed with a retryable error and was tried again.
+export interface ModelCallRetry {
+  attempt: number; // the failed try, 1-based
+  error: string;
+  delayMs: number; // backoff before the next try
+}
+
+// Tokens a model call consumed, as reported by the provider, and what they cost.
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cost: number | null; // estimated USD; null when the model isn't in the price table
+}
+
+// Why a model call produced nothing usable: a safety filter blocked it, the model answered
+// without doing the task, the answer was empty, a quota or rate limit refused it, or the call
+// never got an answer.
+export type FailureCategory = 'blocked' | 'refused' | 'empty' | 'invalid' | 'quota' | 'network';
+
+export interface FailureInfo {
+  category: FailureCategory;
+  reason: string; // the provider's code, e.g. "IMAGE_SAFETY", "HTTP 429" or "TIMEOUT"
+  safetyCategories?: string[]; // for blocked calls: the harm categories that were flagged
 }
 
 export interface LogEntry {
   step: number;
   title: string;
   model: string;
+  template: PromptTemplateRef | null; // null for local steps that don't prompt a model
+  attempt?: number; // 1-based generation attempt, set when a run retries automatically
+  variant?: number; // 1-based candidate, set when a run generates several variants
+  retries?: ModelCallRetry[]; // set when the model call only succeeded after retrying
+  usage?: TokenUsage; // set for model calls whose provider reports token counts
+  product?: string; // set for per-product steps of a multi-product job
+  failure?: FailureInfo; // set when the step got no usable answer
+  humanEdited?: boolean; // set on plan reviews: whether the user changed the proposed instruction
   input: LogEntryInput;
   output: LogEntryOutput;
 }
+
+// The steps of one replacement run, in the order they can occur. A run uses either the
+// consistency analysis (fresh run) or the feedback analysis (revision), never both.
+// The plan review only runs when the user asked to approve the instruction, and the brand
+// check only for jobs with a brand profile.
+export type PipelineStepId =
+  | 'referenceCheck' | 'feedbackAnalysis' | 'consistencyAnalysis' | 'planReview' | 'imageGeneration' | 'qualityCheck' | 'brandCheck';
+
+export type PipelinePhase = 'preflight' | 'planning' | 'generation' | 'review';
+
+export type StepStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+// Emitted whenever a step of the run changes status.
+export interface ProgressEvent {
+  stepId: PipelineStepId;
+  title: string;
+  phase: PipelinePhase;
+  index: number; // 1-based position of the step in `plan`
+  total: number;
+  plan: PipelineStepId[]; // every step of this run (or attempt), in order
+  status: StepStatus;
+  startedAt: number | null; // epoch milliseconds
+  finishedAt: number | null;
+  attempt?: number; // set when a run retries automatically
+  maxAttempts?: number;
+}
+
+export type ReferenceProblem =
+  | 'none' | 'blur' | 'poor-lighting' | 'busy-background' | 'multiple-products' | 'people' | 'cropped' | 'low-resolution' | 'other';
+
+export type ReferenceViewpoint = 'front' | 'back' | 'side' | 'top' | 'bottom' | 'three-quarter' | 'detail' | 'unknown';
+
+// The reference check's assessment of one product image.
+export interface ReferenceImageAssessment {
+  isSuitable: boolean;
+  problem: ReferenceProblem; // 'none' for suitable images
+  detail: string; // what is wrong with the image, or what it shows well
+  viewpoint: ReferenceViewpoint;
+}
+
+export interface ReferenceAnalysis {
+  areImagesSuitable: boolean; // true only when every image is suitable
+  reasoning: string;
+  images: ReferenceImageAssessment[]; // in the order the images were checked
+  // Key viewpoints that no suitable image shows, e.g. a back view.
+  missingViewpoints: ReferenceViewpoint[];
+}
+
+export type QualityCriterion = 'productAccuracy' | 'logicalConsistency' | 'instructionAdherence' | 'integration' | 'realism';
+
+export interface QualityCheckResult {
+  scores: Record<QualityCriterion, number>; // 1 (unusable) to 10 (flawless)
+  defects: string[];
+  summary: string;
+}
+
+export interface AutoRetryOptions {
+  // Minimum acceptable score per criterion; an attempt below any of them is regenerated.
+  thresholds: Partial<Record<QualityCriterion, number>>;
+  maxAttempts: number;
+}
+
+export interface DriftResult {
+  score: number;          // % of pixels outside the product region that changed noticeably
+  meanDifference: number; // mean per-channel difference outside the product region, 0-255
+  heatmap: string;        // data URL
+  regionSource: 'mask' | 'estimated' | 'none'; // none: too much changed to estimate a region, so the whole image counts
+}
+
+// One product of a multi-product job: its own references and the part of the marketing
+// image it replaces, given as a description, a mask or both.
+export interface ProductTarget {
+  name: string;
+  images: ImageSource[]; // in the order the user arranged them
+  primaryIndex: number;
+  target: string; // e.g. "the bottle on the left"; may be empty when a mask is given
+  mask: string | null; // data URL; white marks the region of the product it replaces
+}
+
+export interface ProductInstruction {
+  product: string;
+  instruction: string;
+}
+
+export interface ProductQualityCheck {
+  product: string;
+  qualityCheck: QualityCheckResult | null; // null when that product's check failed
+}
+
+// What a brand profile asks of a generated image.
+export interface BrandGuidelines {
+  name: string;
+  palette: string[]; // "#rrggbb" colors
+  logos: ImageSource[];
+  forbiddenElements: string[];
+  requiredText: string[]; // packaging text that must appear, verbatim
+}
+
+// A brand profile saved in the app, which jobs can be checked against.
+export interface BrandProfile extends BrandGuidelines {
+  id: string;
+  logos: ImageFile[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type ComplianceCategory = 'palette' | 'logo' | 'forbidden' | 'text' | 'review';
+
+// One pass/fail finding of the brand check. Local items are measured from pixels; model
+// items are the judge's opinion.
+export interface ComplianceItem {
+  category: ComplianceCategory;
+  label: string;
+  passed: boolean;
+  detail: string;
+  source: 'model' | 'local';
+}
+
+export interface ComplianceResult {
+  passed: boolean; // true only when every item passed
+  summary: string;
+  items: ComplianceItem[];
+}
+
+export interface ReplacementCandidate {
+  variant: number; // 1-based, in generation order
+  image: string; // base64 PNG, without the data URL prefix
+  text: string | null;
+  qualityCheck: QualityCheckResult | null; // for multi-product jobs, the lowest score per criterion
+  productChecks?: ProductQualityCheck[]; // set for multi-product jobs
+  drift: DriftResult | null;
+  compliance?: ComplianceResult; // set for jobs with a brand profile
+}
+
+export interface ReplacementResult {
+  image: string | null; // base64 PNG, without the data URL prefix
+  text: string | null;
+  instruction: string; // the critical instruction the image was generated from
+  productInstructions?: ProductInstruction[]; // set for multi-product jobs; `instruction` joins them
+  qualityCheck: QualityCheckResult | null; // null when the quality check itself failed
+  drift: DriftResult | null; // null when drift detection is unavailable, e.g. outside a browser
+  compliance?: ComplianceResult; // set for jobs with a brand profile
+  candidates: ReplacementCandidate[]; // ranked best first; the top one is also returned above
+  attempts: number;
+  logs: LogEntry[];
+}
+
+export type BatchItemStatus = 'pending' | 'queued' | 'running' | 'succeeded' | 'failed' | 'approved' | 'rejected';
+
+export interface BatchItem {
+  id: string;
+  marketingImage: ImageFile;
+  status: BatchItemStatus;
+  progressMessage: string;
+  resultImage: string | null;
+  resultText: string | null;
+  instruction: string | null; // the critical instruction the result was generated from
+  qualityCheck: QualityCheckResult | null;
+  logs: LogEntry[];
+  error: string | null;
+}
+
+// A product after the first in a multi-product job, as stored with the job.
+export interface JobProduct extends ProductTarget {
+  id: string;
+  images: ImageFile[];
+}
+
+// The outcome of analyzeReferenceImages for a set of reference images. Assessments are
+// stored with the fingerprint of their image, so they survive the set being reordered.
+export interface ReferenceVerdict {
+  areImagesSuitable: boolean;
+  reasoning: string;
+  // Missing in verdicts stored before images were assessed one by one.
+  images?: (ReferenceImageAssessment & { fingerprint: string })[];
+  missingViewpoints?: ReferenceViewpoint[];
+  checkedAt: number; // epoch milliseconds
+  fingerprint: string; // identifies the checked images, independent of their order
+}
+
+// A product saved in the local catalog, so its reference set can be reused across jobs.
+export interface CatalogProduct {
+  id: string;
+  name: string;
+  sku: string;
+  category: string;
+  notes: string;
+  images: ImageFile[]; // in the order the user arranged them
+  primaryIndex: number;
+  verdict: ReferenceVerdict | null; // null until the set has been checked
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type JobStatus = 'in-progress' | 'awaiting-review' | 'approved' | 'failed' | 'cancelled';
+
+// One node of a job's attempt tree. Retries with feedback branch from the attempt
+// the reviewer had selected, so siblings share a parent.
+export interface JobAttempt {
+  id: string;
+  parentId: string | null; // null for attempts generated from scratch
+  createdAt: number;
+  feedback: string | null; // the reviewer feedback this attempt was generated from
+  result: Omit<ReplacementResult, 'logs'>;
+}
+
+export interface ApprovedAttempt {
+  attemptId: string;
+  variant: number;
+}
+
+// A persisted single-image job, including every attempt made for it.
+export interface JobRecord {
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+  status: JobStatus;
+  productImages: ImageFile[]; // in the order the user arranged them
+  primaryProductIndex: number;
+  marketingImage: ImageFile;
+  marketingMask: string | null; // for multi-product jobs, the region of the first product
+  // Multi-product jobs only: the first product's name and target, and the other products.
+  productName?: string;
+  productTarget?: string;
+  additionalProducts?: JobProduct[];
+  brandProfile?: BrandProfile; // as it was when the job started
+  attempts: JobAttempt[]; // in creation order
+  approved: ApprovedAttempt | null;
+  logs: LogEntry[];
+  error: string | null;
+}
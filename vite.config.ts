@@ -10,8 +10,15 @@ export default defineConfig(({ mode }) => {
   const env = loadEnv(mode, cwd(), '');
   return {
     plugins: [react()],
+    // The API key is deliberately not defined here: it stays in the proxy server (npm run server).
     define: {
-      'process.env.API_KEY': JSON.stringify(env.API_KEY)
+      'process.env.MODEL_PROVIDER': JSON.stringify(env.MODEL_PROVIDER),
+      'process.env.MODEL_PROXY_URL': JSON.stringify(env.MODEL_PROXY_URL)
+    },
+    server: {
+      proxy: {
+        '/api': `http://localhost:${env.PROXY_PORT || 8787}`
+      }
     }
   }
 })